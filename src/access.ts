@@ -0,0 +1,116 @@
+/**
+ * Mount confinement — decides whether a path a client asks for is exposed by
+ * one of the mounted folders, for reading or (in writable mounts) writing.
+ *
+ * Every check runs twice: on the path as requested (it must sit inside a
+ * mount and pass that mount's filter) and on the path with symlinks resolved
+ * (it must still be a file the same mount exposes), since a link may point
+ * anywhere.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { MountFilter } from "./filters.js";
+import { findConverter } from "./converters.js";
+
+/** JSON-RPC error code the MCP spec reserves for unknown resources */
+export const RESOURCE_NOT_FOUND = -32002;
+
+/** True if `target` is `root` itself or lies underneath it */
+export function isInside(root: string, target: string): boolean {
+  const rel = path.relative(root, target);
+  return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+}
+
+/** Decode the path part of a resource URI into an absolute filesystem path */
+export function uriPathToFsPath(raw: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(raw);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Malformed resource path: ${raw}`);
+  }
+  return path.resolve("/", decoded);
+}
+
+/**
+ * Resolve a requested file path and make sure it is actually exposed:
+ * it must sit inside one of `mounts` (after following symlinks) and pass
+ * that mount's filter. Returns the real path; throws an McpError otherwise.
+ */
+export async function resolveMountedFile(mounts: Iterable<MountFilter>, requested: string): Promise<string> {
+  const resolved = uriPathToFsPath(requested);
+
+  const owners = [...mounts].filter((f) => isInside(f.root, resolved));
+  if (owners.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Access denied: ${resolved} is not inside a mounted directory`);
+  }
+  const exposing = owners.filter((f) => f.allowsFile(resolved));
+  if (exposing.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Access denied: ${resolved} is not exposed by its mount`);
+  }
+
+  let real: string;
+  try {
+    real = await fs.realpath(resolved);
+  } catch {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${resolved}`);
+  }
+
+  // Symlinks may point anywhere — check the real target against the real mount roots
+  for (const filter of exposing) {
+    if (await filter.containsRealPath(real)) return real;
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Access denied: ${resolved} resolves outside its mount`);
+}
+
+/** Real path of an indexed file, or undefined if it is gone or no longer resolves inside a mount exposing it */
+export async function exposedRealPath(mounts: Iterable<MountFilter>, filePath: string): Promise<string | undefined> {
+  const real = await fs.realpath(filePath).catch(() => null);
+  if (real === null) return undefined;
+  for (const filter of mounts) {
+    if (filter.allowsFile(filePath) && (await filter.containsRealPath(real))) return real;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a path for writing. It must name a file the mount exposes, inside a
+ * mount created with `writable: true`, and after following symlinks (of the
+ * file, or of its nearest existing folder) it must still name a file that
+ * mount exposes. Returns the real path to write to; throws otherwise.
+ */
+export async function resolveWritableFile(mounts: Iterable<MountFilter>, requested: string): Promise<string> {
+  const absolute = path.resolve(requested);
+  const owners = [...mounts].filter((f) => isInside(f.root, absolute));
+  if (owners.length === 0) throw new Error(`Access denied: ${absolute} is not inside a mounted directory`);
+  const writable = owners.filter((f) => f.options.writable);
+  if (writable.length === 0) {
+    throw new Error(`Access denied: ${absolute} is in a read-only mount — mount its folder with writable: true first`);
+  }
+  const exposing = writable.filter((f) => f.allowsFile(absolute));
+  if (exposing.length === 0) {
+    throw new Error(`Access denied: ${absolute} is not a file its mount exposes (check the extension and filters)`);
+  }
+  const converter = findConverter(absolute);
+  if (converter) throw new Error(`${converter.format} files are converted on read and cannot be written`);
+
+  let existing = absolute;
+  while (!(await fs.lstat(existing).then(() => true, () => false))) existing = path.dirname(existing);
+  let real: string;
+  try {
+    real = path.join(await fs.realpath(existing), path.relative(existing, absolute));
+  } catch {
+    throw new Error(`Access denied: ${existing} is a broken symlink`);
+  }
+
+  // The target must be a file the same mount would expose, not merely inside it
+  for (const filter of exposing) {
+    if (!(await filter.containsRealPath(real))) continue;
+    const stat = await fs.stat(real).catch(() => null);
+    if (stat && !stat.isFile()) throw new Error(`${absolute} is not a regular file`);
+    return real;
+  }
+  throw new Error(`Access denied: ${absolute} resolves outside its mount`);
+}
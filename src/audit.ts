@@ -0,0 +1,205 @@
+/**
+ * Audit log — a durable record of every tool call and resource read.
+ *
+ * Entries live in a local SQLite file so they survive restarts and can be
+ * filtered by time, session, operation and outcome. Old entries are pruned
+ * according to a retention period measured in days.
+ */
+
+import Database from "better-sqlite3";
+
+// ─── Types ─────────────────────────────────
+
+export type AuditKind = "tool" | "resource";
+export type AuditOutcome = "ok" | "error";
+
+/** One recorded operation, as handed to the log */
+export interface AuditRecord {
+  /** Transport session ID, or "stdio" for the stdio transport */
+  session: string;
+  /** Client name/version reported during initialization */
+  client: string;
+  kind: AuditKind;
+  /** Tool name or resource template name */
+  name: string;
+  /** Resource URI, or the tool's arguments as JSON */
+  target: string;
+  /** SQL text, for operations that ran a query */
+  sql?: string;
+  bytes: number;
+  durationMs: number;
+  outcome: AuditOutcome;
+  /** First line of the failure message */
+  error?: string;
+}
+
+export interface AuditEntry extends AuditRecord {
+  id: number;
+  /** ISO 8601 timestamp (UTC) */
+  ts: string;
+}
+
+export interface AuditFilter {
+  /** Only entries at or after this ISO timestamp */
+  since?: string;
+  /** Only entries before this ISO timestamp */
+  until?: string;
+  kind?: AuditKind;
+  name?: string;
+  session?: string;
+  outcome?: AuditOutcome;
+  /** Substring matched against the target, SQL text and error */
+  contains?: string;
+}
+
+export interface AuditSummaryRow {
+  kind: AuditKind;
+  name: string;
+  calls: number;
+  errors: number;
+  bytes: number;
+  avgMs: number;
+}
+
+/** Longest target / SQL text stored per entry */
+const MAX_TEXT_LENGTH = 4000;
+
+function clip(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH) + "…" : text;
+}
+
+/** Translate a filter into a WHERE clause and its parameters */
+function whereClause(filter: AuditFilter): { sql: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const add = (condition: string, ...values: unknown[]) => {
+    conditions.push(condition);
+    params.push(...values);
+  };
+
+  if (filter.since) add("ts >= ?", filter.since);
+  if (filter.until) add("ts < ?", filter.until);
+  if (filter.kind) add("kind = ?", filter.kind);
+  if (filter.name) add("name = ?", filter.name);
+  if (filter.session) add("session = ?", filter.session);
+  if (filter.outcome) add("outcome = ?", filter.outcome);
+  if (filter.contains) {
+    const pattern = `%${filter.contains.replace(/[\\%_]/g, "\\$&")}%`;
+    add(
+      "(target LIKE ? ESCAPE '\\' OR sql LIKE ? ESCAPE '\\' OR error LIKE ? ESCAPE '\\')",
+      pattern,
+      pattern,
+      pattern,
+    );
+  }
+  return { sql: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+// ─── Log ───────────────────────────────────
+
+export class AuditLog {
+  private db: InstanceType<typeof Database>;
+
+  constructor(dbPath: string) {
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS entries (
+        id          INTEGER PRIMARY KEY,
+        ts          TEXT    NOT NULL,
+        session     TEXT    NOT NULL,
+        client      TEXT    NOT NULL,
+        kind        TEXT    NOT NULL,
+        name        TEXT    NOT NULL,
+        target      TEXT    NOT NULL,
+        sql         TEXT,
+        bytes       INTEGER NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        outcome     TEXT    NOT NULL,
+        error       TEXT
+      );
+      CREATE INDEX IF NOT EXISTS entries_ts ON entries (ts);
+      CREATE INDEX IF NOT EXISTS entries_session ON entries (session, ts);
+    `);
+  }
+
+  record(entry: AuditRecord): void {
+    this.db
+      .prepare(
+        `INSERT INTO entries (ts, session, client, kind, name, target, sql, bytes, duration_ms, outcome, error)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        new Date().toISOString(),
+        entry.session,
+        entry.client,
+        entry.kind,
+        entry.name,
+        clip(entry.target),
+        entry.sql === undefined ? null : clip(entry.sql),
+        entry.bytes,
+        Math.round(entry.durationMs),
+        entry.outcome,
+        entry.error ?? null,
+      );
+  }
+
+  /** Matching entries, newest first, plus the total number that matched */
+  query(filter: AuditFilter, limit: number): { entries: AuditEntry[]; total: number } {
+    const where = whereClause(filter);
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM entries ${where.sql}`)
+      .get(...where.params) as { total: number };
+    const rows = this.db
+      .prepare(
+        `SELECT id, ts, session, client, kind, name, target, sql, bytes, duration_ms AS durationMs, outcome, error
+         FROM entries ${where.sql}
+         ORDER BY id DESC
+         LIMIT ?`,
+      )
+      .all(...where.params, limit) as (Omit<AuditEntry, "sql" | "error"> & { sql: string | null; error: string | null })[];
+
+    const entries = rows.map(({ sql, error, ...rest }) => ({
+      ...rest,
+      ...(sql !== null && { sql }),
+      ...(error !== null && { error }),
+    }));
+    return { entries, total };
+  }
+
+  /** Per-operation call counts, errors, bytes and mean duration */
+  summarize(filter: AuditFilter = {}): AuditSummaryRow[] {
+    const where = whereClause(filter);
+    return this.db
+      .prepare(
+        `SELECT kind, name, COUNT(*) AS calls, SUM(outcome = 'error') AS errors,
+                SUM(bytes) AS bytes, CAST(AVG(duration_ms) AS INTEGER) AS avgMs
+         FROM entries ${where.sql}
+         GROUP BY kind, name
+         ORDER BY calls DESC, name`,
+      )
+      .all(...where.params) as AuditSummaryRow[];
+  }
+
+  /** Timestamp of the most recent successful resource read whose URI starts with `prefix` */
+  lastRead(prefix: string): string | undefined {
+    const pattern = `${prefix.replace(/[\\%_]/g, "\\$&")}%`;
+    const { ts } = this.db
+      .prepare(
+        `SELECT MAX(ts) AS ts FROM entries
+         WHERE kind = 'resource' AND outcome = 'ok' AND target LIKE ? ESCAPE '\\'`,
+      )
+      .get(pattern) as { ts: string | null };
+    return ts ?? undefined;
+  }
+
+  /** Delete entries older than `retentionDays`; returns how many were removed */
+  prune(retentionDays: number): number {
+    const cutoff = new Date(Date.now() - retentionDays * 86_400_000).toISOString();
+    return this.db.prepare("DELETE FROM entries WHERE ts < ?").run(cutoff).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
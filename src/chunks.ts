@@ -0,0 +1,229 @@
+/**
+ * Ranged reads — slice large texts by line range, byte range or
+ * heading-aware chunks of roughly N tokens.
+ *
+ * Chunks start at Markdown headings wherever possible, so a chunk usually
+ * holds whole sections; a section larger than the budget is split between
+ * lines. Token counts are estimates (about four characters per token).
+ */
+
+// ─── Types ─────────────────────────────────
+
+/** Inclusive range; `end` undefined reads to the end */
+export interface Range {
+  start: number;
+  end?: number;
+}
+
+export type RangeRequest =
+  | { kind: "lines"; range: Range }
+  | { kind: "bytes"; range: Range }
+  | { kind: "chunk"; index: number; tokens: number };
+
+export interface Heading {
+  /** 1-based line number */
+  line: number;
+  level: number;
+  title: string;
+}
+
+export interface TextChunk {
+  /** 1-based chunk number */
+  index: number;
+  startLine: number;
+  endLine: number;
+  tokens: number;
+  /** Closest heading at or above the chunk's first line */
+  heading?: string;
+}
+
+export interface TextSlice {
+  text: string;
+  /** Human-readable position, e.g. "lines 10–50 of 1200" */
+  position: string;
+}
+
+/** Query parameters that select part of a resource */
+export const RANGE_PARAMS = ["lines", "bytes", "chunk", "tokens"];
+
+export const DEFAULT_CHUNK_TOKENS = 2000;
+
+/** Rough token estimate for budgeting chunks */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// ─── Parsing ───────────────────────────────
+
+/** Parse "10-50", "10-" or "10" (a single line / byte) */
+export function parseRange(spec: string, label: string): Range {
+  const match = spec.trim().match(/^(\d+)(?:\s*-\s*(\d*))?$/);
+  if (!match) throw new Error(`Invalid ${label} range "${spec}" — use start-end, e.g. 10-50 (or 10- to read to the end)`);
+  const start = Number(match[1]);
+  const end = match[2] === undefined ? start : match[2] === "" ? undefined : Number(match[2]);
+  if (end !== undefined && end < start) throw new Error(`Invalid ${label} range "${spec}" — end is before start`);
+  return { start, end };
+}
+
+/** Read a range request from `lines`, `bytes` or `chunk` (+ `tokens`) parameters; undefined = whole text */
+export function parseRangeParams(params: URLSearchParams): RangeRequest | undefined {
+  const given = ["lines", "bytes", "chunk"].filter((key) => params.has(key));
+  if (given.length > 1) throw new Error(`Use only one of lines, bytes or chunk (got ${given.join(", ")})`);
+
+  const lines = params.get("lines");
+  if (lines !== null) {
+    const range = parseRange(lines, "line");
+    if (range.start < 1) throw new Error("Line numbers start at 1");
+    return { kind: "lines", range };
+  }
+  const bytes = params.get("bytes");
+  if (bytes !== null) return { kind: "bytes", range: parseRange(bytes, "byte") };
+
+  const chunk = params.get("chunk");
+  if (chunk === null) return undefined;
+  const index = Number(chunk);
+  const tokens = Number(params.get("tokens") ?? DEFAULT_CHUNK_TOKENS);
+  if (!Number.isInteger(index) || index < 1) throw new Error(`Invalid chunk "${chunk}" — chunks are numbered from 1`);
+  if (!Number.isInteger(tokens) || tokens < 1) throw new Error(`Invalid tokens "${params.get("tokens")}"`);
+  return { kind: "chunk", index, tokens };
+}
+
+/**
+ * Split range parameters off a raw template variable such as
+ * "docs/spec.md?lines=1-40". Other query parameters stay with the path,
+ * since they may belong to a mounted page's own URL.
+ */
+export function takeRangeParams(raw: string): { rest: string; params: URLSearchParams } {
+  const q = raw.indexOf("?");
+  if (q === -1) return { rest: raw, params: new URLSearchParams() };
+
+  const query = new URLSearchParams(raw.slice(q + 1));
+  const params = new URLSearchParams();
+  for (const key of RANGE_PARAMS) {
+    for (const value of query.getAll(key)) params.append(key, value);
+    query.delete(key);
+  }
+  const remaining = query.toString();
+  return { rest: raw.slice(0, q) + (remaining ? `?${remaining}` : ""), params };
+}
+
+// ─── Outline ───────────────────────────────
+
+const FENCE_PATTERN = /^\s{0,3}(```|~~~)/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/** ATX headings outside fenced code blocks */
+export function findHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  let fence: string | undefined;
+  lines.forEach((line, i) => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      if (fence === undefined) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = undefined;
+      return;
+    }
+    if (fence !== undefined) return;
+    const match = line.match(HEADING_PATTERN);
+    if (match) headings.push({ line: i + 1, level: match[1]!.length, title: match[2]! });
+  });
+  return headings;
+}
+
+/** Split a text into heading-aligned chunks of at most `maxTokens` (single oversized lines excepted) */
+export function chunkText(text: string, maxTokens: number): TextChunk[] {
+  const lines = text.split("\n");
+  const headings = findHeadings(lines);
+  const maxChars = maxTokens * 4;
+
+  // Pieces: whole sections, or runs of lines when a section is over budget
+  const starts = [1, ...headings.map((h) => h.line).filter((l) => l > 1), lines.length + 1];
+  const pieces: { start: number; end: number; chars: number }[] = [];
+  for (let s = 0; s < starts.length - 1; s++) {
+    let piece = { start: starts[s]!, end: starts[s]! - 1, chars: 0 };
+    for (let line = starts[s]!; line < starts[s + 1]!; line++) {
+      const chars = lines[line - 1]!.length + 1;
+      if (piece.chars > 0 && piece.chars + chars > maxChars) {
+        pieces.push(piece);
+        piece = { start: line, end: line - 1, chars: 0 };
+      }
+      piece.end = line;
+      piece.chars += chars;
+    }
+    pieces.push(piece);
+  }
+
+  // Pack consecutive pieces into chunks
+  const chunks: TextChunk[] = [];
+  let current: { start: number; end: number; chars: number } | undefined;
+  const flush = () => {
+    if (!current) return;
+    const heading = headings.filter((h) => h.line <= current!.start).at(-1);
+    chunks.push({
+      index: chunks.length + 1,
+      startLine: current.start,
+      endLine: current.end,
+      tokens: Math.ceil(current.chars / 4),
+      heading: heading?.title,
+    });
+  };
+  for (const piece of pieces) {
+    if (current && current.chars + piece.chars <= maxChars) {
+      current.end = piece.end;
+      current.chars += piece.chars;
+      continue;
+    }
+    flush();
+    current = { ...piece };
+  }
+  flush();
+  return chunks;
+}
+
+// ─── Slicing ───────────────────────────────
+
+/** True for UTF-8 continuation bytes, which never start a character */
+const isContinuation = (byte: number | undefined) => byte !== undefined && (byte & 0xc0) === 0x80;
+
+/** Cut out the requested part of `text`; throws if the range lies outside it */
+export function sliceText(text: string, request: RangeRequest): TextSlice {
+  switch (request.kind) {
+    case "lines": {
+      const lines = text.split("\n");
+      const { start } = request.range;
+      const end = Math.min(request.range.end ?? lines.length, lines.length);
+      if (start > lines.length) throw new Error(`Line ${start} is past the end (${lines.length} lines)`);
+      return {
+        text: lines.slice(start - 1, end).join("\n"),
+        position: `lines ${start}–${end} of ${lines.length}`,
+      };
+    }
+
+    case "bytes": {
+      const buffer = Buffer.from(text, "utf-8");
+      let start = request.range.start;
+      let end = Math.min((request.range.end ?? buffer.length - 1) + 1, buffer.length);
+      if (start >= buffer.length) throw new Error(`Byte ${start} is past the end (${buffer.length} bytes)`);
+      // Widen to whole characters rather than emit broken UTF-8
+      while (start > 0 && isContinuation(buffer[start])) start--;
+      while (end < buffer.length && isContinuation(buffer[end])) end++;
+      return {
+        text: buffer.subarray(start, end).toString("utf-8"),
+        position: `bytes ${start}–${end - 1} of ${buffer.length}`,
+      };
+    }
+
+    case "chunk": {
+      const chunks = chunkText(text, request.tokens);
+      const chunk = chunks[request.index - 1];
+      if (!chunk) throw new Error(`Chunk ${request.index} does not exist (${chunks.length} chunks of ~${request.tokens} tokens)`);
+      const lines = text.split("\n");
+      return {
+        text: lines.slice(chunk.startLine - 1, chunk.endLine).join("\n"),
+        position:
+          `chunk ${chunk.index} of ${chunks.length} (lines ${chunk.startLine}–${chunk.endLine}, ~${chunk.tokens} tokens)` +
+          (chunk.heading ? ` under "${chunk.heading}"` : ""),
+      };
+    }
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * Command-line management — edit the saved mounts without an MCP session.
+ *
+ *   omni-mcp mount <folder>        omni-mcp unmount <path | url>
+ *   omni-mcp mount-url <url>       omni-mcp list
+ *   omni-mcp mount-sqlite <file>   omni-mcp doctor
+ *
+ * Commands go through the same locked read-modify-write as the server, so
+ * they are safe while a server is running; running servers watch the config
+ * file and mount or close whatever changed in their workspace.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs, type ParseArgsConfig } from "node:util";
+import Database from "better-sqlite3";
+import {
+  CONFIG_VERSION,
+  ConfigError,
+  WORKSPACE_NAME_PATTERN,
+  emptyWorkspace,
+  loadConfig,
+  updateConfigFile,
+  type ConfigData,
+  type MountedFolderEntry,
+  type WorkspaceData,
+} from "./config.js";
+import { normalizeExtension } from "./filters.js";
+import { fetchAndConvert } from "./html.js";
+
+export interface CliContext {
+  /** Config file used when neither --config nor OMNI_MCP_CONFIG is given */
+  defaultConfigFile: string;
+}
+
+/** Options every command accepts */
+const COMMON_OPTIONS = {
+  config: { type: "string" },
+  workspace: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} satisfies ParseArgsConfig["options"];
+
+interface Command {
+  usage: string;
+  summary: string;
+  options?: ParseArgsConfig["options"];
+  run: (args: ParsedArgs, ctx: CommandContext) => Promise<number>;
+}
+
+interface ParsedArgs {
+  positionals: string[];
+  values: Record<string, string | boolean | string[] | undefined>;
+}
+
+interface CommandContext {
+  configFile: string;
+  /** Workspace named with --workspace / OMNI_MCP_WORKSPACE; otherwise the config's active one */
+  workspace?: string;
+}
+
+// ─── Helpers ───────────────────────────────
+
+function fail(message: string): number {
+  console.error(`❌ ${message}`);
+  return 1;
+}
+
+/** Apply `change` to the target workspace under the config lock; returns the workspace name */
+async function editWorkspace(ctx: CommandContext, change: (workspace: WorkspaceData) => boolean | void): Promise<string> {
+  let name = ctx.workspace;
+  await updateConfigFile(ctx.configFile, (config) => {
+    name ??= config.activeWorkspace;
+    const workspace = (config.workspaces[name] ??= emptyWorkspace());
+    return change(workspace);
+  });
+  return name!;
+}
+
+/** Load the config for reading, reporting a broken file instead of throwing */
+async function readConfig(ctx: CommandContext): Promise<ConfigData | undefined> {
+  try {
+    return (await loadConfig(ctx.configFile)).config;
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    fail(err.message + (err.backupPath ? `\n   Backed up to ${err.backupPath}.` : ""));
+    return undefined;
+  }
+}
+
+/** Replace the entry whose key matches, or append it */
+function upsert<T>(list: T[], entry: T, same: (e: T) => boolean): "added" | "updated" {
+  const i = list.findIndex(same);
+  if (i === -1) {
+    list.push(entry);
+    return "added";
+  }
+  list[i] = entry;
+  return "updated";
+}
+
+// ─── Commands ──────────────────────────────
+
+const COMMANDS: Record<string, Command> = {
+  mount: {
+    usage:
+      "mount <folder> [--ext .ts]… [--include <glob>]… [--exclude <glob>]… [--max-depth <n>] [--no-ignore-files] [--writable]",
+    summary: "Mount a local folder",
+    options: {
+      ext: { type: "string", multiple: true },
+      include: { type: "string", multiple: true },
+      exclude: { type: "string", multiple: true },
+      "max-depth": { type: "string" },
+      "no-ignore-files": { type: "boolean" },
+      writable: { type: "boolean" },
+    },
+    async run({ positionals, values }, ctx) {
+      if (positionals.length !== 1) return fail("Expected exactly one folder path.");
+      const dir = path.resolve(positionals[0]);
+      const stat = await fs.stat(dir).catch(() => undefined);
+      if (!stat) return fail(`Path "${dir}" does not exist.`);
+      if (!stat.isDirectory()) return fail(`"${dir}" is not a directory.`);
+
+      const entry: MountedFolderEntry = { path: dir };
+      const extensions = values.ext as string[] | undefined;
+      if (extensions?.length) entry.extensions = extensions.map(normalizeExtension);
+      if ((values.include as string[] | undefined)?.length) entry.include = values.include as string[];
+      if ((values.exclude as string[] | undefined)?.length) entry.exclude = values.exclude as string[];
+      if (values["max-depth"] !== undefined) {
+        const depth = Number(values["max-depth"]);
+        if (!Number.isInteger(depth) || depth < 0) return fail(`Invalid --max-depth "${values["max-depth"]}".`);
+        entry.maxDepth = depth;
+      }
+      if (values["no-ignore-files"]) entry.respectIgnoreFiles = false;
+      if (values.writable) entry.writable = true;
+
+      // Remounting changes only the options given, as the mount_folder tool does
+      const hasOptions = Object.keys(entry).length > 1;
+      let result = "";
+      const name = await editWorkspace(ctx, (ws) => {
+        const existing = ws.mountedPaths.find((e) => e.path === dir);
+        result = upsert(ws.mountedPaths, { ...existing, ...entry }, (e) => e.path === dir);
+      });
+      if (result === "updated" && !hasOptions) {
+        console.log(`⚠️  "${dir}" is already mounted in workspace "${name}" — its options are unchanged.`);
+      } else {
+        console.log(`✅ ${result === "added" ? "Mounted" : "Updated options for"} "${dir}" in workspace "${name}".`);
+      }
+      return 0;
+    },
+  },
+
+  "mount-url": {
+    usage: "mount-url <url> [--ttl <minutes>]",
+    summary: "Fetch a web page, convert it to Markdown and mount it",
+    options: { ttl: { type: "string" } },
+    async run({ positionals, values }, ctx) {
+      if (positionals.length !== 1) return fail("Expected exactly one URL.");
+      const url = positionals[0].trim();
+      if (!URL.canParse(url)) return fail(`"${url}" is not a valid URL.`);
+
+      let ttlMinutes: number | undefined;
+      if (values.ttl !== undefined) {
+        ttlMinutes = Number(values.ttl);
+        if (!Number.isInteger(ttlMinutes) || ttlMinutes < 0) return fail(`Invalid --ttl "${values.ttl}".`);
+        ttlMinutes ||= undefined;
+      }
+
+      let fetched;
+      try {
+        fetched = (await fetchAndConvert(url))!;
+      } catch (err) {
+        return fail(`Failed to fetch "${url}": ${err instanceof Error ? err.message : String(err)}`);
+      }
+      const now = new Date().toISOString();
+
+      const name = await editWorkspace(ctx, (ws) => {
+        upsert(ws.mountedUrls, { url, ...fetched, fetchedAt: now, checkedAt: now, ttlMinutes }, (e) => e.url === url);
+      });
+      console.log(`✅ Mounted "${fetched.title}" (${url}) in workspace "${name}" — ${fetched.content.length} characters.`);
+      return 0;
+    },
+  },
+
+  "mount-sqlite": {
+    usage: "mount-sqlite <file>",
+    summary: "Mount a SQLite database (read-only)",
+    async run({ positionals }, ctx) {
+      if (positionals.length !== 1) return fail("Expected exactly one database file.");
+      const dbPath = path.resolve(positionals[0]);
+      const stat = await fs.stat(dbPath).catch(() => undefined);
+      if (!stat) return fail(`File "${dbPath}" does not exist.`);
+      if (!stat.isFile()) return fail(`"${dbPath}" is not a file.`);
+
+      let tables: number;
+      try {
+        const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+        try {
+          tables = (db.prepare("SELECT COUNT(*) AS n FROM sqlite_master WHERE type = 'table'").get() as { n: number }).n;
+        } finally {
+          db.close();
+        }
+      } catch (err) {
+        return fail(`Failed to open database: ${err instanceof Error ? err.message : String(err)}`);
+      }
+
+      let added = false;
+      const name = await editWorkspace(ctx, (ws) => {
+        if (ws.mountedDatabases.includes(dbPath)) return false;
+        ws.mountedDatabases.push(dbPath);
+        added = true;
+      });
+      console.log(
+        added
+          ? `✅ Mounted "${dbPath}" (${tables} table(s)) in workspace "${name}".`
+          : `⚠️  "${dbPath}" is already mounted in workspace "${name}".`,
+      );
+      return 0;
+    },
+  },
+
+  unmount: {
+    usage: "unmount <folder | url | database | dataset>",
+    summary: "Unmount a folder, web page, site, database or dataset",
+    async run({ positionals }, ctx) {
+      if (positionals.length !== 1) return fail("Expected exactly one path or URL.");
+      const target = positionals[0].trim();
+      const resolved = URL.canParse(target) && /^https?:/i.test(target) ? target : path.resolve(target);
+
+      const removed: string[] = [];
+      const name = await editWorkspace(ctx, (ws) => {
+        const before = removed.length;
+        const drop = <T>(list: T[], match: (e: T) => boolean, label: string) => {
+          const kept = list.filter((e) => !match(e));
+          if (kept.length !== list.length) removed.push(`${label} (${list.length - kept.length})`);
+          list.splice(0, list.length, ...kept);
+        };
+        drop(ws.mountedPaths, (e) => e.path === resolved, "folder");
+        drop(ws.mountedSites, (e) => e.url === resolved, "site");
+        // A site's pages go with it
+        drop(ws.mountedUrls, (e) => e.url === resolved || e.site === resolved, "web page");
+        drop(ws.mountedDatabases, (e) => e === resolved, "database");
+        drop(ws.mountedDatasets, (e) => e.path === resolved, "dataset");
+        return removed.length > before;
+      });
+
+      if (removed.length === 0) {
+        console.log(`ℹ️  "${resolved}" is not mounted in workspace "${name}".`);
+        return 0;
+      }
+      console.log(`✅ Unmounted "${resolved}" from workspace "${name}": ${removed.join(", ")}.`);
+      return 0;
+    },
+  },
+
+  list: {
+    usage: "list [--json]",
+    summary: "List the mounts of a workspace",
+    options: { json: { type: "boolean" } },
+    async run({ values }, ctx) {
+      const config = await readConfig(ctx);
+      if (!config) return 1;
+      const name = ctx.workspace ?? config.activeWorkspace;
+      const ws = config.workspaces[name] ?? emptyWorkspace();
+
+      if (values.json) {
+        console.log(JSON.stringify({ workspace: name, ...ws, mountedUrls: ws.mountedUrls.map(({ content: _c, ...rest }) => rest) }, null, 2));
+        return 0;
+      }
+
+      const others = Object.keys(config.workspaces).filter((w) => w !== name);
+      const lines = [`🗂️  Workspace "${name}"${others.length ? `  (others: ${others.join(", ")})` : ""}`];
+      const section = (title: string, items: string[]) => {
+        if (items.length === 0) return;
+        lines.push("", title, ...items.map((i) => `   • ${i}`));
+      };
+      section("📂 Folders:", ws.mountedPaths.map((f) => (f.writable ? `${f.path}  ✏️ writable` : f.path)));
+      section(
+        "🌐 Web Pages:",
+        ws.mountedUrls.filter((u) => !u.site).map((u) => `${u.title}  →  ${u.url}${u.stale ? "  ⚠️ stale" : ""}`),
+      );
+      section(
+        "📚 Sites:",
+        ws.mountedSites.map((s) => `${s.url}  (${ws.mountedUrls.filter((u) => u.site === s.url).length} page(s))`),
+      );
+      section("🗄️  Databases:", ws.mountedDatabases);
+      section("📊 Datasets:", ws.mountedDatasets.map((d) => `${d.path}  → table "${d.table}"`));
+      if (lines.length === 1) lines.push("", "(nothing mounted)");
+
+      console.log(lines.join("\n"));
+      return 0;
+    },
+  },
+
+  doctor: {
+    usage: "doctor",
+    summary: "Check the config and every mounted source",
+    async run(_args, ctx) {
+      let problems = 0;
+      let warnings = 0;
+      const ok = (msg: string) => console.log(`✅ ${msg}`);
+      const warn = (msg: string) => {
+        warnings++;
+        console.log(`⚠️  ${msg}`);
+      };
+      const bad = (msg: string) => {
+        problems++;
+        console.log(`❌ ${msg}`);
+      };
+
+      const [major] = process.versions.node.split(".").map(Number);
+      if (major >= 18) ok(`Node.js ${process.versions.node}`);
+      else bad(`Node.js ${process.versions.node} — 18 or newer is required`);
+
+      try {
+        new Database(":memory:").close();
+        ok("better-sqlite3 native module loads");
+      } catch (err) {
+        bad(`better-sqlite3 failed to load: ${err instanceof Error ? err.message : String(err)}`);
+      }
+
+      let loaded: Awaited<ReturnType<typeof loadConfig>>;
+      try {
+        loaded = await loadConfig(ctx.configFile);
+      } catch (err) {
+        bad(
+          `Config ${ctx.configFile}: ${err instanceof Error ? err.message : String(err)}` +
+            (err instanceof ConfigError && err.backupPath ? `\n   Backed up to ${err.backupPath}.` : ""),
+        );
+        console.log(`\n${problems} problem(s), ${warnings} warning(s).`);
+        return 1;
+      }
+      const exists = await fs.stat(ctx.configFile).then(() => true, () => false);
+      ok(
+        exists
+          ? `Config ${ctx.configFile} (version ${CONFIG_VERSION}${loaded.migratedFrom ? `, will be migrated from ${loaded.migratedFrom}` : ""})`
+          : `No config at ${ctx.configFile} yet — it is created on the first mount`,
+      );
+
+      const lockStat = await fs.stat(`${ctx.configFile}.lock`).catch(() => undefined);
+      if (lockStat) warn(`Lock file ${ctx.configFile}.lock exists (since ${lockStat.mtime.toISOString()})`);
+
+      for (const [name, ws] of Object.entries(loaded.config.workspaces)) {
+        console.log(`\n🗂️  Workspace "${name}"${name === loaded.config.activeWorkspace ? " (active)" : ""}`);
+        for (const { path: dir } of ws.mountedPaths) {
+          const stat = await fs.stat(dir).catch(() => undefined);
+          if (!stat) bad(`Folder ${dir} does not exist`);
+          else if (!stat.isDirectory()) bad(`Folder ${dir} is not a directory`);
+          else ok(`Folder ${dir}`);
+        }
+        for (const dbPath of ws.mountedDatabases) {
+          try {
+            const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+            try {
+              const [{ integrity_check: integrity }] = db.pragma("quick_check(1)") as { integrity_check: string }[];
+              if (integrity === "ok") ok(`Database ${dbPath}`);
+              else bad(`Database ${dbPath}: ${integrity}`);
+            } finally {
+              db.close();
+            }
+          } catch (err) {
+            bad(`Database ${dbPath}: ${err instanceof Error ? err.message : String(err)}`);
+          }
+        }
+        for (const { path: src } of ws.mountedDatasets) {
+          const stat = await fs.stat(src).catch(() => undefined);
+          if (stat?.isFile()) ok(`Dataset ${src}`);
+          else bad(`Dataset ${src} does not exist`);
+        }
+        for (const entry of ws.mountedUrls) {
+          if (entry.stale) warn(`Web page ${entry.url} is stale: ${entry.lastError ?? "last refresh failed"}`);
+        }
+        const fresh = ws.mountedUrls.filter((u) => !u.stale).length;
+        if (fresh > 0) ok(`${fresh} cached web page(s)`);
+      }
+
+      console.log(`\n${problems} problem(s), ${warnings} warning(s).`);
+      return problems > 0 ? 1 : 0;
+    },
+  },
+};
+
+function printHelp(): void {
+  const width = Math.max(...Object.values(COMMANDS).map((c) => c.usage.split(" ")[0].length));
+  console.log(
+    [
+      "Usage: omni-mcp [--transport stdio|http] [--config <file>] [--workspace <name>] …   Start the MCP server",
+      "       omni-mcp <command> [--config <file>] [--workspace <name>]                   Manage mounts",
+      "",
+      "Commands:",
+      ...Object.values(COMMANDS).map((c) => `  ${c.usage.split(" ")[0].padEnd(width)}  ${c.summary}`),
+      "",
+      "Run `omni-mcp <command> --help` for a command's options.",
+    ].join("\n"),
+  );
+}
+
+/** True if `arg` names a management command rather than a server flag */
+export function isCliCommand(arg: string | undefined): boolean {
+  return arg !== undefined && (arg === "help" || Object.hasOwn(COMMANDS, arg));
+}
+
+/** Run a management command; resolves to the process exit code */
+export async function runCli(argv: string[], ctx: CliContext): Promise<number> {
+  const [commandName, ...rest] = argv;
+  if (commandName === "help") {
+    printHelp();
+    return 0;
+  }
+  const command = COMMANDS[commandName];
+
+  let parsed: ParsedArgs;
+  try {
+    parsed = parseArgs({
+      args: rest,
+      options: { ...COMMON_OPTIONS, ...command.options },
+      allowPositionals: true,
+    }) as ParsedArgs;
+  } catch (err) {
+    return fail(`${err instanceof Error ? err.message : String(err)}\n   Usage: omni-mcp ${command.usage}`);
+  }
+
+  if (parsed.values.help) {
+    console.log(`Usage: omni-mcp ${command.usage}\n\n${command.summary}.`);
+    return 0;
+  }
+
+  const workspace = (parsed.values.workspace as string | undefined) ?? process.env.OMNI_MCP_WORKSPACE;
+  if (workspace !== undefined && !WORKSPACE_NAME_PATTERN.test(workspace)) {
+    return fail(`Invalid workspace name "${workspace}".`);
+  }
+  const configFile = path.resolve(
+    (parsed.values.config as string | undefined) ?? process.env.OMNI_MCP_CONFIG ?? ctx.defaultConfigFile,
+  );
+
+  try {
+    return await command.run(parsed, { configFile, workspace });
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+}
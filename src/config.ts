@@ -0,0 +1,378 @@
+/**
+ * Config file — the persisted mount registry.
+ *
+ * The file carries a format version. Older formats are migrated step by step
+ * on load, and the result is validated with zod before any mount is restored.
+ * Writes go to a temporary file that is renamed over the original, so a crash
+ * mid-write never leaves a truncated config behind. A file that cannot be
+ * parsed or validated is copied aside before anything overwrites it.
+ *
+ * Several processes may share one file — servers in different workspaces and
+ * the CLI. Updates re-read the file under a lock file and change only what
+ * they own, and a server merges its workspace with edits made by others.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+
+/** Format written by this version of the server */
+export const CONFIG_VERSION = 3;
+
+/** Workspace used when none has been chosen */
+export const DEFAULT_WORKSPACE = "default";
+
+/** Workspace names are kept simple so they work as CLI arguments */
+export const WORKSPACE_NAME_PATTERN = /^[A-Za-z0-9][\w.-]{0,63}$/;
+
+// ─── Schema ────────────────────────────────
+
+const folderEntrySchema = z.object({
+  path: z.string(),
+  extensions: z.array(z.string()).optional(),
+  include: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).optional(),
+  maxDepth: z.number().int().min(0).optional(),
+  respectIgnoreFiles: z.boolean().optional(),
+  writable: z.boolean().optional(),
+});
+
+const urlEntrySchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  content: z.string(), // Cached Markdown
+  fetchedAt: z.string(), // ISO timestamp of the last time content was downloaded
+  ttlMinutes: z.number().positive().optional(), // Auto re-fetch interval; unset = manual refresh only
+  etag: z.string().optional(), // Validators sent back on conditional re-fetches
+  lastModified: z.string().optional(),
+  checkedAt: z.string().optional(), // ISO timestamp of the last refresh attempt
+  stale: z.boolean().optional(), // Last refresh failed — cached content may be out of date
+  lastError: z.string().optional(),
+  site: z.string().optional(), // Start URL of the mounted site this page was crawled from
+  author: z.string().optional(),
+  publishedAt: z.string().optional(),
+  canonicalUrl: z.string().optional(),
+  language: z.string().optional(),
+});
+
+const siteEntrySchema = z.object({
+  url: z.string(),
+  maxDepth: z.number().int().min(0),
+  maxPages: z.number().int().min(1),
+  useSitemap: z.boolean(),
+  crawledAt: z.string(),
+});
+
+const datasetEntrySchema = z.object({
+  path: z.string(),
+  table: z.string(),
+});
+
+const workspaceSchema = z.object({
+  mountedPaths: z.array(folderEntrySchema),
+  mountedUrls: z.array(urlEntrySchema),
+  mountedDatabases: z.array(z.string()),
+  mountedSites: z.array(siteEntrySchema),
+  mountedDatasets: z.array(datasetEntrySchema),
+});
+
+const configSchema = z.object({
+  version: z.literal(CONFIG_VERSION),
+  /** Workspace a server starts in when not told otherwise — the last one switched to */
+  activeWorkspace: z.string().regex(WORKSPACE_NAME_PATTERN),
+  workspaces: z.record(z.string().regex(WORKSPACE_NAME_PATTERN), workspaceSchema),
+});
+
+/** A mounted folder together with its filter options */
+export type MountedFolderEntry = z.infer<typeof folderEntrySchema>;
+
+/** A mounted web page and its cached Markdown */
+export type MountedUrlEntry = z.infer<typeof urlEntrySchema>;
+
+/** A crawled documentation site; its pages are stored as URL entries */
+export type MountedSiteEntry = z.infer<typeof siteEntrySchema>;
+
+/** A data file loaded into a SQLite table */
+export type MountedDatasetEntry = z.infer<typeof datasetEntrySchema>;
+
+/** One named set of mounts */
+export type WorkspaceData = z.infer<typeof workspaceSchema>;
+
+export type ConfigData = z.infer<typeof configSchema>;
+
+export function emptyWorkspace(): WorkspaceData {
+  return {
+    mountedPaths: [],
+    mountedUrls: [],
+    mountedDatabases: [],
+    mountedSites: [],
+    mountedDatasets: [],
+  };
+}
+
+export function emptyConfig(): ConfigData {
+  return {
+    version: CONFIG_VERSION,
+    activeWorkspace: DEFAULT_WORKSPACE,
+    workspaces: { [DEFAULT_WORKSPACE]: emptyWorkspace() },
+  };
+}
+
+// ─── Migrations ────────────────────────────
+
+type RawConfig = Record<string, unknown>;
+
+/** MIGRATIONS[n] upgrades a version-n document to version n + 1 */
+const MIGRATIONS: Record<number, (data: RawConfig) => RawConfig> = {
+  // v1 — no version field; folders could be bare strings; sites and datasets were optional
+  1: (data) => ({
+    ...data,
+    version: 2,
+    mountedPaths: Array.isArray(data.mountedPaths)
+      ? data.mountedPaths.map((p: unknown) => (typeof p === "string" ? { path: p } : p))
+      : [],
+    mountedUrls: data.mountedUrls ?? [],
+    mountedDatabases: data.mountedDatabases ?? [],
+    mountedSites: data.mountedSites ?? [],
+    mountedDatasets: data.mountedDatasets ?? [],
+  }),
+  // v2 — a single, unnamed set of mounts; it becomes the default workspace
+  2: ({ version: _version, ...mounts }) => ({
+    version: 3,
+    activeWorkspace: DEFAULT_WORKSPACE,
+    workspaces: { [DEFAULT_WORKSPACE]: mounts },
+  }),
+};
+
+// ─── Errors ────────────────────────────────
+
+/** The config file exists but cannot be used as-is */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    /** Where the unusable file was copied to, if it was */
+    readonly backupPath?: string,
+  ) {
+    super(message);
+  }
+}
+
+/** Summarize the first few validation issues as "path: message" lines */
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map((issue) => `  • ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
+
+/** Copy an unusable config next to itself so the next save cannot destroy it */
+async function backUp(file: string): Promise<string> {
+  const backupPath = `${file}.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+  await fs.copyFile(file, backupPath);
+  return backupPath;
+}
+
+// ─── Load / Save ───────────────────────────
+
+/**
+ * Read, migrate and validate the config at `file`. A missing file yields an
+ * empty config. A file that is not valid JSON or fails validation is backed up
+ * and reported with a ConfigError; so is one written by a newer server, which
+ * is left untouched rather than downgraded.
+ */
+export async function loadConfig(file: string): Promise<{ config: ConfigData; migratedFrom?: number }> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { config: emptyConfig() };
+    throw err;
+  }
+
+  let data: RawConfig;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("top level is not an object");
+    }
+    data = parsed as RawConfig;
+  } catch (err) {
+    const backupPath = await backUp(file);
+    throw new ConfigError(`${file} is not valid JSON (${err instanceof Error ? err.message : String(err)}).`, backupPath);
+  }
+
+  const initialVersion = data.version === undefined ? 1 : data.version;
+  if (typeof initialVersion !== "number" || !Number.isInteger(initialVersion) || initialVersion < 1) {
+    const backupPath = await backUp(file);
+    throw new ConfigError(`${file} has an invalid version field (${JSON.stringify(data.version)}).`, backupPath);
+  }
+  if (initialVersion > CONFIG_VERSION) {
+    throw new ConfigError(
+      `${file} was written by a newer Omni-MCP (config version ${initialVersion}, this build understands up to ${CONFIG_VERSION}).`,
+    );
+  }
+
+  for (let version = initialVersion; version < CONFIG_VERSION; version++) {
+    data = MIGRATIONS[version](data);
+  }
+
+  const result = configSchema.safeParse(data);
+  if (!result.success) {
+    const backupPath = await backUp(file);
+    throw new ConfigError(`${file} failed validation:\n${describeIssues(result.error)}`, backupPath);
+  }
+
+  return {
+    config: result.data,
+    ...(initialVersion < CONFIG_VERSION && { migratedFrom: initialVersion }),
+  };
+}
+
+/** Write `config` to `file` atomically: temp file in the same folder, then rename */
+export async function saveConfigFile(file: string, config: ConfigData): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmpPath = `${file}.${process.pid}.tmp`;
+  try {
+    await fs.writeFile(tmpPath, JSON.stringify(config, null, 2) + "\n", "utf-8");
+    await fs.rename(tmpPath, file);
+  } catch (err) {
+    await fs.rm(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+// ─── Shared updates ────────────────────────
+
+/** A lock older than this is assumed to belong to a crashed process */
+const LOCK_STALE_MS = 10_000;
+
+/** Give up waiting for another process's lock after this long */
+const LOCK_TIMEOUT_MS = 5_000;
+
+/** Run `fn` while holding `<file>.lock`, created exclusively so only one process holds it */
+async function withLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = `${file}.lock`;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, String(process.pid), { flag: "wx" });
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      const stat = await fs.stat(lockPath).catch(() => undefined);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${lockPath} — delete it if no other Omni-MCP process is running.`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 25 + Math.random() * 50));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+/**
+ * Locked read-modify-write of the config at `file`. `change` edits the
+ * freshly loaded config in place and may return false to skip the write.
+ * A file that became corrupt is backed up and replaced, with a loud error.
+ */
+export async function updateConfigFile(file: string, change: (config: ConfigData) => boolean | void): Promise<void> {
+  await withLock(file, async () => {
+    let config: ConfigData;
+    try {
+      ({ config } = await loadConfig(file));
+    } catch (err) {
+      if (!(err instanceof ConfigError) || !err.backupPath) throw err;
+      console.error(`❌ ${err.message}\n   Backed up to ${err.backupPath}; writing a fresh config.`);
+      config = emptyConfig();
+    }
+    if (change(config) === false) return;
+    await saveConfigFile(file, config);
+  });
+}
+
+// ─── Merging ───────────────────────────────
+
+/** JSON with object keys sorted, so equal entries compare equal whatever order they were built in */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v !== null && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v,
+  );
+}
+
+/** The key every workspace list is indexed by */
+const WORKSPACE_KEYS: { [K in keyof WorkspaceData]: (entry: WorkspaceData[K][number]) => string } = {
+  mountedPaths: (e) => e.path,
+  mountedUrls: (e) => e.url,
+  mountedDatabases: (e) => e,
+  mountedSites: (e) => e.url,
+  mountedDatasets: (e) => e.path,
+};
+
+function mergeEntries<T>(base: T[], ours: T[], theirs: T[], key: (entry: T) => string): T[] {
+  const index = (list: T[]) => new Map(list.map((entry) => [key(entry), entry]));
+  const [b, o, t] = [index(base), index(ours), index(theirs)];
+
+  const merged: T[] = [];
+  for (const k of new Set([...o.keys(), ...t.keys(), ...b.keys()])) {
+    // Entries we did not touch since the last sync take their version; anything we changed wins
+    const untouched = canonicalJson(o.get(k)) === canonicalJson(b.get(k));
+    const entry = untouched ? t.get(k) : o.get(k);
+    if (entry !== undefined) merged.push(entry);
+  }
+  return merged;
+}
+
+/**
+ * Three-way merge of a workspace: `base` is what this process last read or
+ * wrote, `ours` its current state, `theirs` what is on disk now.
+ */
+export function mergeWorkspaces(base: WorkspaceData, ours: WorkspaceData, theirs: WorkspaceData): WorkspaceData {
+  const merge = <K extends keyof WorkspaceData>(k: K) =>
+    mergeEntries(base[k], ours[k], theirs[k], WORKSPACE_KEYS[k] as (entry: WorkspaceData[K][number]) => string);
+  return {
+    mountedPaths: merge("mountedPaths"),
+    mountedUrls: merge("mountedUrls"),
+    mountedDatabases: merge("mountedDatabases"),
+    mountedSites: merge("mountedSites"),
+    mountedDatasets: merge("mountedDatasets"),
+  } as WorkspaceData;
+}
+
+/** Per list: keys present before but not after, and entries that are new or differ */
+export type WorkspaceDiff = { [K in keyof WorkspaceData]: { removed: string[]; upserted: WorkspaceData[K] } };
+
+export function diffWorkspaces(before: WorkspaceData, after: WorkspaceData): WorkspaceDiff {
+  const diff = <K extends keyof WorkspaceData>(k: K) => {
+    const key = WORKSPACE_KEYS[k] as (entry: WorkspaceData[K][number]) => string;
+    const previous = new Map((before[k] as WorkspaceData[K][number][]).map((e) => [key(e), canonicalJson(e)]));
+    const next = new Set((after[k] as WorkspaceData[K][number][]).map(key));
+    return {
+      removed: [...previous.keys()].filter((id) => !next.has(id)),
+      upserted: (after[k] as WorkspaceData[K][number][]).filter((e) => previous.get(key(e)) !== canonicalJson(e)),
+    };
+  };
+  return {
+    mountedPaths: diff("mountedPaths"),
+    mountedUrls: diff("mountedUrls"),
+    mountedDatabases: diff("mountedDatabases"),
+    mountedSites: diff("mountedSites"),
+    mountedDatasets: diff("mountedDatasets"),
+  } as WorkspaceDiff;
+}
+
+/** True if the two workspaces hold the same mounts, in any order */
+export function sameWorkspace(a: WorkspaceData, b: WorkspaceData): boolean {
+  return Object.values(diffWorkspaces(a, b)).every(({ removed, upserted }) => removed.length === 0 && upserted.length === 0);
+}
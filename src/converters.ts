@@ -0,0 +1,198 @@
+/**
+ * Document converters — turn non-text files in mounted folders into Markdown.
+ *
+ * Plays the same role for local files that turndown plays for mounted URLs:
+ * each converter claims a set of extensions and produces Markdown the agent
+ * can read. Heavy parsers (PDF, DOCX) are imported lazily so they cost
+ * nothing until a matching file is actually read.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { htmlToMarkdown, turndown } from "./html.js";
+
+export interface Converter {
+  /** Human-readable name of the source format, e.g. "PDF" */
+  format: string;
+  extensions: string[];
+  convert: (data: Buffer, filePath: string) => Promise<string>;
+}
+
+// ─── Delimited text ────────────────────────
+
+/** Parse CSV/TSV text (RFC 4180 quoting) into rows of raw cell strings */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c !== ""));
+}
+
+/** Maximum number of data rows rendered for a CSV file */
+const CSV_MAX_ROWS = 1000;
+
+/** Escape a value for use inside a Markdown table cell */
+export function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function csvToMarkdown(text: string, delimiter: string): string {
+  const rows = parseDelimited(text.replace(/^\uFEFF/, ""), delimiter);
+  if (rows.length === 0) return "_Empty file._";
+
+  const [header, ...body] = rows;
+  const width = Math.max(...rows.map((r) => r.length));
+  const pad = (r: string[]) => Array.from({ length: width }, (_, i) => escapeCell(r[i] ?? ""));
+
+  const lines = [
+    `| ${pad(header).join(" | ")} |`,
+    `| ${Array(width).fill("---").join(" | ")} |`,
+    ...body.slice(0, CSV_MAX_ROWS).map((r) => `| ${pad(r).join(" | ")} |`),
+  ];
+  if (body.length > CSV_MAX_ROWS) {
+    lines.push("", `_Showing ${CSV_MAX_ROWS} of ${body.length} rows._`);
+  }
+  return lines.join("\n");
+}
+
+// ─── Jupyter notebooks ─────────────────────
+
+interface NotebookOutput {
+  output_type: string;
+  text?: string | string[];
+  data?: Record<string, string | string[]>;
+  ename?: string;
+  evalue?: string;
+}
+
+interface NotebookCell {
+  cell_type: "markdown" | "code" | "raw";
+  source: string | string[];
+  outputs?: NotebookOutput[];
+}
+
+interface Notebook {
+  cells?: NotebookCell[];
+  metadata?: { language_info?: { name?: string }; kernelspec?: { language?: string } };
+}
+
+const joinSource = (s: string | string[] | undefined) => (Array.isArray(s) ? s.join("") : s ?? "");
+
+function notebookToMarkdown(text: string): string {
+  const nb = JSON.parse(text) as Notebook;
+  const lang = nb.metadata?.language_info?.name ?? nb.metadata?.kernelspec?.language ?? "";
+  const parts: string[] = [];
+
+  for (const cell of nb.cells ?? []) {
+    const source = joinSource(cell.source).trimEnd();
+    if (cell.cell_type === "markdown") {
+      parts.push(source);
+      continue;
+    }
+    parts.push("```" + (cell.cell_type === "code" ? lang : "") + "\n" + source + "\n```");
+
+    for (const out of cell.outputs ?? []) {
+      let body = "";
+      if (out.output_type === "stream") body = joinSource(out.text);
+      else if (out.output_type === "error") body = `${out.ename}: ${out.evalue}`;
+      else if (out.data?.["text/markdown"]) body = joinSource(out.data["text/markdown"]);
+      else if (out.data?.["text/plain"]) body = joinSource(out.data["text/plain"]);
+      if (body.trim()) parts.push("Output:\n\n```\n" + body.trimEnd() + "\n```");
+    }
+  }
+  return parts.join("\n\n");
+}
+
+// ─── Registry ──────────────────────────────
+
+const converters: Converter[] = [
+  {
+    format: "HTML",
+    extensions: [".html", ".htm"],
+    convert: async (data) => {
+      const { title, content } = htmlToMarkdown(data.toString("utf-8"));
+      return title ? `# ${title}\n\n${content}` : content;
+    },
+  },
+  {
+    format: "PDF",
+    extensions: [".pdf"],
+    convert: async (data) => {
+      const { extractText } = await import("unpdf");
+      const { totalPages, text } = await extractText(new Uint8Array(data), { mergePages: false });
+      return text.map((page, i) => `<!-- Page ${i + 1} of ${totalPages} -->\n\n${page.trim()}`).join("\n\n");
+    },
+  },
+  {
+    format: "Word document",
+    extensions: [".docx"],
+    convert: async (data) => {
+      const { default: mammoth } = await import("mammoth");
+      const { value } = await mammoth.convertToHtml({ buffer: data });
+      return turndown.turndown(value);
+    },
+  },
+  {
+    format: "CSV",
+    extensions: [".csv"],
+    convert: async (data) => csvToMarkdown(data.toString("utf-8"), ","),
+  },
+  {
+    format: "TSV",
+    extensions: [".tsv"],
+    convert: async (data) => csvToMarkdown(data.toString("utf-8"), "\t"),
+  },
+  {
+    format: "Jupyter notebook",
+    extensions: [".ipynb"],
+    convert: async (data) => notebookToMarkdown(data.toString("utf-8")),
+  },
+];
+
+/** Every extension some converter can handle */
+export const CONVERTIBLE_EXTENSIONS = converters.flatMap((c) => c.extensions);
+
+/** The converter responsible for `filePath`, if any */
+export function findConverter(filePath: string): Converter | undefined {
+  const ext = path.extname(filePath).toLowerCase();
+  return converters.find((c) => c.extensions.includes(ext));
+}
+
+/** Read a file as text, converting it to Markdown first when a converter claims it */
+export async function readAsText(filePath: string): Promise<string> {
+  const converter = findConverter(filePath);
+  if (!converter) return fs.readFile(filePath, "utf-8");
+  return converter.convert(await fs.readFile(filePath), filePath);
+}
@@ -0,0 +1,274 @@
+/**
+ * Site crawler — walks a documentation site breadth-first from a start URL,
+ * following same-origin links up to a depth and page cap.
+ *
+ * Honours robots.txt (Allow / Disallow / Crawl-delay for our user agent or
+ * `*`) and can seed the queue from the site's sitemap.xml. Pages are handed
+ * back as raw HTML; converting them is the caller's job.
+ */
+
+export interface CrawlOptions {
+  startUrl: string;
+  maxDepth: number;
+  maxPages: number;
+  useSitemap: boolean;
+  userAgent: string;
+  /** Time limit for each request, body included */
+  timeoutMs: number;
+  /** Called once per successfully fetched HTML page, in crawl order */
+  onPage: (page: CrawledPage) => void | Promise<void>;
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  html: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface CrawlSummary {
+  pages: number;
+  blockedByRobots: number;
+  failed: { url: string; error: string }[];
+  /** True if the page cap stopped the crawl before the queue ran dry */
+  truncated: boolean;
+}
+
+/** Upper bound on the delay we honour from a Crawl-delay directive */
+const MAX_CRAWL_DELAY_MS = 5000;
+
+/** Extensions that are never HTML pages — skip them without fetching */
+const NON_PAGE_EXTENSIONS =
+  /\.(png|jpe?g|gif|svg|webp|ico|pdf|zip|gz|tgz|tar|mp4|mp3|woff2?|ttf|eot|css|js|json|xml|txt)$/i;
+
+// ─── robots.txt ────────────────────────────
+
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs: number;
+  sitemaps: string[];
+}
+
+/**
+ * Parse robots.txt and keep the group that applies to `agentToken`
+ * (falling back to `*`).
+ */
+export function parseRobots(text: string, agentToken: string): RobotsRules {
+  type Group = { agents: string[]; allow: string[]; disallow: string[]; delay?: number };
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const idx = line.indexOf(":");
+    if (idx === -1) continue;
+    const key = line.slice(0, idx).trim().toLowerCase();
+    const value = line.slice(idx + 1).trim();
+
+    if (key === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], allow: [], disallow: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+
+    if (key === "sitemap") sitemaps.push(value);
+    else if (!current) continue;
+    else if (key === "allow" && value) current.allow.push(value);
+    else if (key === "disallow" && value) current.disallow.push(value);
+    else if (key === "crawl-delay" && !Number.isNaN(Number(value))) current.delay = Number(value);
+  }
+
+  const token = agentToken.toLowerCase();
+  const group =
+    groups.find((g) => g.agents.some((a) => a !== "*" && token.includes(a))) ??
+    groups.find((g) => g.agents.includes("*"));
+
+  return {
+    allow: group?.allow ?? [],
+    disallow: group?.disallow ?? [],
+    crawlDelayMs: Math.min((group?.delay ?? 0) * 1000, MAX_CRAWL_DELAY_MS),
+    sitemaps,
+  };
+}
+
+/** Convert a robots.txt path pattern (with * and $) to a RegExp */
+function robotsPattern(rule: string): RegExp {
+  const anchored = rule.endsWith("$");
+  const body = (anchored ? rule.slice(0, -1) : rule)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp("^" + body + (anchored ? "$" : ""));
+}
+
+/** Longest matching rule wins; Allow wins ties */
+export function isAllowedByRobots(rules: RobotsRules, url: URL): boolean {
+  const target = url.pathname + url.search;
+  let best = { length: -1, allow: true };
+  for (const rule of rules.allow) {
+    if (robotsPattern(rule).test(target) && rule.length >= best.length) best = { length: rule.length, allow: true };
+  }
+  for (const rule of rules.disallow) {
+    if (robotsPattern(rule).test(target) && rule.length > best.length) best = { length: rule.length, allow: false };
+  }
+  return best.allow;
+}
+
+// ─── Link extraction ───────────────────────
+
+/** Normalize a URL for de-duplication: drop the fragment */
+function normalizeUrl(url: URL): string {
+  const copy = new URL(url.href);
+  copy.hash = "";
+  return copy.href;
+}
+
+/** Pull every href out of an HTML page, resolved against the page URL */
+export function extractLinks(html: string, pageUrl: string): URL[] {
+  const base = html.match(/<base\s[^>]*href\s*=\s*["']([^"']+)["']/i)?.[1];
+  const baseUrl = base ? new URL(base, pageUrl).href : pageUrl;
+
+  const links: URL[] = [];
+  for (const match of html.matchAll(/<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+    const href = (match[1] ?? match[2] ?? match[3] ?? "").trim();
+    if (!href || href.startsWith("#") || /^(mailto|javascript|tel):/i.test(href)) continue;
+    try {
+      links.push(new URL(href.replace(/&amp;/g, "&"), baseUrl));
+    } catch {
+      // Malformed href — ignore
+    }
+  }
+  return links;
+}
+
+/** Extract <loc> entries from a sitemap or sitemap index */
+function extractSitemapLocs(xml: string): string[] {
+  return [...xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi)].map((m) => m[1].replace(/&amp;/g, "&"));
+}
+
+// ─── Crawl ─────────────────────────────────
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function crawlSite(options: CrawlOptions): Promise<CrawlSummary> {
+  const start = new URL(options.startUrl);
+  const origin = start.origin;
+  const headers = { "User-Agent": options.userAgent };
+
+  const fetchText = async (url: string): Promise<string | null> => {
+    try {
+      const res = await fetch(url, { headers, signal: AbortSignal.timeout(options.timeoutMs) });
+      return res.ok ? await res.text() : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const robotsText = await fetchText(`${origin}/robots.txt`);
+  const robots = parseRobots(robotsText ?? "", options.userAgent);
+
+  const summary: CrawlSummary = { pages: 0, blockedByRobots: 0, failed: [], truncated: false };
+  const seen = new Set<string>();
+  const queue: { url: URL; depth: number }[] = [];
+
+  const enqueue = (url: URL, depth: number) => {
+    if (url.origin !== origin || !/^https?:$/.test(url.protocol)) return;
+    if (NON_PAGE_EXTENSIONS.test(url.pathname)) return;
+    const key = normalizeUrl(url);
+    if (seen.has(key)) return;
+    seen.add(key);
+    if (!isAllowedByRobots(robots, url)) {
+      summary.blockedByRobots++;
+      return;
+    }
+    queue.push({ url: new URL(key), depth });
+  };
+
+  enqueue(start, 0);
+
+  // Sitemap pages count as links from the start page, so a depth-0 crawl skips them
+  if (options.useSitemap && options.maxDepth >= 1) {
+    const sitemapUrls = robots.sitemaps.length > 0 ? robots.sitemaps : [`${origin}/sitemap.xml`];
+    for (const sitemapUrl of sitemapUrls) {
+      const xml = await fetchText(sitemapUrl);
+      if (!xml) continue;
+      let locs = extractSitemapLocs(xml);
+      // A sitemap index points at further sitemaps — follow one level
+      if (/<sitemapindex[\s>]/i.test(xml)) {
+        const nested: string[] = [];
+        for (const loc of locs.filter((l) => l.startsWith(origin))) {
+          const child = await fetchText(loc);
+          if (child) nested.push(...extractSitemapLocs(child));
+        }
+        locs = nested;
+      }
+      for (const loc of locs) {
+        try {
+          enqueue(new URL(loc), 1);
+        } catch {
+          // Malformed <loc> — ignore
+        }
+      }
+    }
+  }
+
+  while (queue.length > 0) {
+    if (summary.pages >= options.maxPages) {
+      summary.truncated = true;
+      break;
+    }
+    const { url, depth } = queue.shift()!;
+    if (summary.pages > 0 && robots.crawlDelayMs > 0) await sleep(robots.crawlDelayMs);
+
+    let res: Response;
+    try {
+      res = await fetch(url, { headers, signal: AbortSignal.timeout(options.timeoutMs) });
+    } catch (err) {
+      summary.failed.push({ url: url.href, error: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    if (!res.ok) {
+      summary.failed.push({ url: url.href, error: `HTTP ${res.status} ${res.statusText}` });
+      continue;
+    }
+    const contentType = res.headers.get("content-type") ?? "";
+    if (contentType && !/html/i.test(contentType)) continue;
+
+    // Redirects may land somewhere else — only keep pages that stay on the site
+    const finalUrl = new URL(res.url || url.href);
+    if (finalUrl.origin !== origin) continue;
+
+    // A dropped connection or a malformed <base href> loses this page, not the crawl
+    let html: string;
+    let links: URL[];
+    try {
+      html = await res.text();
+      links = depth < options.maxDepth ? extractLinks(html, finalUrl.href) : [];
+    } catch (err) {
+      summary.failed.push({ url: url.href, error: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+
+    await options.onPage({
+      url: url.href,
+      depth,
+      html,
+      etag: res.headers.get("etag") ?? undefined,
+      lastModified: res.headers.get("last-modified") ?? undefined,
+    });
+    summary.pages++;
+
+    for (const link of links) enqueue(link, depth + 1);
+  }
+
+  return summary;
+}
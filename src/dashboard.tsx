@@ -1,38 +1,92 @@
 /**
  * TUI Dashboard — renders a live status panel to stderr
  * so it never interferes with MCP's JSON-RPC on stdout.
+ *
+ * In interactive mode keys are read from /dev/tty (stdin belongs to MCP),
+ * and the mount panels can be navigated, filtered and managed.
  */
 
 import React, { useState, useEffect, type FC } from "react";
-import { render, Box, Text } from "ink";
+import { render, useInput, Box, Text } from "ink";
 import figlet from "figlet";
+import fs from "node:fs";
+import tty from "node:tty";
 import { Readable } from "node:stream";
-import { bus, type UrlInfo } from "./events.js";
+import { bus, type FileChange, type FileWrite, type UrlInfo } from "./events.js";
+import { formatSize, metrics, type MetricsSnapshot } from "./metrics.js";
 
 // ─── Activity log entry ────────────────────
 
 interface ActivityEntry {
   id: number;
-  fileName: string;
+  label: string;
   timestamp: number;
 }
 
+/** Dashboard wording for each kind of file churn */
+const FILE_CHANGE_LABELS: Record<FileChange["kind"], string> = {
+  add: "➕ 新文件",
+  change: "📝 已修改",
+  unlink: "➖ 已删除",
+};
+
 let activityId = 0;
 
+/** Busiest sources listed in the usage panel */
+const USAGE_TOP_SOURCES = 3;
+
+/** Minimum time between usage panel redraws */
+const USAGE_REFRESH_MS = 1000;
+
+// ─── Interaction ───────────────────────────
+
+export type DashboardPanel = "folders" | "urls" | "databases";
+
+/** Mount operations the interactive dashboard can trigger; each resolves to a status line */
+export interface DashboardActions {
+  unmount(panel: DashboardPanel, id: string): Promise<string>;
+  /** Re-fetch a web page, or every page of a crawled site */
+  refresh(url: string): Promise<string>;
+  /** Lines shown in the detail view */
+  details(panel: DashboardPanel, id: string): Promise<string[]>;
+}
+
+const PANELS: DashboardPanel[] = ["folders", "urls", "databases"];
+
+type Mode =
+  | { kind: "browse" }
+  | { kind: "filter" }
+  | { kind: "confirm"; id: string }
+  | { kind: "detail"; lines: string[] };
+
+const KEY_HELP = "Tab/←→ panel · ↑↓/jk move · Enter details · u unmount · r refresh · / filter · Esc clear";
+
 // ─── Dashboard Component ───────────────────
 
-interface DashboardProps {
+export interface DashboardProps {
   initialMounts: string[];
   initialUrls: UrlInfo[];
   initialDbs: string[];
+  transport: string;
+  initialWorkspace: string;
+  /** Present only when keyboard input is available */
+  actions?: DashboardActions;
 }
 
-const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs }) => {
+export const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs, transport, initialWorkspace, actions }) => {
   const [online, setOnline] = useState(false);
+  const [sessions, setSessions] = useState(0);
   const [mounts, setMounts] = useState<string[]>(initialMounts);
   const [urls, setUrls] = useState<UrlInfo[]>(initialUrls);
   const [dbs, setDbs] = useState<string[]>(initialDbs);
+  const [workspace, setWorkspace] = useState(initialWorkspace);
   const [activities, setActivities] = useState<ActivityEntry[]>([]);
+  const [focus, setFocus] = useState<DashboardPanel>("folders");
+  const [cursor, setCursor] = useState<Record<DashboardPanel, number>>({ folders: 0, urls: 0, databases: 0 });
+  const [filters, setFilters] = useState<Record<DashboardPanel, string>>({ folders: "", urls: "", databases: "" });
+  const [mode, setMode] = useState<Mode>({ kind: "browse" });
+  const [status, setStatus] = useState<string>();
+  const [usage, setUsage] = useState<MetricsSnapshot>(() => metrics.snapshot());
 
   // Subscribe to event bus
   useEffect(() => {
@@ -44,10 +98,23 @@ const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs
 
     const onSqliteChange = (newDbs: string[]) => setDbs([...newDbs]);
 
-    const onRead = (fileName: string) => {
+    const onSessionsChange = (count: number) => setSessions(count);
+
+    const onWorkspaceChange = (name: string) => setWorkspace(name);
+
+    // Operations can arrive in bursts, so redraw the usage panel at most once a second
+    let usageTimer: NodeJS.Timeout | undefined;
+    const onOperation = () => {
+      usageTimer ??= setTimeout(() => {
+        usageTimer = undefined;
+        setUsage(metrics.snapshot());
+      }, USAGE_REFRESH_MS);
+    };
+
+    const pushActivity = (label: string) => {
       const entry: ActivityEntry = {
         id: ++activityId,
-        fileName,
+        label,
         timestamp: Date.now(),
       };
       setActivities((prev) => [...prev.slice(-4), entry]); // keep last 5
@@ -58,18 +125,37 @@ const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs
       }, 4000);
     };
 
+    const onRead = (fileName: string) => pushActivity(`AI 正在读取: ${fileName}`);
+
+    const onFileChange = ({ kind, fileName }: FileChange) =>
+      pushActivity(`${FILE_CHANGE_LABELS[kind]}: ${fileName}`);
+
+    const onFileWrite = ({ fileName, created, added, removed }: FileWrite) =>
+      pushActivity(`✏️ AI ${created ? "已创建" : "已写入"}: ${fileName} (+${added} −${removed})`);
+
     bus.on("server:online", onOnline);
     bus.on("mount:change", onMount);
     bus.on("url:change", onUrlChange);
     bus.on("sqlite:change", onSqliteChange);
     bus.on("resource:read", onRead);
+    bus.on("file:change", onFileChange);
+    bus.on("file:write", onFileWrite);
+    bus.on("sessions:change", onSessionsChange);
+    bus.on("workspace:change", onWorkspaceChange);
+    bus.on("operation", onOperation);
 
     return () => {
+      clearTimeout(usageTimer);
       bus.off("server:online", onOnline);
       bus.off("mount:change", onMount);
       bus.off("url:change", onUrlChange);
       bus.off("sqlite:change", onSqliteChange);
       bus.off("resource:read", onRead);
+      bus.off("file:change", onFileChange);
+      bus.off("file:write", onFileWrite);
+      bus.off("sessions:change", onSessionsChange);
+      bus.off("workspace:change", onWorkspaceChange);
+      bus.off("operation", onOperation);
     };
   }, []);
 
@@ -80,6 +166,123 @@ const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs
   const shorten = (s: string, max: number) =>
     s.length > max ? "…" + s.slice(s.length - (max - 1)) : s;
 
+  // Panel contents after filtering
+  const matches = (panel: DashboardPanel, ...texts: string[]) => {
+    const needle = filters[panel].toLowerCase();
+    return !needle || texts.some((t) => t.toLowerCase().includes(needle));
+  };
+  const visibleMounts = mounts.filter((m) => matches("folders", m));
+  const visibleUrls = urls.filter((u) => matches("urls", u.url, u.title));
+  const visibleDbs = dbs.filter((db) => matches("databases", db));
+  const ids: Record<DashboardPanel, string[]> = {
+    folders: visibleMounts,
+    urls: visibleUrls.map((u) => u.url),
+    databases: visibleDbs,
+  };
+
+  // Lists shrink under the cursor when mounts go away, so clamp on read
+  const selectedIndex = (panel: DashboardPanel) => Math.min(cursor[panel], Math.max(ids[panel].length - 1, 0));
+  const selectedId: string | undefined = ids[focus][selectedIndex(focus)];
+  const isSelected = (panel: DashboardPanel, i: number) =>
+    actions !== undefined && panel === focus && i === selectedIndex(panel);
+
+  /** Show progress, then the action's outcome, in the status line */
+  const run = (label: string, task: Promise<string>) => {
+    setStatus(`⏳ ${label}…`);
+    task.then(setStatus, (err: unknown) => setStatus(`❌ ${err instanceof Error ? err.message : String(err)}`));
+  };
+
+  const moveFocus = (step: number) =>
+    setFocus((f) => PANELS[(PANELS.indexOf(f) + step + PANELS.length) % PANELS.length]!);
+
+  const moveCursor = (step: number) =>
+    setCursor((c) => ({
+      ...c,
+      [focus]: Math.max(0, Math.min(selectedIndex(focus) + step, ids[focus].length - 1)),
+    }));
+
+  const editFilter = (edit: (current: string) => string) => {
+    setFilters((f) => ({ ...f, [focus]: edit(f[focus]) }));
+    setCursor((c) => ({ ...c, [focus]: 0 }));
+  };
+
+  useInput(
+    (input, key) => {
+      if (!actions) return;
+      // Raw mode swallows the terminal's own Ctrl+C handling
+      if (key.ctrl && input === "c") {
+        process.kill(process.pid, "SIGINT");
+        return;
+      }
+
+      if (mode.kind === "detail") {
+        if (key.escape || key.return || input === "q") setMode({ kind: "browse" });
+        return;
+      }
+
+      if (mode.kind === "confirm") {
+        setMode({ kind: "browse" });
+        if (input === "y" || input === "Y") run(`Unmounting ${mode.id}`, actions.unmount(focus, mode.id));
+        else setStatus("Unmount cancelled");
+        return;
+      }
+
+      if (mode.kind === "filter") {
+        if (key.escape) {
+          editFilter(() => "");
+          setMode({ kind: "browse" });
+        } else if (key.return) {
+          setMode({ kind: "browse" });
+        } else if (key.backspace || key.delete) {
+          editFilter((f) => f.slice(0, -1));
+        } else if (input && !key.ctrl && !key.meta) {
+          editFilter((f) => f + input);
+        }
+        return;
+      }
+
+      if (key.tab) moveFocus(key.shift ? -1 : 1);
+      else if (key.rightArrow) moveFocus(1);
+      else if (key.leftArrow) moveFocus(-1);
+      else if (key.upArrow || input === "k") moveCursor(-1);
+      else if (key.downArrow || input === "j") moveCursor(1);
+      else if (input === "/") setMode({ kind: "filter" });
+      else if (key.escape) {
+        editFilter(() => "");
+        setStatus(undefined);
+      } else if (!selectedId) return;
+      else if (key.return) {
+        setStatus("⏳ Loading details…");
+        actions.details(focus, selectedId).then(
+          (lines) => {
+            setStatus(undefined);
+            setMode({ kind: "detail", lines });
+          },
+          (err: unknown) => setStatus(`❌ ${err instanceof Error ? err.message : String(err)}`),
+        );
+      } else if (input === "u" || key.delete) setMode({ kind: "confirm", id: selectedId });
+      else if (input === "r") {
+        if (focus === "urls") run(`Refreshing ${selectedId}`, actions.refresh(selectedId));
+        else setStatus("ℹ️  Only web pages can be refreshed");
+      }
+    },
+    { isActive: actions !== undefined },
+  );
+
+  /** Panel heading, marking focus and any active filter */
+  const heading = (panel: DashboardPanel, label: string, shown: number, total: number) => {
+    const focused = actions !== undefined && panel === focus;
+    const filter = filters[panel];
+    const editing = focused && mode.kind === "filter";
+    return (
+      <Text bold color={focused ? "cyanBright" : "white"}>
+        {actions ? (focused ? "▸ " : "  ") : ""}
+        {label} ({filter ? `${shown}/${total}` : total})
+        {filter || editing ? <Text color="gray">  / {filter}{editing ? "▏" : ""}</Text> : null}
+      </Text>
+    );
+  };
+
   return (
     <Box
       flexDirection="column"
@@ -102,7 +305,13 @@ const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs
           {online ? "Server Online" : "Server Starting…"}
         </Text>
         <Text color="gray">│</Text>
-        <Text color="gray">stdio transport</Text>
+        <Text color="gray">{transport}</Text>
+        <Text color="gray">│</Text>
+        <Text color="cyan">🗂️ {workspace}</Text>
+        <Text color="gray">│</Text>
+        <Text color={sessions > 0 ? "green" : "gray"}>
+          {sessions} session{sessions === 1 ? "" : "s"}
+        </Text>
         <Text color="gray">│</Text>
         <Text color="gray">v3.0.0</Text>
       </Box>
@@ -111,17 +320,15 @@ const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs
       <Text> </Text>
 
       {/* ── Mounted Folders ── */}
-      <Text bold color="white">
-        📂 Folders ({mounts.length})
-      </Text>
-      {mounts.length === 0 ? (
+      {heading("folders", "📂 Folders", visibleMounts.length, mounts.length)}
+      {visibleMounts.length === 0 ? (
         <Text color="gray">   (none)</Text>
       ) : (
-        mounts.map((m, i) => {
-          const isLast = i === mounts.length - 1 && urls.length === 0 && dbs.length === 0;
+        visibleMounts.map((m, i) => {
+          const isLast = i === visibleMounts.length - 1 && visibleUrls.length === 0 && visibleDbs.length === 0;
           const connector = isLast ? "└──" : "├──";
           return (
-            <Text key={m} color="cyan">
+            <Text key={m} color="cyan" inverse={isSelected("folders", i)}>
               {"   "}
               {connector} {shorten(m, 45)}
             </Text>
@@ -132,19 +339,19 @@ const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs
       <Text> </Text>
 
       {/* ── Mounted URLs ── */}
-      <Text bold color="white">
-        🌐 Web Pages ({urls.length})
-      </Text>
-      {urls.length === 0 ? (
+      {heading("urls", "🌐 Web Pages", visibleUrls.length, urls.length)}
+      {visibleUrls.length === 0 ? (
         <Text color="gray">   (none)</Text>
       ) : (
-        urls.map((u, i) => {
-          const isLast = i === urls.length - 1 && dbs.length === 0;
+        visibleUrls.map((u, i) => {
+          const isLast = i === visibleUrls.length - 1 && visibleDbs.length === 0;
           const connector = isLast ? "└──" : "├──";
           return (
-            <Text key={u.url} color="magenta">
+            <Text key={u.url} color={u.stale ? "yellow" : "magenta"} inverse={isSelected("urls", i)}>
               {"   "}
-              {connector} {shorten(u.title, 25)} → {shorten(u.url, 30)}
+              {connector} {u.stale ? "⚠ " : ""}
+              {shorten(u.title, 25)} → {shorten(u.url, 30)}
+              {u.stale ? " (stale)" : ""}
             </Text>
           );
         })
@@ -153,17 +360,15 @@ const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs
       <Text> </Text>
 
       {/* ── Mounted Databases ── */}
-      <Text bold color="white">
-        🗄️  Databases ({dbs.length})
-      </Text>
-      {dbs.length === 0 ? (
+      {heading("databases", "🗄️  Databases", visibleDbs.length, dbs.length)}
+      {visibleDbs.length === 0 ? (
         <Text color="gray">   (none)</Text>
       ) : (
-        dbs.map((db, i) => {
-          const isLast = i === dbs.length - 1;
+        visibleDbs.map((db, i) => {
+          const isLast = i === visibleDbs.length - 1;
           const connector = isLast ? "└──" : "├──";
           return (
-            <Text key={db} color="yellow">
+            <Text key={db} color="yellow" inverse={isSelected("databases", i)}>
               {"   "}
               {connector} {shorten(db, 45)}
             </Text>
@@ -173,6 +378,46 @@ const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs
 
       <Text> </Text>
 
+      {/* ── Detail View ── */}
+      {mode.kind === "detail" && (
+        <Box flexDirection="column" borderStyle="single" borderColor="gray" paddingX={1} marginBottom={1}>
+          {mode.lines.map((line, i) => (
+            <Text key={i}>{line}</Text>
+          ))}
+          <Text color="gray">Esc to close</Text>
+        </Box>
+      )}
+
+      {/* ── Usage ── */}
+      <Text bold color="white">
+        📊 Usage{" "}
+        <Text color="gray" bold={false}>
+          {usage.totals.resourceReads} read{usage.totals.resourceReads === 1 ? "" : "s"} ·{" "}
+          {usage.totals.toolCalls} tool call{usage.totals.toolCalls === 1 ? "" : "s"} ·{" "}
+          {formatSize(usage.totals.bytes)} served
+        </Text>
+        {usage.totals.errors > 0 ? (
+          <Text color="red" bold={false}>
+            {" "}· {usage.totals.errors} error{usage.totals.errors === 1 ? "" : "s"}
+          </Text>
+        ) : null}
+      </Text>
+      {usage.sources.length === 0 ? (
+        <Text color="gray">   └── no sources read yet</Text>
+      ) : (
+        usage.sources.slice(0, USAGE_TOP_SOURCES).map((s, i, top) => (
+          <Text key={s.source} color="green">
+            {"   "}
+            {i === top.length - 1 ? "└──" : "├──"} {shorten(s.source, 40)}{" "}
+            <Text color="gray">
+              {s.reads}× · {formatSize(s.bytes)}
+            </Text>
+          </Text>
+        ))
+      )}
+
+      <Text> </Text>
+
       {/* ── Activity Monitor ── */}
       <Text bold color="white">
         ⚡ Live Activity
@@ -188,21 +433,47 @@ const Dashboard: FC<DashboardProps> = ({ initialMounts, initialUrls, initialDbs
           return (
             <Text key={a.id} color={color}>
               {"   "}
-              {isLast ? "└──" : "├──"} AI 正在读取: {a.fileName}
+              {isLast ? "└──" : "├──"} {a.label}
             </Text>
           );
         })
       )}
+
+      {/* ── Keys & status ── */}
+      {actions && (
+        <>
+          <Text> </Text>
+          {mode.kind === "confirm" ? (
+            <Text color="yellow" bold>
+              Unmount {shorten(mode.id, 45)}? (y/n)
+            </Text>
+          ) : status ? (
+            <Text>{status}</Text>
+          ) : null}
+          <Text color="gray">{KEY_HELP}</Text>
+        </>
+      )}
     </Box>
   );
 };
 
 // ─── Launcher ──────────────────────────────
 
+/** Open the controlling terminal for keyboard input, leaving process.stdin to MCP */
+function openTerminalInput(): tty.ReadStream | undefined {
+  try {
+    return new tty.ReadStream(fs.openSync("/dev/tty", "r"));
+  } catch (err) {
+    console.error(`⚠️  Interactive dashboard unavailable (cannot open /dev/tty): ${err instanceof Error ? err.message : err}`);
+    return undefined;
+  }
+}
+
 /**
  * Start the TUI dashboard.
  * - Renders to stderr (stdout is reserved for MCP JSON-RPC)
- * - Uses a dummy stdin so ink never touches process.stdin
+ * - Reads keys from /dev/tty when `actions` are given, and otherwise uses
+ *   a dummy stdin so ink never touches process.stdin
  * - Only renders the full TUI when stderr is a TTY;
  *   falls back to plain text logging otherwise.
  */
@@ -210,10 +481,15 @@ export function startDashboard(
   initialMounts: string[],
   initialUrls: UrlInfo[],
   initialDbs: string[],
+  transport: string,
+  initialWorkspace: string,
+  actions?: DashboardActions,
 ): void {
   if (!process.stderr.isTTY) {
+    if (actions) console.error("ℹ️  --interactive needs a terminal on stderr; showing the plain log instead");
     // Non-TTY fallback: plain logging
-    console.error("🚀 Omni-MCP server starting…");
+    console.error(`🚀 Omni-MCP server starting… (${transport})`);
+    console.error(`🗂️  Workspace: ${initialWorkspace}`);
     console.error(`📂 Folders: ${initialMounts.join(", ") || "(none)"}`);
     console.error(`🌐 URLs: ${initialUrls.map((u) => u.url).join(", ") || "(none)"}`);
     console.error(`🗄️  Databases: ${initialDbs.join(", ") || "(none)"}`);
@@ -221,9 +497,23 @@ export function startDashboard(
     bus.on("resource:read", (f: string) =>
       console.error(`⚡ AI reading: ${f}`)
     );
+    bus.on("file:change", ({ kind, fileName }: FileChange) =>
+      console.error(`📁 File ${kind}: ${fileName}`)
+    );
+    bus.on("file:write", ({ tool, fileName, added, removed }: FileWrite) =>
+      console.error(`✏️  AI ${tool}: ${fileName} (+${added} −${removed})`)
+    );
+    bus.on("sessions:change", (count: number) =>
+      console.error(`🔌 Active sessions: ${count}`)
+    );
+    bus.on("workspace:change", (name: string) =>
+      console.error(`🗂️  Switched to workspace: ${name}`)
+    );
     return;
   }
 
+  const terminal = actions ? openTerminalInput() : undefined;
+
   // Create a dummy readable so ink doesn't hijack process.stdin
   const dummyInput = new Readable({ read() {} });
   Object.assign(dummyInput, { isTTY: false, setRawMode: () => dummyInput });
@@ -233,10 +523,13 @@ export function startDashboard(
       initialMounts={initialMounts}
       initialUrls={initialUrls}
       initialDbs={initialDbs}
+      transport={transport}
+      initialWorkspace={initialWorkspace}
+      actions={terminal ? actions : undefined}
     />,
     {
       stdout: process.stderr,
-      stdin: dummyInput as any,
+      stdin: terminal ?? (dummyInput as any),
       exitOnCtrlC: false,
       patchConsole: false,
     },
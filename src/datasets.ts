@@ -0,0 +1,214 @@
+/**
+ * Dataset loader — imports CSV, TSV, JSON-array and JSONL files into a
+ * SQLite table so they can be queried like any mounted database.
+ *
+ * Each dataset gets its own cache database file. A reload builds a fresh file
+ * next to it and renames it into place, so open connections and running
+ * queries keep seeing the previous version until they reopen.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { parseDelimited } from "./converters.js";
+import { quoteIdent } from "./schema.js";
+
+export type DatasetFormat = "csv" | "tsv" | "json" | "jsonl";
+
+export interface DatasetColumn {
+  name: string;
+  type: "INTEGER" | "REAL" | "TEXT";
+}
+
+export interface DatasetInfo {
+  format: DatasetFormat;
+  table: string;
+  columns: DatasetColumn[];
+  rows: number;
+}
+
+/** File extensions mount_dataset understands */
+export const DATASET_EXTENSIONS: Record<string, DatasetFormat> = {
+  ".csv": "csv",
+  ".tsv": "tsv",
+  ".json": "json",
+  ".jsonl": "jsonl",
+  ".ndjson": "jsonl",
+};
+
+export function datasetFormat(filePath: string): DatasetFormat | undefined {
+  return DATASET_EXTENSIONS[path.extname(filePath).toLowerCase()];
+}
+
+/** Default table name: the file name without its extension */
+export function defaultTableName(filePath: string): string {
+  return path.basename(filePath, path.extname(filePath)) || "data";
+}
+
+// ─── Parsing ───────────────────────────────
+
+type Cell = string | number | boolean | null | object;
+
+interface ParsedData {
+  header: string[];
+  rows: Cell[][];
+}
+
+function parseDelimitedFile(text: string, delimiter: string): ParsedData {
+  const [header = [], ...rows] = parseDelimited(text.replace(/^\uFEFF/, ""), delimiter);
+  // Empty cells in delimited files mean "no value"
+  return { header, rows: rows.map((r) => r.map((c) => (c === "" ? null : c))) };
+}
+
+/** Flatten a list of JSON records into rows; scalars become a single "value" column */
+function parseRecords(records: unknown[]): ParsedData {
+  const header: string[] = [];
+  const seen = new Set<string>();
+  for (const record of records) {
+    const keys = record !== null && typeof record === "object" && !Array.isArray(record) ? Object.keys(record) : ["value"];
+    for (const key of keys) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        header.push(key);
+      }
+    }
+  }
+  const rows = records.map((record) => {
+    const obj =
+      record !== null && typeof record === "object" && !Array.isArray(record)
+        ? (record as Record<string, Cell>)
+        : { value: record as Cell };
+    return header.map((key) => obj[key] ?? null);
+  });
+  return { header, rows };
+}
+
+function parseJson(text: string): ParsedData {
+  const data: unknown = JSON.parse(text.replace(/^\uFEFF/, ""));
+  if (!Array.isArray(data)) throw new Error("JSON datasets must be an array of records");
+  return parseRecords(data);
+}
+
+function parseJsonLines(text: string): ParsedData {
+  const records = text
+    .split(/\r?\n/)
+    .map((line, i) => {
+      if (!line.trim()) return undefined;
+      try {
+        return JSON.parse(line) as unknown;
+      } catch (err) {
+        throw new Error(`Line ${i + 1}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    })
+    .filter((r) => r !== undefined);
+  return parseRecords(records);
+}
+
+// ─── Type inference ────────────────────────
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const REAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/** Narrowest SQLite type every non-null value of a column fits in */
+function inferType(values: Cell[]): DatasetColumn["type"] {
+  let type: DatasetColumn["type"] = "INTEGER";
+  let sawValue = false;
+  for (const value of values) {
+    if (value === null) continue;
+    sawValue = true;
+    if (typeof value === "boolean") continue;
+    if (typeof value === "number") {
+      if (!Number.isInteger(value)) type = "REAL";
+      continue;
+    }
+    if (typeof value !== "string") return "TEXT";
+    const trimmed = value.trim();
+    // Leading zeros are identifiers (zip codes, account numbers), not quantities
+    if (/^[+-]?0\d/.test(trimmed)) return "TEXT";
+    if (INTEGER_PATTERN.test(trimmed) && Number.isSafeInteger(Number(trimmed))) continue;
+    if (REAL_PATTERN.test(trimmed)) {
+      type = "REAL";
+      continue;
+    }
+    return "TEXT";
+  }
+  return sawValue ? type : "TEXT";
+}
+
+/** Convert a parsed cell to the value bound for a column of `type` */
+function toSqlValue(value: Cell, type: DatasetColumn["type"]): string | number | null {
+  if (value === null) return null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "object") return JSON.stringify(value);
+  if (type === "TEXT") return String(value);
+  return typeof value === "number" ? value : Number(value.trim());
+}
+
+/** Make header names non-empty and unique */
+function uniqueColumnNames(header: string[], width: number): string[] {
+  const names: string[] = [];
+  const used = new Set<string>();
+  for (let i = 0; i < width; i++) {
+    const base = header[i]?.trim() || `column_${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}_${n}`;
+    used.add(name.toLowerCase());
+    names.push(name);
+  }
+  return names;
+}
+
+// ─── Loading ───────────────────────────────
+
+/**
+ * Parse `sourcePath` and (re)build `cachePath` with a single table holding
+ * its records. Throws if the file cannot be read or parsed.
+ */
+export function loadDataset(sourcePath: string, cachePath: string, table: string): DatasetInfo {
+  const format = datasetFormat(sourcePath);
+  if (!format) {
+    throw new Error(`Unsupported dataset type "${path.extname(sourcePath)}" (expected ${Object.keys(DATASET_EXTENSIONS).join(", ")})`);
+  }
+
+  const text = fs.readFileSync(sourcePath, "utf-8");
+  const parsed =
+    format === "csv"
+      ? parseDelimitedFile(text, ",")
+      : format === "tsv"
+        ? parseDelimitedFile(text, "\t")
+        : format === "json"
+          ? parseJson(text)
+          : parseJsonLines(text);
+
+  const width = parsed.rows.reduce((max, r) => Math.max(max, r.length), parsed.header.length);
+  if (width === 0) throw new Error("The file contains no columns");
+
+  const names = uniqueColumnNames(parsed.header, width);
+  const columns: DatasetColumn[] = names.map((name, i) => ({
+    name,
+    type: inferType(parsed.rows.map((r) => r[i] ?? null)),
+  }));
+
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  const tmpPath = `${cachePath}.${process.pid}.tmp`;
+  fs.rmSync(tmpPath, { force: true });
+
+  const db = new Database(tmpPath);
+  try {
+    db.exec(`CREATE TABLE ${quoteIdent(table)} (${columns.map((c) => `${quoteIdent(c.name)} ${c.type}`).join(", ")})`);
+    const insert = db.prepare(
+      `INSERT INTO ${quoteIdent(table)} VALUES (${columns.map(() => "?").join(", ")})`,
+    );
+    db.transaction(() => {
+      for (const row of parsed.rows) insert.run(columns.map((c, i) => toSqlValue(row[i] ?? null, c.type)));
+    })();
+  } catch (err) {
+    db.close();
+    fs.rmSync(tmpPath, { force: true });
+    throw err;
+  }
+  db.close();
+  fs.renameSync(tmpPath, cachePath);
+
+  return { format, table, columns, rows: parsed.rows.length };
+}
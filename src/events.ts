@@ -7,6 +7,11 @@
  *   mount:change      → Folder mount list changed (payload: current paths[])
  *   url:change        → URL mount list changed (payload: {url, title}[])
  *   sqlite:change     → SQLite mount list changed (payload: db paths[])
+ *   file:change       → A watched file was added, edited or removed (payload: FileChange)
+ *   file:write        → A write tool changed a file in a writable mount (payload: FileWrite)
+ *   sessions:change   → A client session connected or disconnected (payload: live session count)
+ *   workspace:change  → Switched to another workspace (payload: workspace name)
+ *   operation         → A tool call or resource read finished (payload: OperationEvent)
  */
 
 import { EventEmitter } from "node:events";
@@ -14,6 +19,35 @@ import { EventEmitter } from "node:events";
 export interface UrlInfo {
   url: string;
   title: string;
+  stale?: boolean; // Last refresh failed
+}
+
+export interface FileChange {
+  kind: "add" | "change" | "unlink";
+  fileName: string;
+}
+
+export interface FileWrite {
+  /** Tool that made the change */
+  tool: "write_file" | "append_file" | "apply_patch";
+  fileName: string;
+  created: boolean;
+  added: number;
+  removed: number;
+}
+
+export interface OperationEvent {
+  kind: "tool" | "resource";
+  /** Tool name or resource template name */
+  name: string;
+  /** Resource URI without its query string (resource reads only) */
+  uri?: string;
+  /** Mounted folder, page, site or database the resource belongs to */
+  source?: string;
+  bytes: number;
+  durationMs: number;
+  /** First line of the failure message */
+  error?: string;
 }
 
 class OmniEventBus extends EventEmitter {
@@ -32,6 +66,21 @@ class OmniEventBus extends EventEmitter {
   sqliteChange(dbs: string[]) {
     this.emit("sqlite:change", dbs);
   }
+  fileChange(change: FileChange) {
+    this.emit("file:change", change);
+  }
+  fileWrite(write: FileWrite) {
+    this.emit("file:write", write);
+  }
+  sessionsChange(count: number) {
+    this.emit("sessions:change", count);
+  }
+  workspaceChange(name: string) {
+    this.emit("workspace:change", name);
+  }
+  operation(op: OperationEvent) {
+    this.emit("operation", op);
+  }
 }
 
 export const bus = new OmniEventBus();
@@ -0,0 +1,227 @@
+/**
+ * Mount filters — decide which files under a mounted folder are exposed.
+ *
+ * Each folder mount carries its own options (extra extensions, include /
+ * exclude globs, max depth, .gitignore handling). The same filter is used by
+ * the directory scan, the file watcher and the read-path checks, so all three
+ * always agree on what a mount exposes.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import picomatch from "picomatch";
+import ignore, { type Ignore } from "ignore";
+
+/** Per-mount options, persisted with each folder in config.json */
+export interface FolderMountOptions {
+  /** Extra extensions on top of the defaults, e.g. [".ts", ".py"] */
+  extensions?: string[];
+  /** Only expose files whose mount-relative path matches one of these globs */
+  include?: string[];
+  /** Hide files and folders whose mount-relative path matches one of these globs */
+  exclude?: string[];
+  /** Maximum folder depth below the mount root (0 = root files only) */
+  maxDepth?: number;
+  /** Honour .gitignore and .ignore files found in the tree (default: true) */
+  respectIgnoreFiles?: boolean;
+  /** Allow the write tools to create and change exposed files (default: false) */
+  writable?: boolean;
+}
+
+/** Folders that are never worth crawling */
+const ALWAYS_SKIPPED_DIRS = new Set([".git", "node_modules"]);
+
+/** Ignore files read in every folder when respectIgnoreFiles is on */
+const IGNORE_FILES = [".gitignore", ".ignore"];
+
+/** Normalize ".TS" / "ts" → ".ts" */
+export function normalizeExtension(ext: string): string {
+  const lower = ext.trim().toLowerCase();
+  return lower.startsWith(".") ? lower : `.${lower}`;
+}
+
+/** Convert a mount-relative path to the forward-slash form globs expect */
+function toPosix(rel: string): string {
+  return rel.split(path.sep).join("/");
+}
+
+export class MountFilter {
+  readonly extensions: Set<string>;
+  private includeMatchers: picomatch.Matcher[];
+  private excludeMatchers: picomatch.Matcher[];
+  /** Folder → rules from its ignore files (null = folder has none) */
+  private ignoreRules = new Map<string, Ignore | null>();
+
+  constructor(
+    readonly root: string,
+    readonly options: FolderMountOptions,
+    defaultExtensions: Iterable<string>,
+  ) {
+    this.extensions = new Set([...defaultExtensions, ...(options.extensions ?? []).map(normalizeExtension)]);
+    this.includeMatchers = (options.include ?? []).map((g) => picomatch(g, { dot: true }));
+    this.excludeMatchers = (options.exclude ?? []).map((g) => picomatch(g, { dot: true }));
+  }
+
+  private get respectIgnoreFiles(): boolean {
+    return this.options.respectIgnoreFiles !== false;
+  }
+
+  /**
+   * Read the ignore files of `dir` (once) so later checks can apply them.
+   * Must be called for a folder before its children are tested.
+   */
+  async loadIgnoreFiles(dir: string): Promise<void> {
+    if (!this.respectIgnoreFiles || this.ignoreRules.has(dir)) return;
+
+    let rules: Ignore | null = null;
+    for (const name of IGNORE_FILES) {
+      try {
+        const text = await fs.readFile(path.join(dir, name), "utf-8");
+        rules = (rules ?? ignore()).add(text);
+      } catch {
+        // No such ignore file in this folder
+      }
+    }
+    this.ignoreRules.set(dir, rules);
+  }
+
+  /** Forget cached ignore rules — of one folder, or all — e.g. after a .gitignore was edited */
+  resetIgnoreFiles(dir?: string): void {
+    if (dir === undefined) this.ignoreRules.clear();
+    else this.ignoreRules.delete(dir);
+  }
+
+  /** Whether `filePath` is an ignore file this filter reads */
+  isIgnoreFile(filePath: string): boolean {
+    return this.respectIgnoreFiles && IGNORE_FILES.includes(path.basename(filePath));
+  }
+
+  /** Whether any loaded ignore file hides `target` */
+  private isIgnored(target: string, isDir: boolean): boolean {
+    if (!this.respectIgnoreFiles) return false;
+
+    let dir = path.dirname(target);
+    while (true) {
+      const rules = this.ignoreRules.get(dir);
+      if (rules) {
+        const rel = toPosix(path.relative(dir, target));
+        if (rules.ignores(isDir ? `${rel}/` : rel)) return true;
+      }
+      if (dir === this.root || !dir.startsWith(this.root)) break;
+      dir = path.dirname(dir);
+    }
+    return false;
+  }
+
+  /** Whether the walk/watch should descend into `dir` */
+  allowsDir(dir: string): boolean {
+    if (dir === this.root) return true;
+    const rel = path.relative(this.root, dir);
+    if (rel.startsWith("..") || path.isAbsolute(rel)) return false;
+    if (ALWAYS_SKIPPED_DIRS.has(path.basename(dir))) return false;
+
+    const depth = rel.split(path.sep).length;
+    if (this.options.maxDepth !== undefined && depth > this.options.maxDepth) return false;
+
+    const posix = toPosix(rel);
+    if (this.excludeMatchers.some((m) => m(posix))) return false;
+    return !this.isIgnored(dir, true);
+  }
+
+  /** Whether `filePath` is exposed by this mount */
+  allowsFile(filePath: string): boolean {
+    if (!this.extensions.has(path.extname(filePath).toLowerCase())) return false;
+
+    const rel = path.relative(this.root, filePath);
+    if (rel === "" || rel.startsWith("..") || path.isAbsolute(rel)) return false;
+
+    // Every folder between the root and the file must be allowed too
+    let parent = path.dirname(filePath);
+    while (parent !== this.root) {
+      if (!this.allowsDir(parent)) return false;
+      parent = path.dirname(parent);
+    }
+
+    const posix = toPosix(rel);
+    if (this.includeMatchers.length > 0 && !this.includeMatchers.some((m) => m(posix))) return false;
+    if (this.excludeMatchers.some((m) => m(posix))) return false;
+    return !this.isIgnored(filePath, false);
+  }
+
+  /**
+   * Whether `real`, a path with every symlink resolved, lies inside the real
+   * mount root and is itself a file the mount exposes. Symlinks may point
+   * anywhere — including at excluded or ignored files of the same mount — so
+   * a file is only served when its target passes this check.
+   */
+  async containsRealPath(real: string): Promise<boolean> {
+    const realRoot = await fs.realpath(this.root).catch(() => null);
+    if (realRoot === null) return false;
+    const rel = path.relative(realRoot, real);
+    if (rel === "" || rel.startsWith("..") || path.isAbsolute(rel)) return false;
+
+    const target = path.join(this.root, rel);
+    await this.loadIgnoreFilesAbove(target);
+    return this.allowsFile(target);
+  }
+
+  /** Load the ignore files of every folder from the root down to the one holding `target` */
+  private async loadIgnoreFilesAbove(target: string): Promise<void> {
+    const rel = path.relative(this.root, path.dirname(target));
+    let dir = this.root;
+    await this.loadIgnoreFiles(dir);
+    for (const part of rel === "" ? [] : rel.split(path.sep)) {
+      dir = path.join(dir, part);
+      await this.loadIgnoreFiles(dir);
+    }
+  }
+
+  /** Whether a file under the mount still resolves inside it once symlinks are followed */
+  async resolvesInside(filePath: string): Promise<boolean> {
+    const real = await fs.realpath(filePath).catch(() => null);
+    return real !== null && (await this.containsRealPath(real));
+  }
+
+  /**
+   * Recursively collect every file the mount exposes. Symlinked folders are
+   * not descended into, and symlinked files only count when their target is
+   * inside the mount too.
+   */
+  async scan(): Promise<string[]> {
+    const results: string[] = [];
+
+    const walk = async (current: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(current, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      await this.loadIgnoreFiles(current);
+      for (const entry of entries) {
+        const fullPath = path.join(current, entry.name);
+        if (entry.isDirectory()) {
+          if (this.allowsDir(fullPath)) await walk(fullPath);
+        } else if (this.allowsFile(fullPath) && (!entry.isSymbolicLink() || (await this.resolvesInside(fullPath)))) {
+          results.push(fullPath);
+        }
+      }
+    };
+
+    await walk(this.root);
+    return results;
+  }
+
+  /** One-line summary of the non-default options, for tool output */
+  describe(): string {
+    const parts: string[] = [];
+    const { extensions, include, exclude, maxDepth, respectIgnoreFiles, writable } = this.options;
+    if (extensions?.length) parts.push(`extensions: ${extensions.map(normalizeExtension).join(", ")}`);
+    if (include?.length) parts.push(`include: ${include.join(", ")}`);
+    if (exclude?.length) parts.push(`exclude: ${exclude.join(", ")}`);
+    if (maxDepth !== undefined) parts.push(`max depth: ${maxDepth}`);
+    if (respectIgnoreFiles === false) parts.push("ignore files: off");
+    if (writable) parts.push("writable");
+    return parts.join(" · ");
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Git history — read-only access to the repository behind a mounted folder:
+ * the commit log, a commit's patch, per-file history and blame, and file
+ * contents at a given revision.
+ *
+ * Everything goes through the git CLI, run from inside the mounted folder.
+ * Paths are passed relative to that folder, and diffs use `--relative`, so a
+ * mount of a repository's sub-folder only ever sees its own part of the tree.
+ */
+
+import { execFile } from "node:child_process";
+
+/** Longest any single git command may run */
+const GIT_TIMEOUT_MS = 15_000;
+
+/** Largest output read from a single git command */
+const GIT_MAX_BUFFER = 32 * 1024 * 1024;
+
+/** Field and record separators for --format output */
+const FIELD = "\x1f";
+const RECORD = "\x1e";
+
+const COMMIT_FORMAT = ["%H", "%h", "%an", "%aI", "%s"].join("%x1f") + "%x1e";
+
+export interface Commit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  /** ISO 8601 author date */
+  date: string;
+  subject: string;
+}
+
+export interface CommitDetails extends Commit {
+  body: string;
+  /** Mount-relative paths of the files the commit touched (both sides of a rename) */
+  files: string[];
+}
+
+export interface BlameLine {
+  line: number;
+  shortHash: string;
+  author: string;
+  /** Author date, YYYY-MM-DD */
+  date: string;
+  text: string;
+}
+
+/** A failed git command; the message is git's own first line of stderr */
+export class GitError extends Error {}
+
+function git(cwd: string, args: string[], encoding: "utf-8" | "buffer" = "utf-8"): Promise<string | Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      // Pathspecs are file names, never globs or magic
+      ["--literal-pathspecs", "-c", "core.quotePath=false", ...args],
+      {
+        cwd,
+        encoding,
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: GIT_MAX_BUFFER,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0", GIT_OPTIONAL_LOCKS: "0", LC_ALL: "C" },
+      },
+      (err, stdout, stderr) => {
+        if (!err) return resolve(stdout);
+        const message = String(stderr).trim().split("\n")[0] || err.message;
+        reject(new GitError(message));
+      },
+    );
+  });
+}
+
+const gitText = (cwd: string, args: string[]) => git(cwd, args) as Promise<string>;
+
+function parseCommits(output: string): Commit[] {
+  return output
+    .split(RECORD)
+    .map((record) => record.replace(/^\n/, ""))
+    .filter((record) => record.length > 0)
+    .map((record) => {
+      const [hash = "", shortHash = "", author = "", date = "", subject = ""] = record.split(FIELD);
+      return { hash, shortHash, author, date, subject };
+    });
+}
+
+// ─── Queries ───────────────────────────────
+
+/** Whether `dir` lies inside a git work tree */
+export async function isGitWorkTree(dir: string): Promise<boolean> {
+  try {
+    return (await gitText(dir, ["rev-parse", "--is-inside-work-tree"])).trim() === "true";
+  } catch {
+    return false;
+  }
+}
+
+/** Resolve a revision (hash, branch, tag, HEAD~2 …) to a full commit hash */
+export async function resolveCommit(cwd: string, rev: string): Promise<string> {
+  if (!rev.trim() || /[\s\0]/.test(rev)) throw new GitError(`Invalid revision "${rev}"`);
+  try {
+    return (await gitText(cwd, ["rev-parse", "--verify", "--quiet", "--end-of-options", `${rev}^{commit}`])).trim();
+  } catch {
+    throw new GitError(`Unknown revision "${rev}"`);
+  }
+}
+
+/**
+ * Most recent commits touching `relPath` (the mount itself when "."), newest
+ * first. Single files are followed across renames.
+ */
+export async function log(
+  cwd: string,
+  relPath: string,
+  options: { limit: number; since?: string; follow?: boolean },
+): Promise<Commit[]> {
+  const args = ["log", `--max-count=${options.limit}`, `--format=${COMMIT_FORMAT}`];
+  if (options.since) args.push(`--since=${options.since}`);
+  if (options.follow) args.push("--follow");
+  return parseCommits(await gitText(cwd, [...args, "--", relPath]));
+}
+
+/** Metadata of a commit and the files it changed under `relPath` */
+export async function showCommit(cwd: string, hash: string, relPath: string): Promise<CommitDetails> {
+  const header = await gitText(cwd, ["show", "--no-patch", `--format=${COMMIT_FORMAT.replace("%x1e", "%x1f%b%x1e")}`, hash]);
+  const [commit] = parseCommits(header);
+  const body = header.split(RECORD)[0]!.split(FIELD)[5]?.trim() ?? "";
+  const names = await gitText(cwd, [
+    "show",
+    "--relative",
+    "--diff-merges=first-parent",
+    "--format=",
+    "--name-only",
+    "--no-renames",
+    "-z",
+    hash,
+    "--",
+    relPath,
+  ]);
+  return { ...commit!, body, files: names.split("\0").filter(Boolean) };
+}
+
+/** Unified diff of a commit (against its first parent), limited to the given mount-relative files */
+export async function commitPatch(cwd: string, hash: string, files: string[]): Promise<string> {
+  if (files.length === 0) return "";
+  return gitText(cwd, ["show", "--relative", "--diff-merges=first-parent", "--format=", "--patch", hash, "--", ...files]);
+}
+
+/** Who last changed each line of a file, optionally as of `hash` and within a line range */
+export async function blame(
+  cwd: string,
+  relPath: string,
+  options: { hash?: string; start?: number; end?: number },
+): Promise<BlameLine[]> {
+  const args = ["blame", "--line-porcelain"];
+  if (options.start !== undefined) args.push(`-L${options.start},${options.end ?? ""}`);
+  if (options.hash) args.push(options.hash);
+  const output = await gitText(cwd, [...args, "--", relPath]);
+
+  const lines: BlameLine[] = [];
+  let current: Partial<BlameLine> = {};
+  for (const raw of output.split("\n")) {
+    const header = raw.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+    if (header) {
+      current = { shortHash: header[1]!.slice(0, 8), line: Number(header[2]) };
+    } else if (raw.startsWith("author ")) {
+      current.author = raw.slice("author ".length);
+    } else if (raw.startsWith("author-time ")) {
+      current.date = new Date(Number(raw.slice("author-time ".length)) * 1000).toISOString().slice(0, 10);
+    } else if (raw.startsWith("\t")) {
+      lines.push({ author: "", date: "", ...current, text: raw.slice(1) } as BlameLine);
+    }
+  }
+  return lines;
+}
+
+/** Raw contents of a file as of a commit */
+export async function fileAtRevision(cwd: string, hash: string, relPath: string): Promise<Buffer> {
+  return git(cwd, ["show", `${hash}:./${relPath}`], "buffer") as Promise<Buffer>;
+}
@@ -0,0 +1,237 @@
+/**
+ * HTML → Markdown — shared by mounted web pages and local .html files.
+ *
+ * Pages are parsed into a DOM and run through Mozilla Readability, which
+ * picks out the main article and drops sidebars, cookie banners, ads and
+ * comment threads. Pages too short or too fragmented for that to be reliable
+ * fall back to the whole <body> minus obvious page chrome.
+ *
+ * Also home to the fetcher shared by mounted web pages and the CLI.
+ */
+
+import TurndownService from "turndown";
+import { Readability, isProbablyReaderable } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+
+export const turndown = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+});
+
+// Turndown flattens tables to loose text by default — render them as GFM tables
+turndown.addRule("table", {
+  filter: "table",
+  replacement: (_content, node) => "\n\n" + tableToMarkdown(node as HTMLTableElement) + "\n\n",
+});
+
+/** Render an HTML table as a GFM table; the first row becomes the header */
+function tableToMarkdown(table: HTMLTableElement): string {
+  // Walk rows by hand (turndown's DOM has no iterable NodeLists) and skip nested tables
+  const trs: Element[] = [];
+  const collect = (parent: Element) => {
+    for (const child of Array.from(parent.children)) {
+      if (child.nodeName === "TR") trs.push(child);
+      else if (/^(THEAD|TBODY|TFOOT)$/.test(child.nodeName)) collect(child);
+    }
+  };
+  collect(table);
+
+  const rows = trs
+    .map((tr) =>
+      Array.from(tr.children)
+        .filter((cell) => cell.nodeName === "TH" || cell.nodeName === "TD")
+        .map((cell) =>
+          turndown
+            .turndown(cell.innerHTML)
+            .replace(/\|/g, "\\|")
+            .replace(/\s*\n+\s*/g, "<br>"),
+        ),
+    )
+    .filter((cells) => cells.length > 0);
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map((r) => r.length));
+  const pad = (r: string[]) => Array.from({ length: width }, (_, i) => r[i] ?? "");
+  const [header, ...body] = rows;
+  return [
+    `| ${pad(header).join(" | ")} |`,
+    `| ${Array(width).fill("---").join(" | ")} |`,
+    ...body.map((r) => `| ${pad(r).join(" | ")} |`),
+  ].join("\n");
+}
+
+/** Metadata a page declares about itself; every key is present, unset ones are undefined */
+export interface PageMetadata {
+  author: string | undefined;
+  publishedAt: string | undefined;
+  canonicalUrl: string | undefined;
+  language: string | undefined;
+}
+
+export interface ConvertedPage extends PageMetadata {
+  /** Empty if the page has no title */
+  title: string;
+  content: string;
+}
+
+/** Elements that are page chrome rather than content, removed when Readability gives up */
+const CHROME_SELECTOR =
+  "script, style, noscript, template, nav, header, footer, aside, form, iframe, " +
+  "[role=navigation], [role=banner], [role=contentinfo], [aria-hidden=true]";
+
+/** Resolve `href` against `base`, leaving it untouched if that is impossible */
+function absolutize(href: string, base: string): string {
+  try {
+    return new URL(href, base).href;
+  } catch {
+    return href;
+  }
+}
+
+/** Rewrite relative link and image targets to absolute URLs */
+function absolutizeLinks(document: Document, pageUrl: string): void {
+  const base = document.querySelector("base[href]")?.getAttribute("href");
+  const baseUrl = base ? absolutize(base, pageUrl) : pageUrl;
+
+  for (const [selector, attr] of [["a[href]", "href"], ["img[src]", "src"]] as const) {
+    for (const el of document.querySelectorAll(selector)) {
+      const value = el.getAttribute(attr)!.trim();
+      if (/^(#|mailto:|javascript:|tel:|data:)/i.test(value)) continue;
+      el.setAttribute(attr, absolutize(value, baseUrl));
+    }
+  }
+}
+
+/** Content of the first matching <meta> tag */
+function metaContent(document: Document, ...selectors: string[]): string | undefined {
+  for (const selector of selectors) {
+    const value = document.querySelector(selector)?.getAttribute("content")?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function extractMetadata(document: Document, pageUrl: string | undefined): PageMetadata {
+  const canonical = document.querySelector("link[rel~=canonical][href]")?.getAttribute("href")?.trim();
+  return {
+    author: metaContent(document, 'meta[name="author"]', 'meta[property="article:author"]'),
+    publishedAt:
+      metaContent(
+        document,
+        'meta[property="article:published_time"]',
+        'meta[itemprop="datePublished"]',
+        'meta[name="date"]',
+      ) ?? document.querySelector("time[datetime]")?.getAttribute("datetime")?.trim(),
+    canonicalUrl: canonical ? (pageUrl ? absolutize(canonical, pageUrl) : canonical) : undefined,
+    language:
+      document.documentElement?.getAttribute("lang")?.trim() ||
+      metaContent(document, 'meta[http-equiv="content-language" i]'),
+  };
+}
+
+/**
+ * Convert an HTML document to Markdown, keeping only its main content.
+ * When `pageUrl` is given, relative links and images are rewritten to absolute URLs.
+ */
+export function htmlToMarkdown(html: string, pageUrl?: string): ConvertedPage {
+  const { document } = parseHTML(html);
+  if (pageUrl) absolutizeLinks(document, pageUrl);
+
+  const metadata = extractMetadata(document, pageUrl);
+  const documentTitle = document.querySelector("title")?.textContent?.trim() ?? "";
+
+  // Readability strips classes — keep the ones turndown reads fenced-code languages from
+  const codeClasses = [...document.querySelectorAll("pre[class], code[class]")].flatMap((el) =>
+    [...el.classList].filter((c) => /^(language|lang)-/.test(c)),
+  );
+
+  // Readability mutates the DOM it is given, so let it work on a copy
+  const article = isProbablyReaderable(document)
+    ? new Readability(document.cloneNode(true) as Document, {
+        classesToPreserve: [...new Set(codeClasses)],
+      }).parse()
+    : null;
+
+  let body: string;
+  if (article?.content && article.textContent?.trim()) {
+    body = article.content;
+  } else {
+    for (const el of document.querySelectorAll(CHROME_SELECTOR)) el.remove();
+    body = document.body?.innerHTML ?? html;
+  }
+
+  return {
+    ...metadata,
+    author: metadata.author ?? (article?.byline?.trim() || undefined),
+    publishedAt: metadata.publishedAt ?? (article?.publishedTime?.trim() || undefined),
+    language: metadata.language ?? (article?.lang?.trim() || undefined),
+    title: documentTitle || article?.title?.trim() || "",
+    content: turndown.turndown(body).trim(),
+  };
+}
+
+// ─── Fetching ──────────────────────────────
+
+/** User-Agent sent with every web request (robots.txt rules are matched against it too) */
+export const USER_AGENT = "Omni-MCP/2.0 (Resource Fetcher)";
+
+/** How long a web request may take, body included, before it is abandoned */
+export const FETCH_TIMEOUT_MS = 30_000;
+
+export interface FetchedPage extends ConvertedPage {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Fetch a URL and convert its HTML to Markdown.
+ * When validators from a previous fetch are given the request is conditional,
+ * and `null` is returned if the server answers 304 Not Modified. A server
+ * that takes longer than `timeoutMs` to send the whole page is given up on.
+ */
+export async function fetchAndConvert(
+  url: string,
+  validators: { etag?: string; lastModified?: string } = {},
+  timeoutMs = FETCH_TIMEOUT_MS,
+): Promise<FetchedPage | null> {
+  const headers: Record<string, string> = { "User-Agent": USER_AGENT };
+  if (validators.etag) headers["If-None-Match"] = validators.etag;
+  if (validators.lastModified) headers["If-Modified-Since"] = validators.lastModified;
+
+  let res: Response;
+  let html: string;
+  try {
+    res = await fetch(url, { headers, signal: AbortSignal.timeout(timeoutMs) });
+    if (res.status === 304) return null;
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status} ${res.statusText}`);
+    }
+    html = await res.text();
+  } catch (err) {
+    if (err instanceof Error && err.name === "TimeoutError") throw new Error(`No complete response within ${timeoutMs} ms`);
+    throw err;
+  }
+  const page = htmlToMarkdown(html, res.url || url);
+  return {
+    ...page,
+    title: page.title || new URL(url).hostname,
+    etag: res.headers.get("etag") ?? undefined,
+    lastModified: res.headers.get("last-modified") ?? undefined,
+  };
+}
+
+/** Count lines added / removed between two versions of a page (order-insensitive) */
+export function diffLineCounts(before: string, after: string): { added: number; removed: number } {
+  const counts = new Map<string, number>();
+  for (const line of before.split("\n")) counts.set(line, (counts.get(line) ?? 0) + 1);
+
+  let added = 0;
+  for (const line of after.split("\n")) {
+    const n = counts.get(line) ?? 0;
+    if (n > 0) counts.set(line, n - 1);
+    else added++;
+  }
+  let removed = 0;
+  for (const n of counts.values()) removed += n;
+  return { added, removed };
+}
@@ -0,0 +1,151 @@
+/**
+ * HTTP transport — serves MCP over Streamable HTTP (`/mcp`) and the legacy
+ * SSE protocol (`GET /sse` + `POST /messages`) from a single port.
+ *
+ * Every client session gets its own MCP server instance (via `connect`), but
+ * they all share the process-wide mount registry, so one running Omni-MCP
+ * can back any number of AI clients. Optionally, `GET /metrics` serves usage
+ * metrics in the Prometheus text format.
+ */
+
+import http from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Bearer token every request must present; undefined disables auth */
+  token?: string;
+  /** Attach a fresh MCP server session to the transport */
+  connect: (transport: Transport) => Promise<void>;
+  /** Render the Prometheus exposition served at /metrics; undefined disables the endpoint */
+  metrics?: () => string;
+}
+
+/** Largest JSON-RPC request body we are willing to buffer */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Constant-time check of the request's bearer token */
+function isAuthorized(req: http.IncomingMessage, token: string | undefined): boolean {
+  if (token === undefined) return true;
+  const header = req.headers.authorization ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** Read and JSON-parse a request body */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString("utf-8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/** Write a JSON-RPC error response outside of any session */
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+/** Start the HTTP listener; resolves once the port is bound */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<http.Server> {
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+
+  async function handleStreamable(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"];
+    const existing = typeof sessionId === "string" ? streamable.get(sessionId) : undefined;
+
+    if (req.method !== "POST") {
+      // GET (notification stream) and DELETE (end session) need a live session
+      if (!existing) return sendError(res, 400, "Unknown or missing session ID");
+      return existing.handleRequest(req, res);
+    }
+
+    const body = await readJsonBody(req);
+    if (existing) return existing.handleRequest(req, res, body);
+
+    if (sessionId !== undefined || !isInitializeRequest(body)) {
+      return sendError(res, 400, "Unknown or missing session ID");
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamable.set(id, transport);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) streamable.delete(transport.sessionId);
+    };
+    await options.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseStream(res: http.ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport("/messages", res);
+    sse.set(transport.sessionId, transport);
+    res.on("close", () => {
+      sse.delete(transport.sessionId);
+      void transport.close();
+    });
+    await options.connect(transport);
+  }
+
+  async function handleSseMessage(url: URL, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const transport = sse.get(url.searchParams.get("sessionId") ?? "");
+    if (!transport) return sendError(res, 404, "Unknown session ID");
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (!isAuthorized(req, options.token)) {
+      res.writeHead(401, { "WWW-Authenticate": 'Bearer realm="omni-mcp"' });
+      res.end("Unauthorized");
+      return;
+    }
+
+    try {
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseStream(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(url, req, res);
+      } else if (url.pathname === "/metrics" && req.method === "GET" && options.metrics) {
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+        res.end(options.metrics());
+      } else {
+        res.writeHead(404).end("Not found");
+      }
+    } catch (err) {
+      if (err instanceof SyntaxError) return sendError(res, 400, "Invalid JSON body");
+      console.error(`⚠️  HTTP request failed: ${err}`);
+      sendError(res, 500, err instanceof Error ? err.message : String(err));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
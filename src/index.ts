@@ -1,13 +1,108 @@
-import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { createHash, randomBytes } from "node:crypto";
 import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
 import { z } from "zod";
-import TurndownService from "turndown";
 import Database from "better-sqlite3";
 import { bus, type UrlInfo } from "./events.js";
-import { startDashboard } from "./dashboard.js";
+import { startDashboard, type DashboardActions } from "./dashboard.js";
+import { SearchIndex, type IndexDocument, type SourceKind } from "./search.js";
+import { AuditLog, type AuditFilter, type AuditKind } from "./audit.js";
+import { formatSize, metrics, toPrometheus, type MetricsSnapshot } from "./metrics.js";
+import {
+  DEFAULT_CHUNK_TOKENS,
+  chunkText,
+  estimateTokens,
+  findHeadings,
+  parseRange,
+  parseRangeParams,
+  sliceText,
+  takeRangeParams,
+  type RangeRequest,
+} from "./chunks.js";
+import { FileWatcher, type FileChangeKind } from "./watcher.js";
+import { MountFilter, normalizeExtension, type FolderMountOptions } from "./filters.js";
+import {
+  RESOURCE_NOT_FOUND,
+  exposedRealPath,
+  isInside,
+  resolveMountedFile,
+  resolveWritableFile,
+  uriPathToFsPath,
+} from "./access.js";
+import {
+  CONFIG_VERSION,
+  ConfigError,
+  DEFAULT_WORKSPACE,
+  WORKSPACE_NAME_PATTERN,
+  diffWorkspaces,
+  emptyConfig,
+  emptyWorkspace,
+  loadConfig,
+  mergeWorkspaces,
+  sameWorkspace,
+  updateConfigFile,
+  type ConfigData,
+  type WorkspaceData,
+  type MountedDatasetEntry,
+  type MountedSiteEntry,
+  type MountedUrlEntry,
+} from "./config.js";
+import {
+  FETCH_TIMEOUT_MS,
+  USER_AGENT,
+  diffLineCounts,
+  fetchAndConvert,
+  htmlToMarkdown,
+  type FetchedPage,
+  type PageMetadata,
+} from "./html.js";
+import { CONVERTIBLE_EXTENSIONS, findConverter, readAsText } from "./converters.js";
+import { startHttpTransport } from "./http.js";
+import { paginateResourceList } from "./paging.js";
+import { commitWrites, preparePatch, readIfExists, withFileLocks } from "./writes.js";
+import {
+  GitError,
+  blame as gitBlame,
+  commitPatch,
+  fileAtRevision,
+  isGitWorkTree,
+  log as gitLog,
+  resolveCommit,
+  showCommit,
+} from "./git.js";
+import { isCliCommand, runCli } from "./cli.js";
+import { crawlSite, type CrawlSummary } from "./crawler.js";
+import { DATASET_EXTENSIONS, datasetFormat, defaultTableName, loadDataset, type DatasetInfo } from "./datasets.js";
+import { watch, type FSWatcher } from "chokidar";
+import {
+  TABLE_PAGE_SIZE,
+  buildSchemaMarkdown,
+  buildTablePageMarkdown,
+  listTablesAndViews,
+  type ColumnInfo,
+} from "./schema.js";
+import {
+  QueryRejectedError,
+  QueryTimeoutError,
+  decodeCursor,
+  encodeCursor,
+  formatRows,
+  runReadOnlyQuery,
+  validateReadOnlySql,
+  type OutputFormat,
+} from "./query.js";
 
 // ──────────────────────────────────────────────
 // Configuration
@@ -16,176 +111,249 @@ import { startDashboard } from "./dashboard.js";
 /** Default directory to watch on first run */
 const DEFAULT_DIR = path.resolve("./test-resources");
 
-/** Extensions we expose as MCP Resources */
+/** Extensions every folder mount exposes as MCP Resources (mounts may add more, e.g. converted formats) */
 const ALLOWED_EXTENSIONS = new Set([".txt", ".md"]);
 
-/** Persistence file – stores mounted paths + URLs across restarts */
+/** Default persistence file – stores mounts across restarts (override with --config / OMNI_MCP_CONFIG) */
 const __filename = fileURLToPath(import.meta.url);
 const PROJECT_ROOT = path.dirname(path.dirname(__filename));
-const CONFIG_FILE = path.join(PROJECT_ROOT, "config.json");
+const DEFAULT_CONFIG_FILE = path.join(PROJECT_ROOT, "config.json");
 
-/** Shape of the config.json file */
-interface MountedUrlEntry {
-  url: string;
-  title: string;
-  content: string;    // Cached Markdown
-  fetchedAt: string;  // ISO timestamp
-}
+/** Full-text search cache – rebuilt incrementally from the mounted sources */
+const SEARCH_INDEX_FILE = path.join(PROJECT_ROOT, "search-index.db");
 
-interface ConfigData {
-  mountedPaths: string[];
-  mountedUrls: MountedUrlEntry[];
-  mountedDatabases: string[];
-}
+/** Audit trail of every tool call and resource read */
+const AUDIT_LOG_FILE = path.join(PROJECT_ROOT, "audit-log.db");
 
-// ──────────────────────────────────────────────
-// HTML → Markdown
-// ──────────────────────────────────────────────
+/** Audit entries older than this are pruned unless --audit-retention-days says otherwise */
+const DEFAULT_AUDIT_RETENTION_DAYS = 90;
 
-const turndown = new TurndownService({
-  headingStyle: "atx",
-  codeBlockStyle: "fenced",
-});
+/** SQLite copies of mounted datasets (CSV / JSON files) – rebuilt from the source files */
+const DATASET_CACHE_DIR = path.join(PROJECT_ROOT, ".dataset-cache");
 
-/** Strip scripts, styles, nav, footer, header from raw HTML */
-function cleanHtml(html: string): string {
-  return html
-    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "")
-    .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, "")
-    .replace(/<nav\b[^<]*(?:(?!<\/nav>)<[^<]*)*<\/nav>/gi, "")
-    .replace(/<footer\b[^<]*(?:(?!<\/footer>)<[^<]*)*<\/footer>/gi, "")
-    .replace(/<header\b[^<]*(?:(?!<\/header>)<[^<]*)*<\/header>/gi, "");
-}
+/** Full reads of files and pages larger than this return a table of contents instead */
+const DEFAULT_MAX_READ_KB = 128;
 
-/** Extract <title> text from HTML */
-function extractTitle(html: string): string {
-  const match = html.match(/<title[^>]*>(.*?)<\/title>/is);
-  return match ? match[1].trim() : "";
-}
+/** Size ceiling for full resource reads, from --max-read-kb; 0 = unlimited */
+let maxReadBytes = DEFAULT_MAX_READ_KB * 1024;
 
-/** Fetch a URL and convert its HTML to Markdown */
-async function fetchAndConvert(url: string): Promise<{ title: string; content: string }> {
-  const res = await fetch(url, {
-    headers: { "User-Agent": "Omni-MCP/2.0 (Resource Fetcher)" },
-  });
-  if (!res.ok) {
-    throw new Error(`HTTP ${res.status} ${res.statusText}`);
-  }
-  const html = await res.text();
-  const title = extractTitle(html) || new URL(url).hostname;
-  const cleaned = cleanHtml(html);
-  const content = turndown.turndown(cleaned);
-  return { title, content };
+// ──────────────────────────────────────────────
+// Web Fetching
+// ──────────────────────────────────────────────
+
+/** "Label: value" lines for whichever page metadata is known */
+function describePageMetadata(meta: Partial<PageMetadata>): string[] {
+  const lines: string[] = [];
+  if (meta.author) lines.push(`Author: ${meta.author}`);
+  if (meta.publishedAt) lines.push(`Published: ${meta.publishedAt}`);
+  if (meta.language) lines.push(`Language: ${meta.language}`);
+  if (meta.canonicalUrl) lines.push(`Canonical: ${meta.canonicalUrl}`);
+  return lines;
 }
 
 // ──────────────────────────────────────────────
 // Mount Registry
 // ──────────────────────────────────────────────
 
-/** Set of absolute paths that are currently mounted */
-const mountedDirs = new Set<string>();
+/** Map of absolute folder path → filter deciding which of its files are exposed */
+const mountedDirs = new Map<string, MountFilter>();
+
+/** Register a folder mount with the given options */
+function addFolderMount(dir: string, options: FolderMountOptions = {}): MountFilter {
+  const filter = new MountFilter(dir, options, ALLOWED_EXTENSIONS);
+  mountedDirs.set(dir, filter);
+  gitMounts.delete(dir);
+  return filter;
+}
+
+/** Mount root → whether it lies inside a git work tree, detected on first use */
+const gitMounts = new Map<string, Promise<boolean>>();
 
 /** Map of URL → cached entry for mounted web pages */
 const mountedUrls = new Map<string, MountedUrlEntry>();
 
-/** Map of absolute DB path → better-sqlite3 Database instance */
+/** Map of site start URL → crawl settings for mounted sites */
+const mountedSites = new Map<string, MountedSiteEntry>();
+
+/** Map of absolute DB path → better-sqlite3 Database instance (datasets: source path → cache DB) */
 const mountedDbs = new Map<string, InstanceType<typeof Database>>();
 
-/** Load previously-persisted mounts from disk */
-async function loadMounts(): Promise<void> {
-  try {
-    const raw = await fs.readFile(CONFIG_FILE, "utf-8");
-    const data: ConfigData = JSON.parse(raw);
-    if (Array.isArray(data.mountedPaths)) {
-      for (const p of data.mountedPaths) {
-        if (typeof p === "string") mountedDirs.add(p);
-      }
-    }
-    if (Array.isArray(data.mountedUrls)) {
-      for (const entry of data.mountedUrls) {
-        if (entry && typeof entry.url === "string") {
-          mountedUrls.set(entry.url, entry);
-        }
-      }
+/** Live state of a mounted dataset */
+interface DatasetMount extends MountedDatasetEntry {
+  info: DatasetInfo;
+  loadedAt: string;
+  watcher?: FSWatcher;
+  lastError?: string;
+}
+
+/** Map of absolute source file path → dataset loaded from it */
+const mountedDatasets = new Map<string, DatasetMount>();
+
+/** Config file in use — --config, OMNI_MCP_CONFIG, or config.json next to the project */
+let configFile = DEFAULT_CONFIG_FILE;
+
+/** Workspace whose mounts are loaded into the registry above */
+let activeWorkspace = DEFAULT_WORKSPACE;
+
+/** The active workspace as last read from or written to disk — the base for merges */
+let syncedWorkspace: WorkspaceData = emptyWorkspace();
+
+/** Fill the (empty) registry from a workspace's saved mounts */
+function restoreWorkspace(workspace: WorkspaceData): void {
+  syncedWorkspace = workspace;
+  for (const { path: dir, ...options } of workspace.mountedPaths) {
+    addFolderMount(dir, options);
+  }
+  for (const entry of workspace.mountedUrls) {
+    mountedUrls.set(entry.url, entry);
+  }
+  for (const dbPath of workspace.mountedDatabases) {
+    try {
+      const db = new Database(dbPath, { readonly: true });
+      mountedDbs.set(dbPath, db);
+    } catch {
+      // DB file may have been removed — skip silently
     }
-    if (Array.isArray(data.mountedDatabases)) {
-      for (const dbPath of data.mountedDatabases) {
-        if (typeof dbPath === "string") {
-          try {
-            const db = new Database(dbPath, { readonly: true });
-            mountedDbs.set(dbPath, db);
-          } catch {
-            // DB file may have been removed — skip silently
-          }
-        }
-      }
+  }
+  for (const site of workspace.mountedSites) {
+    mountedSites.set(site.url, site);
+  }
+  for (const entry of workspace.mountedDatasets) {
+    try {
+      openDataset(entry.path, entry.table);
+    } catch {
+      // Source file may have been removed or broken — skip silently
     }
-  } catch {
-    // File doesn't exist yet or is invalid – that's fine
   }
+
+  // The sample folder belongs to the default workspace only
+  if (activeWorkspace === DEFAULT_WORKSPACE && !mountedDirs.has(DEFAULT_DIR)) addFolderMount(DEFAULT_DIR);
 }
 
-/** Persist the current mount set to disk */
-async function saveConfig(): Promise<void> {
+/** Snapshot of the registry in its persisted form */
+function currentWorkspace(): WorkspaceData {
+  return {
+    mountedPaths: [...mountedDirs.values()].map((f) => ({ path: f.root, ...f.options })),
+    mountedUrls: [...mountedUrls.values()],
+    mountedDatabases: [...mountedDbs.keys()].filter((p) => !mountedDatasets.has(p)),
+    mountedSites: [...mountedSites.values()],
+    mountedDatasets: [...mountedDatasets.values()].map(({ path, table }) => ({ path, table })),
+  };
+}
+
+/**
+ * Load previously-persisted mounts from disk. `workspace` overrides the one
+ * recorded in the config; a workspace that does not exist yet starts empty.
+ */
+async function loadMounts(workspace?: string): Promise<void> {
+  let config: ConfigData;
+  let migratedFrom: number | undefined;
   try {
-    const config: ConfigData = {
-      mountedPaths: [...mountedDirs],
-      mountedUrls: [...mountedUrls.values()],
-      mountedDatabases: [...mountedDbs.keys()],
-    };
-    await fs.writeFile(CONFIG_FILE, JSON.stringify(config, null, 2), "utf-8");
+    ({ config, migratedFrom } = await loadConfig(configFile));
   } catch (err) {
-    console.error(`⚠️  Failed to save config: ${err}`);
+    // Without a backup there is nothing safe to fall back to — refuse to start rather than overwrite it
+    if (!(err instanceof ConfigError) || !err.backupPath) throw err;
+    console.error(
+      `\n❌ Could not load config: ${err.message}\n` +
+        `   The file was backed up to ${err.backupPath}.\n` +
+        `   Starting with no saved mounts — the next change will overwrite ${configFile}.\n`,
+    );
+    config = emptyConfig();
   }
-}
 
-/** Helper: get UrlInfo[] for event bus */
-function getUrlInfos(): UrlInfo[] {
-  return [...mountedUrls.values()].map((e) => ({ url: e.url, title: e.title }));
+  activeWorkspace = workspace ?? config.activeWorkspace;
+  restoreWorkspace(config.workspaces[activeWorkspace] ?? emptyWorkspace());
+
+  if (migratedFrom !== undefined) {
+    await saveConfig();
+    console.error(`🔄 Migrated ${configFile} from config version ${migratedFrom} to ${CONFIG_VERSION}.`);
+  }
 }
 
-// ──────────────────────────────────────────────
-// File Helpers
-// ──────────────────────────────────────────────
+/** Serializes config reads and writes so an older snapshot never lands after a newer one */
+let configWrite: Promise<void> = Promise.resolve();
+
+/** Run `task` once every config operation queued before it has finished */
+function queueConfigTask<T>(task: () => Promise<T>): Promise<T> {
+  const run = configWrite.then(task);
+  configWrite = run.then(
+    () => {},
+    () => {},
+  );
+  return run;
+}
 
-/** Recursively collect all files matching ALLOWED_EXTENSIONS under `dir` */
-async function collectFiles(dir: string): Promise<string[]> {
-  const results: string[] = [];
+/**
+ * Re-read the config, apply `change` and write it back. Other workspaces may
+ * have been saved by another process since we loaded, so we never write from
+ * memory alone.
+ */
+function updateConfig(change: (config: ConfigData) => boolean | void): Promise<void> {
+  return queueConfigTask(() => updateConfigFile(configFile, change));
+}
 
-  async function walk(current: string) {
-    let entries;
-    try {
-      entries = await fs.readdir(current, { withFileTypes: true });
-    } catch {
-      return;
-    }
-    for (const entry of entries) {
-      const fullPath = path.join(current, entry.name);
-      if (entry.isDirectory()) {
-        await walk(fullPath);
-      } else if (ALLOWED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
-        results.push(fullPath);
-      }
-    }
-  }
+/**
+ * Merge the active workspace with its copy on disk: our changes since the last
+ * sync are written, and changes other processes made (e.g. the CLI) are
+ * mounted or closed here. `claimActive` also records this workspace as the
+ * one to start in next time.
+ */
+async function syncWorkspace(claimActive: boolean): Promise<void> {
+  const name = activeWorkspace;
+  let ours = currentWorkspace();
+  let merged = ours;
+  await updateConfigFile(configFile, (config) => {
+    ours = currentWorkspace();
+    const theirs = config.workspaces[name] ?? emptyWorkspace();
+    merged = mergeWorkspaces(syncedWorkspace, ours, theirs);
+
+    const unchanged = sameWorkspace(merged, theirs);
+    if (!claimActive && unchanged) return false;
+    if (claimActive && unchanged && config.workspaces[name] && config.activeWorkspace === name) return false;
+    config.workspaces[name] = merged;
+    if (claimActive) config.activeWorkspace = name;
+  });
+  syncedWorkspace = merged;
+  await applyWorkspaceChanges(ours, merged);
+}
 
-  await walk(dir);
-  return results;
+/** Persist the current mount set to disk as the active workspace */
+function saveConfig(): Promise<void> {
+  return queueConfigTask(() => syncWorkspace(true)).catch((err) => {
+    console.error(`⚠️  Failed to save config: ${err}`);
+  });
 }
 
-/** Collect files across ALL mounted directories */
-async function collectAllFiles(): Promise<string[]> {
-  const all: string[] = [];
-  for (const dir of mountedDirs) {
-    const files = await collectFiles(dir);
-    all.push(...files);
+/** Helper: get UrlInfo[] for event bus — each crawled site collapses into one entry */
+function getUrlInfos(): UrlInfo[] {
+  const pages = [...mountedUrls.values()];
+  const infos: UrlInfo[] = pages
+    .filter((e) => !e.site)
+    .map((e) => ({ url: e.url, title: e.title, stale: e.stale === true }));
+
+  for (const site of mountedSites.values()) {
+    const sitePages = pages.filter((e) => e.site === site.url);
+    infos.push({
+      url: site.url,
+      title: `📚 ${new URL(site.url).hostname} (${sitePages.length} pages)`,
+      stale: sitePages.some((e) => e.stale),
+    });
   }
-  return all;
+  return infos;
+}
+
+// ──────────────────────────────────────────────
+// File Helpers
+// ──────────────────────────────────────────────
+
+/** Recursively collect all files the mount's filter exposes under `dir` */
+function collectFiles(dir: string): Promise<string[]> {
+  return (mountedDirs.get(dir) ?? new MountFilter(dir, {}, ALLOWED_EXTENSIONS)).scan();
 }
 
 /** Derive a human-friendly resource name from a file path */
 function fileToResourceName(filePath: string): string {
-  for (const dir of mountedDirs) {
+  for (const dir of mountedDirs.keys()) {
     if (filePath.startsWith(dir)) {
       const dirBasename = path.basename(dir);
       const rel = path.relative(dir, filePath);
@@ -195,10 +363,37 @@ function fileToResourceName(filePath: string): string {
   return path.basename(filePath);
 }
 
-/** Guess a MIME type based on extension */
+/** Resource description, noting the original format of converted documents */
+function describeFile(filePath: string): string {
+  const converter = findConverter(filePath);
+  const name = fileToResourceName(filePath);
+  return converter ? `Local file: ${name} (${converter.format}, converted to Markdown)` : `Local file: ${name}`;
+}
+
+/** resources/list entries for the file index, rebuilt only when the index changes */
+let fileResourceCache: { files: readonly string[]; resources: Resource[] } | undefined;
+
+function fileResources(): Resource[] {
+  const files = fileWatcher.allFiles();
+  if (fileResourceCache?.files !== files) {
+    fileResourceCache = {
+      files,
+      resources: files.map((f) => ({
+        uri: `file:///${f}`,
+        name: fileToResourceName(f),
+        description: describeFile(f),
+        mimeType: mimeType(f),
+      })),
+    };
+  }
+  return fileResourceCache.resources;
+}
+
+/** Guess a MIME type based on extension (converted documents are served as Markdown) */
 function mimeType(filePath: string): string {
   const ext = path.extname(filePath).toLowerCase();
-  if (ext === ".md") return "text/markdown";
+  if (ext === ".md" || findConverter(filePath)) return "text/markdown";
+  if (ext === ".json") return "application/json";
   return "text/plain";
 }
 
@@ -206,617 +401,3290 @@ function mimeType(filePath: string): string {
 // SQLite Helpers
 // ──────────────────────────────────────────────
 
-interface ColumnInfo {
-  cid: number;
-  name: string;
-  type: string;
-  notnull: number;
-  dflt_value: string | null;
-  pk: number;
+/** query_sqlite row cap and time budget: defaults and the most a caller may ask for */
+const QUERY_DEFAULT_MAX_ROWS = 100;
+const QUERY_MAX_ROWS_LIMIT = 10_000;
+const QUERY_DEFAULT_TIMEOUT_MS = 5_000;
+const QUERY_MAX_TIMEOUT_MS = 60_000;
+
+/** URI of one page of a table resource; page 1 is the bare URI */
+function sqliteTableUri(dbPath: string, table: string, page = 1): string {
+  return `sqlite-table:///${dbPath}/${encodeURIComponent(table)}${page > 1 ? `?page=${page}` : ""}`;
 }
 
-/** Build a Markdown schema description for a database */
-function buildSchemaMarkdown(db: InstanceType<typeof Database>): string {
-  const tables = db
-    .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
-    .all() as { name: string }[];
+// ──────────────────────────────────────────────
+// Datasets
+// ──────────────────────────────────────────────
 
-  if (tables.length === 0) return "_No tables found._";
+/** Cache DB file for a dataset, stable across restarts */
+function datasetCachePath(sourcePath: string): string {
+  const hash = createHash("sha1").update(sourcePath).digest("hex").slice(0, 16);
+  return path.join(DATASET_CACHE_DIR, `${hash}.db`);
+}
 
-  const lines: string[] = [];
-  for (const { name } of tables) {
-    lines.push(`## Table: \`${name}\``);
-    lines.push("");
-    lines.push("| Column | Type | NOT NULL | PK | Default |");
-    lines.push("|--------|------|----------|----|---------|");
-
-    const cols = db.prepare(`PRAGMA table_info("${name}")`).all() as ColumnInfo[];
-    for (const col of cols) {
-      lines.push(
-        `| \`${col.name}\` | ${col.type || "ANY"} | ${col.notnull ? "✓" : ""} | ${col.pk ? "✓" : ""} | ${col.dflt_value ?? ""} |`,
-      );
-    }
-    lines.push("");
-  }
-  return lines.join("\n");
+/**
+ * (Re)load a dataset into its cache DB and swap the new connection into
+ * mountedDbs. Throws if the file cannot be parsed; the previous load stays live.
+ */
+function openDataset(sourcePath: string, table: string): DatasetInfo {
+  const cachePath = datasetCachePath(sourcePath);
+  const info = loadDataset(sourcePath, cachePath, table);
+
+  const previous = mountedDbs.get(sourcePath);
+  mountedDbs.set(sourcePath, new Database(cachePath, { readonly: true }));
+  previous?.close();
+
+  const existing = mountedDatasets.get(sourcePath);
+  mountedDatasets.set(sourcePath, {
+    path: sourcePath,
+    table,
+    info,
+    loadedAt: new Date().toISOString(),
+    watcher: existing?.watcher ?? watchDataset(sourcePath),
+  });
+  return info;
+}
+
+/** Reload a dataset whenever its source file is rewritten */
+function watchDataset(sourcePath: string): FSWatcher {
+  let timer: NodeJS.Timeout | undefined;
+  const reload = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const mount = mountedDatasets.get(sourcePath);
+      if (!mount) return;
+      try {
+        openDataset(sourcePath, mount.table);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        mountedDatasets.set(sourcePath, { ...mount, lastError: message });
+        console.error(`⚠️  Failed to reload dataset ${sourcePath}: ${message}`);
+        return;
+      }
+      bus.sqliteChange([...mountedDbs.keys()]);
+      broadcastListChanged();
+      notifyResourceUpdated(`sqlite:///${sourcePath}`);
+      void refreshSearchIndex(["sqlite"]);
+    }, 250);
+  };
+
+  const watcher = watch(sourcePath, {
+    ignoreInitial: true,
+    awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
+  });
+  // Editors that save atomically replace the file, which shows up as unlink + add
+  watcher.on("change", reload);
+  watcher.on("add", reload);
+  watcher.on("error", (err) => console.error(`⚠️  Watcher error for dataset ${sourcePath}: ${err}`));
+  return watcher;
+}
+
+/** Stop watching a dataset and discard its cache */
+async function closeDataset(sourcePath: string): Promise<void> {
+  const mount = mountedDatasets.get(sourcePath);
+  if (!mount) return;
+  mountedDatasets.delete(sourcePath);
+  await mount.watcher?.close();
+  await fs.rm(datasetCachePath(sourcePath), { force: true });
 }
 
 // ──────────────────────────────────────────────
-// MCP Server
+// Search Index
 // ──────────────────────────────────────────────
 
-const server = new McpServer({
-  name: "omni-mcp",
-  version: "3.0.0",
-});
+/** Opened by main() once a server is starting, so CLI subcommands never create the file */
+let searchIndex: SearchIndex;
 
-// ─── Resource Template: Local Files ─────────
+/** Maximum rows per table pulled into the search index */
+const SEARCH_MAX_ROWS_PER_TABLE = 5000;
 
-server.resource(
-  "local-files",
-  new ResourceTemplate("file:///{+path}", {
-    list: async () => {
-      const files = await collectAllFiles();
-      return {
-        resources: files.map((f) => ({
-          uri: `file:///${f}`,
-          name: fileToResourceName(f),
-          description: `Local file: ${fileToResourceName(f)}`,
-          mimeType: mimeType(f),
-        })),
-      };
-    },
-  }),
-  {
-    description: "Exposes .txt and .md files from all mounted directories",
-  },
-  async (uri, variables) => {
-    const filePath = "/" + (variables.path as string);
+/** Build index documents for every mounted file */
+async function fileDocuments(): Promise<IndexDocument[]> {
+  const docs: IndexDocument[] = [];
+  for (const f of fileWatcher.allFiles()) {
+    const real = await exposedRealPath(mountedDirs.values(), f);
+    if (real === undefined) continue;
+    let stat;
+    try {
+      stat = await fs.stat(real);
+    } catch {
+      continue;
+    }
+    docs.push({
+      uri: `file:///${f}`,
+      kind: "file",
+      name: fileToResourceName(f),
+      version: `${stat.mtimeMs}:${stat.size}`,
+      // Checked again at load time — a symlink may have been re-pointed since
+      load: async () => {
+        const current = await exposedRealPath(mountedDirs.values(), f);
+        if (current === undefined) throw new Error(`${f} resolves outside its mount`);
+        return readAsText(current);
+      },
+    });
+  }
+  return docs;
+}
 
-    // Notify dashboard — flash activity indicator
-    bus.resourceRead(path.basename(filePath));
+/** Build index documents for every cached web page */
+function urlDocuments(): IndexDocument[] {
+  return [...mountedUrls.values()].map((entry) => ({
+    uri: `web:///${entry.url}`,
+    kind: "url" as const,
+    name: `🌐 ${entry.title}`,
+    version: entry.fetchedAt,
+    load: () => entry.content,
+  }));
+}
 
-    let content: string;
+/** Build one index document per table, one line per row of its text columns */
+async function sqliteDocuments(): Promise<IndexDocument[]> {
+  const docs: IndexDocument[] = [];
+  for (const [dbPath, db] of mountedDbs) {
+    let stat;
     try {
-      content = await fs.readFile(filePath, "utf-8");
+      stat = await fs.stat(dbPath);
     } catch {
-      return {
-        contents: [
-          {
-            uri: uri.href,
-            mimeType: "text/plain",
-            text: `[Error] Unable to read file: ${filePath}`,
-          },
-        ],
-      };
+      continue;
     }
+    const tables = db
+      .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+      .all() as { name: string }[];
 
-    return {
-      contents: [
-        {
-          uri: uri.href,
-          mimeType: mimeType(filePath),
-          text: content,
+    for (const { name } of tables) {
+      const cols = (db.prepare(`PRAGMA table_info("${name}")`).all() as ColumnInfo[]).filter(
+        (c) => c.type === "" || /CHAR|CLOB|TEXT/i.test(c.type),
+      );
+      if (cols.length === 0) continue;
+
+      docs.push({
+        uri: `sqlite:///${dbPath}#${name}`,
+        kind: "sqlite",
+        name: `🗄️ ${path.basename(dbPath)} › ${name}`,
+        version: `${stat.mtimeMs}:${stat.size}`,
+        load: () => {
+          const select = cols.map((c) => `"${c.name}"`).join(", ");
+          const rows = db
+            .prepare(`SELECT ${select} FROM "${name}" LIMIT ${SEARCH_MAX_ROWS_PER_TABLE}`)
+            .raw()
+            .all() as unknown[][];
+          return rows
+            .map((r) => r.map((v) => (typeof v === "string" ? v.replace(/\s+/g, " ") : "")).join(" | "))
+            .join("\n");
         },
-      ],
-    };
+      });
+    }
   }
-);
+  return docs;
+}
 
-// ─── Resource Template: Web Pages ───────────
+/** Serializes index syncs so overlapping refreshes never interleave */
+let searchSync: Promise<void> = Promise.resolve();
+
+/** Re-index whatever changed in the given source kinds */
+function refreshSearchIndex(kinds: SourceKind[]): Promise<void> {
+  searchSync = searchSync
+    .then(async () => {
+      if (kinds.includes("file")) await searchIndex.sync(["file"], await fileDocuments());
+      if (kinds.includes("url")) await searchIndex.sync(["url"], urlDocuments());
+      if (kinds.includes("sqlite")) await searchIndex.sync(["sqlite"], await sqliteDocuments());
+    })
+    .catch((err) => {
+      console.error(`⚠️  Failed to update search index: ${err}`);
+    });
+  return searchSync;
+}
 
-server.resource(
-  "web-pages",
-  new ResourceTemplate("web:///{+url}", {
-    list: async () => ({
-      resources: [...mountedUrls.values()].map((entry) => ({
-        uri: `web:///${entry.url}`,
-        name: `🌐 ${entry.title}`,
-        description: `Web page: ${entry.url}`,
-        mimeType: "text/markdown" as const,
-      })),
-    }),
-  }),
-  {
-    description: "Web pages fetched and converted to Markdown",
-  },
-  async (uri, variables) => {
-    const url = variables.url as string;
-    const entry = mountedUrls.get(url) ?? mountedUrls.get(`https://${url}`);
+// ──────────────────────────────────────────────
+// Audit Log
+// ──────────────────────────────────────────────
 
-    // Notify dashboard
-    bus.resourceRead(`🌐 ${entry?.title ?? url}`);
+/** Opened by main() alongside the search index */
+let auditLog: AuditLog;
 
-    if (!entry) {
-      return {
-        contents: [
-          {
-            uri: uri.href,
-            mimeType: "text/plain" as const,
-            text: `[Error] URL not mounted: ${url}`,
-          },
-        ],
-      };
-    }
+/** How often old audit entries are pruned */
+const AUDIT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
 
-    return {
-      contents: [
-        {
-          uri: uri.href,
-          mimeType: "text/markdown" as const,
-          text: `# ${entry.title}\n\n> Source: ${entry.url}  \n> Fetched: ${entry.fetchedAt}\n\n---\n\n${entry.content}`,
-        },
-      ],
-    };
-  }
-);
+/** Entries shown by the audit://log resource */
+const AUDIT_RESOURCE_ROWS = 100;
 
-// ─── Resource Template: SQLite Schema ───────
+/** Most entries query_audit_log returns in one call */
+const AUDIT_MAX_ROWS = 1000;
 
-server.resource(
-  "sqlite-schema",
-  new ResourceTemplate("sqlite:///{+dbPath}", {
-    list: async () => ({
-      resources: [...mountedDbs.keys()].map((dbPath) => ({
-        uri: `sqlite:///${dbPath}`,
-        name: `🗄️ ${path.basename(dbPath)} schema`,
-        description: `Schema for SQLite database: ${dbPath}`,
-        mimeType: "text/markdown" as const,
-      })),
-    }),
-  }),
-  {
-    description: "Auto-exposed schema of mounted SQLite databases",
-  },
-  async (uri, variables) => {
-    const dbPath = "/" + (variables.dbPath as string);
+/** Handler arguments end with the SDK's request context */
+interface RequestExtra {
+  sessionId?: string;
+}
 
-    bus.resourceRead(`🗄️ ${path.basename(dbPath)} schema`);
+type Handler = (...args: unknown[]) => unknown;
 
-    const db = mountedDbs.get(dbPath);
-    if (!db) {
-      return {
-        contents: [
-          {
-            uri: uri.href,
-            mimeType: "text/plain" as const,
-            text: `[Error] Database not mounted: ${dbPath}`,
-          },
-        ],
-      };
-    }
+/** Total payload size of a tool result or resource read */
+function resultBytes(result: unknown): number {
+  const { content = [], contents = [] } = (result ?? {}) as {
+    content?: { text?: string; data?: string }[];
+    contents?: { text?: string; blob?: string }[];
+  };
+  let bytes = 0;
+  for (const item of [...content, ...contents]) {
+    const text = "text" in item ? item.text : "data" in item ? item.data : "blob" in item ? item.blob : undefined;
+    if (typeof text === "string") bytes += Buffer.byteLength(text);
+  }
+  return bytes;
+}
 
-    const schema = buildSchemaMarkdown(db);
+/** Failure message of a tool result — tools report errors as "❌ …" text rather than throwing */
+function toolError(result: unknown): string | undefined {
+  const { content = [], isError } = (result ?? {}) as { content?: { text?: string }[]; isError?: boolean };
+  const first = content[0]?.text ?? "";
+  if (!isError && !first.startsWith("❌")) return undefined;
+  return first.replace(/^❌\s*/, "").split("\n")[0];
+}
 
-    return {
-      contents: [
-        {
-          uri: uri.href,
-          mimeType: "text/markdown" as const,
-          text: `# Schema: ${path.basename(dbPath)}\n\n> Path: \`${dbPath}\`\n\n${schema}`,
-        },
-      ],
-    };
+/** SQL text carried by a tool call, either directly or inside a query_sqlite cursor */
+function sqlOf(input: unknown): string | undefined {
+  const { sql, cursor } = (input ?? {}) as { sql?: unknown; cursor?: unknown };
+  if (typeof sql === "string") return sql;
+  if (typeof cursor !== "string") return undefined;
+  try {
+    return decodeCursor(cursor).sql;
+  } catch {
+    return undefined;
   }
-);
+}
 
-// ─── Shared folder mount handler ────────────
+/** Mount root a path lies under — the longest match wins for nested mounts */
+function mountContaining(roots: Iterable<string>, target: string): string | undefined {
+  let best: string | undefined;
+  for (const root of roots) {
+    if (target !== root && !target.startsWith(root.endsWith(path.sep) ? root : root + path.sep)) continue;
+    if (!best || root.length > best.length) best = root;
+  }
+  return best;
+}
 
-const mountSchema = {
-  path: z.string().describe("Absolute path to the folder to mount, e.g. /Users/you/Documents"),
-};
+/** Key a resource read is counted under, plus the mounted source it came from */
+function resourceUsage(uri: URL): { uri: string; source?: string } {
+  const target = decodeURIComponent(uri.pathname.slice(1));
+  switch (uri.protocol) {
+    case "file:":
+      // Ranged reads count towards the whole file
+      return { uri: takeRangeParams(uri.href).rest, source: mountContaining(mountedDirs.keys(), target) };
+    case "web:": {
+      const { entry } = findMountedPage(uri.href.slice("web:///".length));
+      return { uri: entry ? `web:///${entry.url}` : uri.href, source: entry ? (entry.site ?? entry.url) : undefined };
+    }
+    case "git-log:":
+    case "git-diff:":
+    case "git-blame:":
+    case "git-file:":
+      // One key per revision; ranged reads count towards the whole resource
+      return { uri: takeRangeParams(uri.href).rest, source: mountContaining(mountedDirs.keys(), target) };
+    case "sqlite:":
+    case "sqlite-table:":
+      // Table pages share one key
+      return { uri: uri.href.replace(/\?.*$/, ""), source: mountContaining(mountedDbs.keys(), target) };
+    default:
+      return { uri: uri.href };
+  }
+}
 
-const MOUNT_DESCRIPTION =
-  "Mount a local folder so its .txt and .md files become readable resources. " +
-  "The mount is persisted across server restarts.";
+/**
+ * Wrap a tool or resource handler so each invocation is written to the audit
+ * log with its duration, payload size and outcome, and reported to the usage
+ * metrics. Failures to record are reported but never fail the request itself.
+ */
+function audited(server: McpServer, kind: AuditKind, name: string, handler: Handler): Handler {
+  return async (...args: unknown[]) => {
+    const extra = args[args.length - 1] as RequestExtra | undefined;
+    const input = args.length > 1 ? args[0] : undefined;
+    const started = performance.now();
+
+    const record = (outcome: { bytes: number; error?: string }) => {
+      const durationMs = performance.now() - started;
+      const clientInfo = server.server.getClientVersion();
+      try {
+        auditLog.record({
+          session: extra?.sessionId ?? "stdio",
+          client: clientInfo ? `${clientInfo.name}/${clientInfo.version}` : "unknown",
+          kind,
+          name,
+          target: kind === "resource" ? String(input) : JSON.stringify(input ?? {}),
+          sql: kind === "tool" ? sqlOf(input) : undefined,
+          bytes: outcome.bytes,
+          durationMs,
+          outcome: outcome.error === undefined ? "ok" : "error",
+          error: outcome.error,
+        });
+      } catch (err) {
+        console.error(`⚠️  Failed to write audit entry: ${err}`);
+      }
+      bus.operation({
+        kind,
+        name,
+        ...(kind === "resource" && input instanceof URL && resourceUsage(input)),
+        bytes: outcome.bytes,
+        durationMs,
+        error: outcome.error,
+      });
+    };
 
-async function handleMount({ path: inputPath }: { path: string }) {
-  const resolvedPath = path.resolve(inputPath);
+    try {
+      const result = await handler(...args);
+      record({ bytes: resultBytes(result), error: kind === "tool" ? toolError(result) : undefined });
+      return result;
+    } catch (err) {
+      record({ bytes: 0, error: (err instanceof Error ? err.message : String(err)).split("\n")[0] });
+      throw err;
+    }
+  };
+}
 
-  // Validate that the path exists and is a directory
-  try {
-    const stat = await fs.stat(resolvedPath);
-    if (!stat.isDirectory()) {
-      return {
-        content: [{ type: "text" as const, text: `❌ "${resolvedPath}" is not a directory.` }],
-      };
+/** Route every tool and resource registered on `server` through the audit log */
+function auditRegistrations(server: McpServer): void {
+  const tool = server.tool.bind(server) as (...args: unknown[]) => ReturnType<McpServer["tool"]>;
+  server.tool = ((...args: unknown[]) => {
+    const handler = args.pop() as Handler;
+    return tool(...args, audited(server, "tool", args[0] as string, handler));
+  }) as McpServer["tool"];
+
+  const resource = server.resource.bind(server) as (...args: unknown[]) => ReturnType<McpServer["resource"]>;
+  server.resource = ((...args: unknown[]) => {
+    const handler = args.pop() as Handler;
+    return resource(...args, audited(server, "resource", args[0] as string, handler));
+  }) as McpServer["resource"];
+}
+
+/** Prune now and then periodically; 0 keeps entries forever */
+function startAuditRetention(retentionDays: number): void {
+  if (retentionDays <= 0) return;
+  const prune = () => {
+    try {
+      auditLog.prune(retentionDays);
+    } catch (err) {
+      console.error(`⚠️  Failed to prune audit log: ${err}`);
     }
-  } catch {
-    return {
-      content: [{ type: "text" as const, text: `❌ Path "${resolvedPath}" does not exist.` }],
-    };
+  };
+  prune();
+  setInterval(prune, AUDIT_PRUNE_INTERVAL_MS).unref();
+}
+
+/** Parse a date or date-time filter into the ISO form entries are stored in */
+function parseAuditTime(value: string, label: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${label} "${value}" — use an ISO date such as 2024-05-01 or 2024-05-01T12:00:00Z`);
+  return date.toISOString();
+}
+
+/** Markdown overview of the most recent audit entries, served as audit://log */
+function buildAuditMarkdown(limit: number): string {
+  const since = new Date(Date.now() - 86_400_000).toISOString();
+  const { entries, total } = auditLog.query({}, limit);
+  const summary = auditLog.summarize({ since });
+
+  const lines = [`# Audit Log`, "", `${total} entr${total === 1 ? "y" : "ies"} retained.`, ""];
+
+  lines.push("## Last 24 hours", "");
+  if (summary.length === 0) {
+    lines.push("_No activity._");
+  } else {
+    lines.push(
+      formatRows(
+        ["kind", "name", "calls", "errors", "bytes", "avgMs"],
+        summary as unknown as Record<string, unknown>[],
+        "markdown",
+      ),
+    );
   }
 
-  // Check if already mounted (duplicate detection)
-  if (mountedDirs.has(resolvedPath)) {
-    const files = await collectFiles(resolvedPath);
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text:
-            `⚠️  "${resolvedPath}" is already mounted — skipping duplicate.\n` +
-            `📄 ${files.length} resource file(s) already available.`,
-        },
-      ],
-    };
+  lines.push("", `## Most recent ${Math.min(limit, total)}`, "");
+  if (entries.length === 0) {
+    lines.push("_No entries._");
+  } else {
+    lines.push(formatAuditEntries(entries as unknown as Record<string, unknown>[], "markdown"));
   }
+  return lines.join("\n");
+}
 
-  // Mount it
-  mountedDirs.add(resolvedPath);
-  await saveConfig();
-  bus.mountChange([...mountedDirs]);
+const AUDIT_COLUMNS = ["ts", "session", "client", "kind", "name", "target", "sql", "bytes", "durationMs", "outcome", "error"];
 
-  const files = await collectFiles(resolvedPath);
-  const fileList =
-    files.length > 0
-      ? files.map((f) => `  • ${fileToResourceName(f)}`).join("\n")
-      : "  (no .txt or .md files found)";
+function formatAuditEntries(entries: Record<string, unknown>[], format: OutputFormat): string {
+  const rows = entries.map((e) => Object.fromEntries(AUDIT_COLUMNS.map((c) => [c, e[c] ?? null])));
+  return formatRows(AUDIT_COLUMNS, rows, format);
+}
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text:
-          `✅ Successfully mounted "${resolvedPath}".\n` +
-          `📄 Found ${files.length} resource file(s):\n${fileList}\n\n` +
-          `These files are now available as resources. Use resources/list to browse them.`,
-      },
-    ],
+// ──────────────────────────────────────────────
+// Usage Metrics
+// ──────────────────────────────────────────────
+
+/** Markdown report of the usage counters, listing the `top` busiest sources and resources */
+function buildStatsMarkdown(snapshot: MetricsSnapshot, top: number): string {
+  const { totals } = snapshot;
+  const lines = [
+    "# Usage Stats",
+    "",
+    `Since ${snapshot.since}: ${totals.resourceReads} resource read(s), ${totals.toolCalls} tool call(s), ` +
+      `${totals.errors} error(s), ${formatSize(totals.bytes)} served.`,
+  ];
+
+  const section = (title: string, columns: string[], rows: object[], total: number) => {
+    lines.push("", total > rows.length ? `## ${title} (top ${rows.length} of ${total})` : `## ${title}`, "");
+    lines.push(rows.length === 0 ? "_None yet._" : formatRows(columns, rows as Record<string, unknown>[], "markdown"));
   };
+
+  section("Sources", ["source", "reads", "bytes", "errors"], snapshot.sources.slice(0, top), snapshot.sources.length);
+  section("Resources", ["uri", "reads", "bytes", "errors"], snapshot.resources.slice(0, top), snapshot.resources.length);
+  section(
+    "Handlers",
+    ["kind", "name", "calls", "errors", "bytes", "p50Ms", "p90Ms", "p99Ms", "maxMs"],
+    snapshot.handlers.map((h) => ({
+      kind: h.kind,
+      name: h.name,
+      calls: h.calls,
+      errors: h.errors,
+      bytes: h.bytes,
+      p50Ms: Math.round(h.latency.p50),
+      p90Ms: Math.round(h.latency.p90),
+      p99Ms: Math.round(h.latency.p99),
+      maxMs: Math.round(h.latency.max),
+    })),
+    snapshot.handlers.length,
+  );
+  return lines.join("\n");
+}
+
+// ──────────────────────────────────────────────
+// Sessions & Change Notifications
+// ──────────────────────────────────────────────
+
+/** One connected client: its MCP server and the resources it subscribed to */
+interface Session {
+  server: McpServer;
+  subscriptions: Set<string>;
+  /** write_file, append_file and apply_patch — enabled only while a mount is writable */
+  writeTools: RegisteredTool[];
 }
 
-// ─── Tool: mount_folder ─────────────────────
+/** Every live client session — all of them share the mount registry above */
+const sessions = new Set<Session>();
+
+let listChangedTimer: NodeJS.Timeout | undefined;
+let searchRefreshTimer: NodeJS.Timeout | undefined;
+
+/** Tell every connected client that the resource list changed */
+function broadcastListChanged(): void {
+  for (const { server } of sessions) server.sendResourceListChanged();
+}
+
+/** Coalesce bursts of adds/removes (e.g. a git checkout) into one notification */
+function scheduleListChanged(): void {
+  clearTimeout(listChangedTimer);
+  listChangedTimer = setTimeout(broadcastListChanged, 250);
+}
+
+/** Tell every client subscribed to `uri` that it changed */
+function notifyResourceUpdated(uri: string): void {
+  for (const { server, subscriptions } of sessions) {
+    if (!subscriptions.has(uri) || !server.isConnected()) continue;
+    server.server.sendResourceUpdated({ uri }).catch((err) => {
+      console.error(`⚠️  Failed to send resource update: ${err}`);
+    });
+  }
+}
+
+function handleFileChange(kind: FileChangeKind, filePath: string): void {
+  bus.fileChange({ kind, fileName: fileToResourceName(filePath) });
+
+  if (kind !== "change") scheduleListChanged();
+  notifyResourceUpdated(`file:///${filePath}`);
+
+  clearTimeout(searchRefreshTimer);
+  searchRefreshTimer = setTimeout(() => void refreshSearchIndex(["file"]), 1000);
+}
+
+const fileWatcher = new FileWatcher({
+  scan: collectFiles,
+  accepts: async (dir, filePath) => {
+    const filter = mountedDirs.get(dir);
+    return filter !== undefined && filter.allowsFile(filePath) && (await filter.resolvesInside(filePath));
+  },
+  skipsDir: (dir, dirPath) => !(mountedDirs.get(dir)?.allowsDir(dirPath) ?? true),
+  onChange: handleFileChange,
+  isIgnoreFile: (dir, filePath) => mountedDirs.get(dir)?.isIgnoreFile(filePath) ?? false,
+  resetIgnoreFiles: (dir, folder) => mountedDirs.get(dir)?.resetIgnoreFiles(folder),
+  loadIgnoreFiles: async (dir, folder) => mountedDirs.get(dir)?.loadIgnoreFiles(folder),
+});
+
+// ──────────────────────────────────────────────
+// Ranged Reads
+// ──────────────────────────────────────────────
+
+/** Most headings / chunks listed in a table of contents */
+const TOC_MAX_ENTRIES = 200;
+
+/** Text of a file or web page resource, as a full read returns it */
+interface ResourceText {
+  label: string;
+  mimeType: string;
+  text: string;
+}
+
+/** Read (and convert) a mounted file, given the path part of its URI */
+async function loadFileText(rawPath: string): Promise<ResourceText> {
+  const filePath = await resolveMountedFile(mountedDirs.values(), rawPath);
+
+  // Notify dashboard — flash activity indicator
+  bus.resourceRead(path.basename(filePath));
+
+  try {
+    return { label: fileToResourceName(filePath), mimeType: mimeType(filePath), text: await readAsText(filePath) };
+  } catch (err) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Unable to read file ${filePath}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
+/**
+ * Find the mounted page a web:/// URI addresses. Range parameters are only
+ * split off when the URI as given is not itself a mounted page, since page
+ * URLs have query strings of their own.
+ */
+function findMountedPage(raw: string): { entry?: MountedUrlEntry; params: URLSearchParams } {
+  const lookup = (url: string) => mountedUrls.get(url) ?? mountedUrls.get(`https://${url}`);
+  const direct = lookup(raw);
+  if (direct) return { entry: direct, params: new URLSearchParams() };
+  const { rest, params } = takeRangeParams(raw);
+  return { entry: lookup(rest), params };
+}
+
+/** A cached page as served: title, source details, then the Markdown body */
+function loadPageText(entry: MountedUrlEntry): ResourceText {
+  // Notify dashboard
+  bus.resourceRead(`🌐 ${entry.title}`);
+
+  const metadataNote = describePageMetadata(entry)
+    .map((line) => `  \n> ${line}`)
+    .join("");
+  const staleNote = entry.stale
+    ? `  \n> ⚠️ Stale: last refresh failed at ${entry.checkedAt} (${entry.lastError ?? "unknown error"})`
+    : "";
+  return {
+    label: entry.title,
+    mimeType: "text/markdown",
+    text: `# ${entry.title}\n\n> Source: ${entry.url}  \n> Fetched: ${entry.fetchedAt}${metadataNote}${staleNote}\n\n---\n\n${entry.content}`,
+  };
+}
+
+/** Outline of a long text: its headings and the chunks it can be read in */
+function buildTableOfContents(uri: string, resource: ResourceText, chunkTokens: number, note: string): string {
+  const lines = resource.text.split("\n");
+  const headings = findHeadings(lines);
+  const chunks = chunkText(resource.text, chunkTokens);
+  const size = Buffer.byteLength(resource.text);
+  const query = uri.includes("?") ? "&" : "?";
+
+  const out = [
+    `# Table of contents: ${resource.label}`,
+    "",
+    `> ${note}`,
+    `> ${formatSize(size)}, ${lines.length} line(s), ~${estimateTokens(resource.text)} tokens.`,
+    `> Read part of it with \`${uri}${query}lines=START-END\`, \`${query}bytes=START-END\` or \`${query}chunk=N\` ` +
+      `(add \`&tokens=N\` to change the chunk size), or with the \`read_resource_chunk\` tool.`,
+  ];
+
+  if (headings.length > 0) {
+    out.push("", "## Headings", "");
+    for (const h of headings.slice(0, TOC_MAX_ENTRIES)) {
+      out.push(`${"  ".repeat(h.level - 1)}- ${h.title} (line ${h.line})`);
+    }
+    if (headings.length > TOC_MAX_ENTRIES) out.push(`- … and ${headings.length - TOC_MAX_ENTRIES} more`);
+  }
+
+  out.push("", `## Chunks (~${chunkTokens} tokens each)`, "");
+  out.push(
+    formatRows(
+      ["chunk", "lines", "tokens", "section"],
+      chunks.slice(0, TOC_MAX_ENTRIES).map((c) => ({
+        chunk: c.index,
+        lines: `${c.startLine}-${c.endLine}`,
+        tokens: c.tokens,
+        section: c.heading ?? "",
+      })),
+      "markdown",
+    ),
+  );
+  if (chunks.length > TOC_MAX_ENTRIES) out.push("", `… and ${chunks.length - TOC_MAX_ENTRIES} more chunk(s).`);
+  return out.join("\n");
+}
+
+/**
+ * Apply range parameters to a resource's text. Without them the whole text
+ * is returned, unless it is over the --max-read-kb ceiling, in which case
+ * its table of contents is returned instead.
+ */
+function selectText(uri: string, resource: ResourceText, params: URLSearchParams): { text: string; mimeType: string } {
+  let request: RangeRequest | undefined;
+  try {
+    request = parseRangeParams(params);
+    if (request) return { text: sliceText(resource.text, request).text, mimeType: resource.mimeType };
+  } catch (err) {
+    throw new McpError(ErrorCode.InvalidParams, err instanceof Error ? err.message : String(err));
+  }
+
+  const size = Buffer.byteLength(resource.text);
+  if (maxReadBytes > 0 && size > maxReadBytes) {
+    const note = `⚠️ This resource is over the ${formatSize(maxReadBytes)} full-read limit, so only its outline is shown.`;
+    return { text: buildTableOfContents(uri, resource, DEFAULT_CHUNK_TOKENS, note), mimeType: "text/markdown" };
+  }
+  return { text: resource.text, mimeType: resource.mimeType };
+}
+
+// ──────────────────────────────────────────────
+// Git History
+// ──────────────────────────────────────────────
+
+/** Commits a git log lists unless told otherwise */
+const GIT_LOG_DEFAULT_LIMIT = 20;
+const GIT_LOG_MAX_LIMIT = 500;
+
+/** Longest author name shown in a blame before it is cut */
+const BLAME_AUTHOR_WIDTH = 20;
+
+/** A path inside a git-backed mount, as the git commands take it */
+interface GitTarget {
+  mount: string;
+  absolute: string;
+  /** Path relative to the mount root, "/"-separated; "." for the root itself */
+  rel: string;
+  /** True for a file the mount exposes, false for the mount or a folder in it */
+  isFile: boolean;
+}
+
+/** Whether a mounted folder lies inside a git work tree */
+function isGitMount(dir: string): Promise<boolean> {
+  let known = gitMounts.get(dir);
+  if (!known) {
+    known = isGitWorkTree(dir);
+    gitMounts.set(dir, known);
+  }
+  return known;
+}
+
+/** Mounted folders backed by a git repository */
+async function gitMountRoots(): Promise<string[]> {
+  const roots = [...mountedDirs.keys()];
+  const isGit = await Promise.all(roots.map(isGitMount));
+  return roots.filter((_, i) => isGit[i]);
+}
+
+/** Run a git query, surfacing git's own complaints as invalid-parameter errors */
+async function runGit<T>(query: () => Promise<T>): Promise<T> {
+  try {
+    return await query();
+  } catch (err) {
+    if (err instanceof GitError) throw new McpError(ErrorCode.InvalidParams, `git: ${err.message}`);
+    throw err;
+  }
+}
+
+/**
+ * Check that a path may be looked up in git history: it must be a git-backed
+ * mount, a folder the mount descends into, or a file its filter exposes.
+ * The check is by name only, so files deleted from the working tree still
+ * resolve. Throws an McpError otherwise.
+ */
+async function resolveGitTarget(absolute: string, fileOnly = false): Promise<GitTarget> {
+  const owners = [...mountedDirs.values()]
+    .filter((f) => isInside(f.root, absolute))
+    .sort((a, b) => b.root.length - a.root.length);
+  if (owners.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Access denied: ${absolute} is not inside a mounted directory`);
+  }
+
+  let owner = owners.find((f) => f.allowsFile(absolute));
+  const isFile = owner !== undefined;
+  if (!owner && !fileOnly) {
+    // A folder — but never a file the filter hides
+    const stat = await fs.stat(absolute).catch(() => null);
+    if (!stat?.isFile()) owner = owners.find((f) => f.allowsDir(absolute));
+  }
+  if (!owner) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Access denied: ${absolute} is not ${fileOnly ? "a file " : ""}exposed by its mount`,
+    );
+  }
+  if (!(await isGitMount(owner.root))) {
+    throw new McpError(ErrorCode.InvalidParams, `${owner.root} is not inside a git repository`);
+  }
+
+  const rel = path.relative(owner.root, absolute).split(path.sep).join("/") || ".";
+  return { mount: owner.root, absolute, rel, isFile };
+}
+
+/** Path part of a git URI, without its query */
+function gitUriPath(uri: URL): string {
+  return uriPathToFsPath(uri.href.slice(`${uri.protocol}///`.length).split(/[?#]/)[0]!);
+}
+
+/** The commit a ?rev= parameter (or tool argument) names */
+async function revisionOf(target: GitTarget, rev: string | null | undefined, required: boolean): Promise<string | undefined> {
+  if (rev === null || rev === undefined || rev === "") {
+    if (required) throw new McpError(ErrorCode.InvalidParams, "A revision is required — add ?rev=<commit, branch or tag>");
+    return undefined;
+  }
+  return runGit(() => resolveCommit(target.mount, rev));
+}
+
+const targetLabel = (target: GitTarget) =>
+  target.rel === "." ? path.basename(target.mount) : `${path.basename(target.mount)}/${target.rel}`;
+
+/** Recent commits touching a mount, folder or file (followed across renames), as Markdown */
+async function buildGitLog(target: GitTarget, limit: number, since?: string): Promise<string> {
+  const commits = await runGit(() => gitLog(target.mount, target.rel, { limit, since, follow: target.isFile }));
+  const out = [
+    `# Git log: ${targetLabel(target)}`,
+    "",
+    `> Path: \`${target.absolute}\`  `,
+    `> ${commits.length} most recent commit(s)${since ? ` since ${since}` : ""}  `,
+  ];
+  if (commits.length === 0) {
+    out.push("", "_No commits touch this path._");
+    return out.join("\n");
+  }
+
+  out.push(
+    `> Read a commit's changes with \`git-diff:///${target.absolute}?rev=COMMIT\` or the \`git_show_commit\` tool.`,
+    "",
+    formatRows(
+      ["commit", "date", "author", "subject"],
+      commits.map((c) => ({ commit: c.shortHash, date: c.date.slice(0, 10), author: c.author, subject: c.subject })),
+      "markdown",
+    ),
+  );
+  return out.join("\n");
+}
+
+/**
+ * A commit's message and its patch against the first parent, limited to the
+ * files under the target that the mount exposes.
+ */
+async function loadGitDiff(target: GitTarget, hash: string): Promise<ResourceText> {
+  const commit = await runGit(() => showCommit(target.mount, hash, target.rel));
+  const filter = mountedDirs.get(target.mount)!;
+  const shown = commit.files.filter((f) => filter.allowsFile(path.join(target.mount, f)));
+  const patch = await runGit(() => commitPatch(target.mount, hash, shown));
+
+  bus.resourceRead(`🌿 ${commit.shortHash} ${commit.subject}`);
+
+  const out = [
+    `# Commit ${commit.shortHash}: ${commit.subject}`,
+    "",
+    `> Commit: \`${commit.hash}\`  \n> Author: ${commit.author}  \n> Date: ${commit.date}  \n> Path: \`${target.absolute}\``,
+  ];
+  if (commit.body) out.push("", commit.body);
+  out.push("", `## Files changed (${shown.length})`, "");
+  out.push(shown.length > 0 ? shown.map((f) => `- ${f}`).join("\n") : "_None of the files this commit changed are exposed here._");
+  const hidden = commit.files.length - shown.length;
+  if (hidden > 0) out.push("", `> ℹ️ ${hidden} other changed file(s) are not exposed by this mount and are left out.`);
+  if (patch) out.push("", "## Patch", "", "```diff", patch.trimEnd(), "```");
+
+  return { label: `commit ${commit.shortHash}`, mimeType: "text/markdown", text: out.join("\n") };
+}
+
+/** Line-by-line authorship of a file, as Markdown */
+async function buildGitBlame(target: GitTarget, hash: string | undefined, lines: string | null | undefined): Promise<string> {
+  let start: number | undefined;
+  let end: number | undefined;
+  if (lines) {
+    try {
+      ({ start, end } = parseRange(lines, "line"));
+    } catch (err) {
+      throw new McpError(ErrorCode.InvalidParams, err instanceof Error ? err.message : String(err));
+    }
+    if (start < 1) throw new McpError(ErrorCode.InvalidParams, "Line numbers start at 1");
+  }
+  const blamed = await runGit(() => gitBlame(target.mount, target.rel, { hash, start, end }));
+
+  bus.resourceRead(`🌿 blame ${targetLabel(target)}`);
+
+  const authorWidth = Math.min(BLAME_AUTHOR_WIDTH, Math.max(0, ...blamed.map((b) => b.author.length)));
+  const numberWidth = String(blamed.at(-1)?.line ?? 0).length;
+  const body = blamed.map(
+    (b) =>
+      `${b.shortHash} ${b.date} ${b.author.slice(0, authorWidth).padEnd(authorWidth)} ` +
+      `${String(b.line).padStart(numberWidth)}│ ${b.text}`,
+  );
+  return [
+    `# Blame: ${targetLabel(target)}`,
+    "",
+    `> Path: \`${target.absolute}\`  \n> As of: ${hash ?? "the working tree"}` +
+      (lines ? `  \n> Lines: ${lines}` : ""),
+    "",
+    "```",
+    ...body,
+    "```",
+  ].join("\n");
+}
+
+/** A file's contents as of a commit, converted to Markdown like the file:/// resource */
+async function loadGitFile(target: GitTarget, hash: string): Promise<ResourceText> {
+  const buffer = await runGit(() => fileAtRevision(target.mount, hash, target.rel));
+  const label = `${targetLabel(target)} @ ${hash.slice(0, 8)}`;
+
+  bus.resourceRead(`🌿 ${label}`);
+
+  const converter = findConverter(target.absolute);
+  try {
+    const text = converter ? await converter.convert(buffer, target.absolute) : buffer.toString("utf-8");
+    return { label, mimeType: mimeType(target.absolute), text };
+  } catch (err) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Unable to convert ${label}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
+/** Tool result for a text-producing query; failures become "❌" messages */
+async function textToolResult(query: () => Promise<string>) {
+  try {
+    return { content: [{ type: "text" as const, text: await query() }] };
+  } catch (err) {
+    return {
+      content: [{ type: "text" as const, text: `❌ ${err instanceof Error ? err.message : String(err)}` }],
+    };
+  }
+}
+
+/** Body of a git-diff:/// or git-file:/// resource, before range parameters apply */
+async function loadGitText(uri: URL): Promise<ResourceText> {
+  const isFile = uri.protocol === "git-file:";
+  const target = await resolveGitTarget(gitUriPath(uri), isFile);
+  const hash = (await revisionOf(target, uri.searchParams.get("rev"), true))!;
+  return isFile ? loadGitFile(target, hash) : loadGitDiff(target, hash);
+}
+
+// ──────────────────────────────────────────────
+// Writable Mounts
+// ──────────────────────────────────────────────
+
+/** Copies of files as they were before a write — outside every mount, so the watcher never sees them */
+const WRITE_BACKUP_DIR = path.join(PROJECT_ROOT, ".write-backups");
+
+/** Where commitWrites keeps backups, and how it names files in its report */
+const WRITE_OPTIONS = { backupDir: WRITE_BACKUP_DIR, resourceName: fileToResourceName };
+
+/** Whether any mounted folder accepts writes */
+function hasWritableMount(): boolean {
+  return [...mountedDirs.values()].some((f) => f.options.writable);
+}
+
+/** Offer the write tools to a session only while some mount is writable */
+function syncWriteTools(session: Session): void {
+  const enabled = hasWritableMount();
+  for (const tool of session.writeTools) {
+    if (tool.enabled !== enabled) tool.update({ enabled });
+  }
+}
+
+bus.on("mount:change", () => {
+  for (const session of sessions) syncWriteTools(session);
+});
+
+// ──────────────────────────────────────────────
+// URL Refresh
+// ──────────────────────────────────────────────
+
+/** How often the scheduler looks for URLs whose TTL has expired */
+const URL_REFRESH_TICK_MS = 60_000;
+
+interface UrlRefreshResult {
+  previous: MountedUrlEntry;
+  entry: MountedUrlEntry;
+  /** Server confirmed the cached copy via 304 Not Modified */
+  notModified: boolean;
+  changed: boolean;
+  titleChanged: boolean;
+  added: number;
+  removed: number;
+}
+
+/** Refreshes in flight, so the scheduler and refresh_url never double-fetch */
+const inflightRefreshes = new Map<string, Promise<UrlRefreshResult>>();
+
+/**
+ * Conditionally re-fetch a mounted URL and update its cache entry.
+ * On failure the entry is kept but marked stale, and the error is rethrown.
+ */
+function refreshUrlEntry(url: string): Promise<UrlRefreshResult> {
+  const pending = inflightRefreshes.get(url);
+  if (pending) return pending;
+
+  const run = async (): Promise<UrlRefreshResult> => {
+    const previous = mountedUrls.get(url);
+    if (!previous) throw new Error(`"${url}" is not mounted`);
+    const now = new Date().toISOString();
+
+    let fetched: FetchedPage | null;
+    try {
+      fetched = await fetchAndConvert(url, previous);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (mountedUrls.has(url)) {
+        mountedUrls.set(url, { ...previous, checkedAt: now, stale: true, lastError: message });
+        await saveConfig();
+        bus.urlChange(getUrlInfos());
+        if (!previous.stale) broadcastListChanged();
+      }
+      throw err;
+    }
+
+    const entry: MountedUrlEntry = fetched
+      ? {
+          ...previous,
+          ...fetched,
+          fetchedAt: now,
+          checkedAt: now,
+          stale: false,
+          lastError: undefined,
+        }
+      : { ...previous, checkedAt: now, stale: false, lastError: undefined };
+
+    const titleChanged = previous.title !== entry.title;
+    const { added, removed } = diffLineCounts(previous.content, entry.content);
+    const changed = titleChanged || added > 0 || removed > 0;
+
+    // The page may have been unmounted while we were fetching
+    if (!mountedUrls.has(url)) return { previous, entry, notModified: !fetched, changed, titleChanged, added, removed };
+
+    mountedUrls.set(url, entry);
+    await saveConfig();
+    bus.urlChange(getUrlInfos());
+    if (titleChanged || previous.stale) broadcastListChanged();
+    if (changed) {
+      notifyResourceUpdated(`web:///${url}`);
+      void refreshSearchIndex(["url"]);
+    }
+    return { previous, entry, notModified: !fetched, changed, titleChanged, added, removed };
+  };
+
+  const promise = run().finally(() => inflightRefreshes.delete(url));
+  inflightRefreshes.set(url, promise);
+  return promise;
+}
+
+/** Human-readable summary of a URL's refresh policy */
+function describeRefreshPolicy(ttlMinutes: number | undefined): string {
+  return ttlMinutes ? `Auto-refresh every ${ttlMinutes} minute(s)` : "Manual refresh only (use refresh_url)";
+}
+
+/** Periodically re-fetch URLs whose TTL has expired */
+function startUrlRefreshScheduler(): void {
+  const tick = async () => {
+    const now = Date.now();
+    for (const entry of [...mountedUrls.values()]) {
+      if (!entry.ttlMinutes) continue;
+      const last = Date.parse(entry.checkedAt ?? entry.fetchedAt);
+      if (now - last < entry.ttlMinutes * 60_000) continue;
+      try {
+        await refreshUrlEntry(entry.url);
+      } catch (err) {
+        console.error(`⚠️  Scheduled refresh of ${entry.url} failed: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  };
+  setInterval(() => void tick(), URL_REFRESH_TICK_MS).unref();
+}
+
+// ──────────────────────────────────────────────
+// Workspaces
+// ──────────────────────────────────────────────
+
+/** Close every mount in the registry; the config keeps them for the next switch back */
+async function unloadWorkspace(): Promise<void> {
+  for (const dir of mountedDirs.keys()) await fileWatcher.remove(dir);
+  mountedDirs.clear();
+  for (const [dbPath, db] of mountedDbs) {
+    db.close();
+    await closeDataset(dbPath);
+  }
+  mountedDbs.clear();
+  mountedUrls.clear();
+  mountedSites.clear();
+}
+
+/** The saved config, after any pending writes have landed */
+async function readConfig(): Promise<ConfigData> {
+  await configWrite;
+  return (await loadConfig(configFile)).config;
+}
+
+/** Tell the dashboard and every client that mounts were added or removed wholesale */
+function announceRegistryChange(): void {
+  bus.mountChange([...mountedDirs.keys()]);
+  bus.urlChange(getUrlInfos());
+  bus.sqliteChange([...mountedDbs.keys()]);
+  broadcastListChanged();
+  void refreshSearchIndex(["file", "url"]);
+}
+
+/** Mount and close whatever differs between `from` (the registry) and `to` */
+async function applyWorkspaceChanges(from: WorkspaceData, to: WorkspaceData): Promise<void> {
+  if (sameWorkspace(from, to)) return;
+  const diff = diffWorkspaces(from, to);
+
+  for (const dir of diff.mountedPaths.removed) {
+    mountedDirs.delete(dir);
+    await fileWatcher.remove(dir);
+  }
+  for (const { path: dir, ...options } of diff.mountedPaths.upserted) {
+    addFolderMount(dir, options);
+    await fileWatcher.rescan(dir);
+  }
+
+  for (const url of diff.mountedUrls.removed) mountedUrls.delete(url);
+  for (const entry of diff.mountedUrls.upserted) mountedUrls.set(entry.url, entry);
+  for (const url of diff.mountedSites.removed) mountedSites.delete(url);
+  for (const site of diff.mountedSites.upserted) mountedSites.set(site.url, site);
+
+  for (const dbPath of [...diff.mountedDatabases.removed, ...diff.mountedDatasets.removed]) {
+    mountedDbs.get(dbPath)?.close();
+    mountedDbs.delete(dbPath);
+    await closeDataset(dbPath);
+  }
+  for (const dbPath of diff.mountedDatabases.upserted) {
+    if (mountedDbs.has(dbPath)) continue;
+    try {
+      mountedDbs.set(dbPath, new Database(dbPath, { readonly: true }));
+    } catch (err) {
+      console.error(`⚠️  Could not open ${dbPath}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  for (const entry of diff.mountedDatasets.upserted) {
+    await closeDataset(entry.path);
+    try {
+      openDataset(entry.path, entry.table);
+    } catch (err) {
+      console.error(`⚠️  Could not load dataset ${entry.path}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  announceRegistryChange();
+}
+
+/** Save the active workspace, then replace the registry with the mounts of `name` */
+function switchWorkspace(name: string): Promise<void> {
+  return queueConfigTask(async () => {
+    await syncWorkspace(true);
+    const { config } = await loadConfig(configFile);
+
+    await unloadWorkspace();
+    activeWorkspace = name;
+    restoreWorkspace(config.workspaces[name] ?? emptyWorkspace());
+    for (const dir of mountedDirs.keys()) {
+      await fileWatcher.add(dir);
+    }
+    await syncWorkspace(true);
+
+    bus.workspaceChange(name);
+    announceRegistryChange();
+  });
+}
+
+/** Debounce for bursts of config file events (temp file + rename) */
+const CONFIG_WATCH_DEBOUNCE_MS = 200;
+
+/** Pick up edits other processes (the CLI, another server) make to the config file */
+function watchConfigFile(): void {
+  let timer: NodeJS.Timeout | undefined;
+  const watcher = watch(path.dirname(configFile), {
+    depth: 0,
+    ignoreInitial: true,
+    ignored: (p) => p !== configFile && p !== path.dirname(configFile),
+  });
+  watcher.on("all", () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      queueConfigTask(() => syncWorkspace(false)).catch((err) => {
+        console.error(`⚠️  Failed to apply config changes: ${err}`);
+      });
+    }, CONFIG_WATCH_DEBOUNCE_MS);
+  });
+  watcher.on("error", (err) => {
+    console.error(`⚠️  Config watcher error: ${err}`);
+  });
+}
+
+/** "3 folder(s), 1 web page(s), 0 database(s)" */
+function describeWorkspace(workspace: WorkspaceData): string {
+  const pages = workspace.mountedUrls.length;
+  const databases = workspace.mountedDatabases.length + workspace.mountedDatasets.length;
+  return `${workspace.mountedPaths.length} folder(s), ${pages} web page(s), ${databases} database(s)`;
+}
+
+const workspaceNameSchema = z
+  .string()
+  .regex(WORKSPACE_NAME_PATTERN, "Use letters, digits, '.', '_' or '-' (up to 64 characters), starting with a letter or digit");
+
+// ──────────────────────────────────────────────
+// Unmounting
+// ──────────────────────────────────────────────
+
+/** Stop exposing a folder; returns false if it was not mounted */
+async function unmountFolder(dir: string): Promise<boolean> {
+  if (!mountedDirs.has(dir)) return false;
+  mountedDirs.delete(dir);
+  gitMounts.delete(dir);
+  await saveConfig();
+  await fileWatcher.remove(dir);
+  bus.mountChange([...mountedDirs.keys()]);
+  broadcastListChanged();
+  void refreshSearchIndex(["file"]);
+  return true;
+}
+
+/** Discard a mounted web page; returns false if it was not mounted */
+async function unmountUrl(url: string): Promise<boolean> {
+  if (!mountedUrls.has(url)) return false;
+  mountedUrls.delete(url);
+  await saveConfig();
+  bus.urlChange(getUrlInfos());
+  broadcastListChanged();
+  void refreshSearchIndex(["url"]);
+  return true;
+}
+
+/** Discard a crawled site and its pages; returns the number of pages removed, or undefined if it was not mounted */
+async function unmountSite(startUrl: string): Promise<number | undefined> {
+  if (!mountedSites.has(startUrl)) return undefined;
+  let removed = 0;
+  for (const entry of [...mountedUrls.values()]) {
+    if (entry.site !== startUrl) continue;
+    mountedUrls.delete(entry.url);
+    removed++;
+  }
+  mountedSites.delete(startUrl);
+  await saveConfig();
+  bus.urlChange(getUrlInfos());
+  broadcastListChanged();
+  void refreshSearchIndex(["url"]);
+  return removed;
+}
+
+/** Close a mounted database or dataset; returns false if it was not mounted */
+async function unmountDatabase(dbPath: string): Promise<boolean> {
+  const db = mountedDbs.get(dbPath);
+  if (!db) return false;
+  mountedDbs.delete(dbPath);
+  db.close();
+  await closeDataset(dbPath);
+  await saveConfig();
+  bus.sqliteChange([...mountedDbs.keys()]);
+  broadcastListChanged();
+  return true;
+}
+
+// ──────────────────────────────────────────────
+// Dashboard Actions
+// ──────────────────────────────────────────────
+
+/** Most recent audited read of any resource under the given URI prefixes */
+function lastReadOf(...prefixes: string[]): string {
+  const times = prefixes
+    .map((prefix) => auditLog.lastRead(new URL(prefix).href))
+    .filter((ts): ts is string => ts !== undefined);
+  return times.sort().at(-1) ?? "never";
+}
+
+async function folderDetails(dir: string): Promise<string[]> {
+  const filter = mountedDirs.get(dir);
+  if (!filter) return [`ℹ️  "${dir}" is no longer mounted.`];
+  const files = fileWatcher.filesIn(dir);
+  const sizes = await Promise.all(files.map((f) => fs.stat(f).then((s) => s.size, () => 0)));
+  const summary = filter.describe();
+  return [
+    `📂 ${dir}`,
+    `📄 Files: ${files.length}`,
+    `💾 Size: ${formatSize(sizes.reduce((a, b) => a + b, 0))}`,
+    ...(summary ? [`🔍 Filter: ${summary}`] : []),
+    ...(filter.options.writable ? ["✏️  Writable: write_file, append_file and apply_patch may change its files"] : []),
+    ...((await isGitMount(dir)) ? [`🌿 Git: history at git-log:///${dir}`] : []),
+    `🕒 Last read: ${lastReadOf(`file:///${dir}/`)}`,
+  ];
+}
+
+function urlDetails(url: string): string[] {
+  const site = mountedSites.get(url);
+  if (site) {
+    const pages = [...mountedUrls.values()].filter((e) => e.site === url);
+    const stale = pages.filter((e) => e.stale).length;
+    return [
+      `📚 ${url}`,
+      `📄 Pages: ${pages.length}${stale > 0 ? ` (⚠️ ${stale} stale)` : ""}`,
+      `💾 Size: ${formatSize(pages.reduce((sum, e) => sum + Buffer.byteLength(e.content), 0))}`,
+      `🕸️  Crawled: ${site.crawledAt} (depth ${site.maxDepth})`,
+      `🕒 Last read: ${lastReadOf(...pages.map((e) => `web:///${e.url}`))}`,
+    ];
+  }
+  const entry = mountedUrls.get(url);
+  if (!entry) return [`ℹ️  "${url}" is no longer mounted.`];
+  return [
+    `🌐 ${entry.title}`,
+    `🔗 ${entry.url}`,
+    `💾 Size: ${formatSize(Buffer.byteLength(entry.content))}`,
+    `📥 Fetched: ${entry.fetchedAt}${entry.checkedAt ? ` · checked ${entry.checkedAt}` : ""}`,
+    `🔄 ${describeRefreshPolicy(entry.ttlMinutes)}`,
+    ...(entry.stale ? [`⚠️  Stale: ${entry.lastError ?? "refresh failed"}`] : []),
+    `🕒 Last read: ${lastReadOf(`web:///${entry.url}`)}`,
+  ];
+}
+
+async function databaseDetails(dbPath: string): Promise<string[]> {
+  const db = mountedDbs.get(dbPath);
+  if (!db) return [`ℹ️  "${dbPath}" is no longer mounted.`];
+  const dataset = mountedDatasets.get(dbPath);
+  // For datasets this is the size of the SQLite cache, not the source file
+  const size = await fs.stat(db.name).then((s) => s.size, () => 0);
+  return [
+    `🗄️  ${dbPath}`,
+    `📋 Tables / views: ${listTablesAndViews(db).length}`,
+    `💾 Size: ${formatSize(size)}`,
+    ...(dataset
+      ? [
+          `📊 Dataset: ${dataset.info.format} → table "${dataset.table}", ${dataset.info.rows} row(s), loaded ${dataset.loadedAt}`,
+          ...(dataset.lastError ? [`⚠️  Reload failed: ${dataset.lastError}`] : []),
+        ]
+      : []),
+    `🕒 Last read: ${lastReadOf(`sqlite:///${dbPath}`, `sqlite-table:///${dbPath}/`)}`,
+  ];
+}
+
+/** Re-fetch a page, or every page of a crawled site */
+async function refreshFromDashboard(url: string): Promise<string> {
+  const urls = mountedSites.has(url)
+    ? [...mountedUrls.values()].filter((e) => e.site === url).map((e) => e.url)
+    : [url];
+  if (!mountedUrls.has(urls[0] ?? "")) return `ℹ️  "${url}" is not mounted.`;
+
+  let changed = 0;
+  let failed = 0;
+  for (const pageUrl of urls) {
+    try {
+      if ((await refreshUrlEntry(pageUrl)).changed) changed++;
+    } catch {
+      failed++;
+    }
+  }
+  if (urls.length === 1) {
+    return failed > 0
+      ? `❌ Failed to refresh ${url} — keeping the cached copy (marked stale)`
+      : `✅ Refreshed ${url}${changed > 0 ? " — content changed" : " — unchanged"}`;
+  }
+  return `${failed > 0 ? "⚠️" : "✅"} Refreshed ${urls.length - failed}/${urls.length} page(s), ${changed} changed`;
+}
+
+/** What the interactive dashboard can do to the mounts it lists */
+const dashboardActions: DashboardActions = {
+  async unmount(panel, id) {
+    switch (panel) {
+      case "folders":
+        return (await unmountFolder(id)) ? `✅ Unmounted ${id}` : `ℹ️  "${id}" is not mounted.`;
+      case "urls": {
+        if (mountedSites.has(id)) return `✅ Unmounted site ${id} (${await unmountSite(id)} page(s))`;
+        return (await unmountUrl(id)) ? `✅ Unmounted ${id}` : `ℹ️  "${id}" is not mounted.`;
+      }
+      case "databases":
+        return (await unmountDatabase(id)) ? `✅ Unmounted ${id}` : `ℹ️  "${id}" is not mounted.`;
+    }
+  },
+  refresh: refreshFromDashboard,
+  details(panel, id) {
+    switch (panel) {
+      case "folders":
+        return folderDetails(id);
+      case "urls":
+        return Promise.resolve(urlDetails(id));
+      case "databases":
+        return databaseDetails(id);
+    }
+  },
+};
+
+// ─── Shared folder mount handler ────────────
+
+const mountSchema = {
+  path: z.string().describe("Absolute path to the folder to mount, e.g. /Users/you/Documents"),
+  extensions: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Extra file extensions to expose on top of .txt and .md, e.g. [".ts", ".py", ".pdf"]. ' +
+        `Documents (${CONVERTIBLE_EXTENSIONS.join(", ")}) are only exposed when listed here, and are converted to Markdown`,
+    ),
+  include: z
+    .array(z.string())
+    .optional()
+    .describe('Only expose files matching these globs (relative to the folder), e.g. ["src/**", "docs/**"]'),
+  exclude: z
+    .array(z.string())
+    .optional()
+    .describe('Hide files and folders matching these globs, e.g. ["dist/**", "**/*.test.ts"]'),
+  max_depth: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Maximum folder depth to crawl below the mount root (0 = top-level files only)"),
+  respect_ignore_files: z
+    .boolean()
+    .optional()
+    .describe("Skip paths listed in .gitignore / .ignore files (default: true)"),
+  writable: z
+    .boolean()
+    .optional()
+    .describe("Let write_file, append_file and apply_patch change exposed files in this folder (default: false)"),
+};
+
+type MountArgs = {
+  path: string;
+  extensions?: string[];
+  include?: string[];
+  exclude?: string[];
+  max_depth?: number;
+  respect_ignore_files?: boolean;
+  writable?: boolean;
+};
+
+const MOUNT_DESCRIPTION =
+  "Mount a local folder so its .txt and .md files (plus any extra extensions) become readable resources. " +
+  "node_modules, .git and paths in .gitignore are skipped. The mount and its options are persisted across server restarts. " +
+  "Mounting an already-mounted folder changes only the options passed; pass an empty list to clear extensions, include or exclude.";
+
+/** Maximum number of file names echoed back by mount_folder */
+const MOUNT_LIST_LIMIT = 50;
+
+async function handleMount({ path: inputPath, ...args }: MountArgs) {
+  const resolvedPath = path.resolve(inputPath);
+
+  // Validate that the path exists and is a directory
+  try {
+    const stat = await fs.stat(resolvedPath);
+    if (!stat.isDirectory()) {
+      return {
+        content: [{ type: "text" as const, text: `❌ "${resolvedPath}" is not a directory.` }],
+      };
+    }
+  } catch {
+    return {
+      content: [{ type: "text" as const, text: `❌ Path "${resolvedPath}" does not exist.` }],
+    };
+  }
+
+  const changes: FolderMountOptions = {};
+  if (args.extensions !== undefined) changes.extensions = args.extensions.map(normalizeExtension);
+  if (args.include !== undefined) changes.include = args.include;
+  if (args.exclude !== undefined) changes.exclude = args.exclude;
+  if (args.max_depth !== undefined) changes.maxDepth = args.max_depth;
+  if (args.respect_ignore_files !== undefined) changes.respectIgnoreFiles = args.respect_ignore_files;
+  if (args.writable !== undefined) changes.writable = args.writable;
+  const hasOptions = Object.keys(changes).length > 0;
+
+  // Check if already mounted (duplicate detection) — new options are merged over the old ones
+  const existing = mountedDirs.get(resolvedPath);
+  const alreadyMounted = existing !== undefined;
+  if (alreadyMounted && !hasOptions) {
+    const files = fileWatcher.filesIn(resolvedPath);
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text:
+            `⚠️  "${resolvedPath}" is already mounted — skipping duplicate.\n` +
+            `📄 ${files.length} resource file(s) already available.`,
+        },
+      ],
+    };
+  }
+
+  // Options the caller left out keep their current values; an empty list clears that filter
+  const options: FolderMountOptions = { ...existing?.options, ...changes };
+  for (const key of ["extensions", "include", "exclude"] as const) {
+    if (options[key]?.length === 0) delete options[key];
+  }
+
+  // Mount it
+  const filter = addFolderMount(resolvedPath, options);
+  await saveConfig();
+  await fileWatcher.rescan(resolvedPath);
+  bus.mountChange([...mountedDirs.keys()]);
+  broadcastListChanged();
+  void refreshSearchIndex(["file"]);
+
+  const files = fileWatcher.filesIn(resolvedPath);
+  const extList = [...filter.extensions].join(" / ");
+  let fileList =
+    files.length > 0
+      ? files
+          .slice(0, MOUNT_LIST_LIMIT)
+          .map((f) => `  • ${fileToResourceName(f)}`)
+          .join("\n")
+      : `  (no ${extList} files found)`;
+  if (files.length > MOUNT_LIST_LIMIT) {
+    fileList += `\n  … and ${files.length - MOUNT_LIST_LIMIT} more`;
+  }
+  const summary = filter.describe();
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text:
+          (alreadyMounted
+            ? `🔄 Updated options for "${resolvedPath}".\n`
+            : `✅ Successfully mounted "${resolvedPath}".\n`) +
+          (summary ? `⚙️  ${summary}\n` : "") +
+          `📄 Found ${files.length} resource file(s):\n${fileList}\n\n` +
+          `These files are now available as resources. Use resources/list to browse them.`,
+      },
+    ],
+  };
+}
+
+// ──────────────────────────────────────────────
+// MCP Server
+// ──────────────────────────────────────────────
+
+/** Build an MCP server bound to the shared mount registry — one per client session */
+function createSession(): Session {
+  const server = new McpServer({
+    name: "omni-mcp",
+    version: "3.0.0",
+  });
+  const session: Session = { server, subscriptions: new Set(), writeTools: [] };
+  auditRegistrations(server);
+  paginateResourceList(server);
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    session.subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    session.subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // ─── Resource Template: Local Files ─────────
+
+  server.resource(
+    "local-files",
+    new ResourceTemplate("file:///{+path}", {
+      list: async () => ({ resources: fileResources() }),
+    }),
+    {
+      description:
+        "Exposes files from all mounted directories (.txt and .md, plus any per-mount extensions). " +
+        "HTML, PDF, DOCX, CSV/TSV and Jupyter notebooks, when a mount lists their extension, are converted to Markdown.",
+    },
+    async (uri, variables) => {
+      // ?lines=, ?bytes= or ?chunk= select part of the file
+      const { rest, params } = takeRangeParams(variables.path as string);
+      const resource = await loadFileText(rest);
+      const served = selectText(takeRangeParams(uri.href).rest, resource, params);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: served.mimeType,
+            text: served.text,
+          },
+        ],
+      };
+    }
+  );
+
+  // ─── Resource Template: Web Pages ───────────
+
+  server.resource(
+    "web-pages",
+    new ResourceTemplate("web:///{+url}", {
+      list: async () => ({
+        resources: [...mountedUrls.values()].map((entry) => ({
+          uri: `web:///${entry.url}`,
+          name:
+            (entry.site ? `📚 ${new URL(entry.site).hostname} › ${entry.title}` : `🌐 ${entry.title}`) +
+            (entry.stale ? " (stale)" : ""),
+          description: entry.stale
+            ? `Web page: ${entry.url} — last refresh failed (${entry.lastError ?? "unknown error"}), showing copy from ${entry.fetchedAt}`
+            : `Web page: ${entry.url}`,
+          mimeType: "text/markdown" as const,
+        })),
+      }),
+    }),
+    {
+      description: "Web pages fetched and converted to Markdown",
+    },
+    async (uri, variables) => {
+      const url = variables.url as string;
+      const { entry, params } = findMountedPage(url);
+      if (!entry) {
+        throw new McpError(RESOURCE_NOT_FOUND, `URL not mounted: ${url}`);
+      }
+
+      const served = selectText(`web:///${entry.url}`, loadPageText(entry), params);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: served.mimeType,
+            text: served.text,
+          },
+        ],
+      };
+    }
+  );
+
+  // ─── Resource Template: SQLite Schema ───────
+
+  server.resource(
+    "sqlite-schema",
+    new ResourceTemplate("sqlite:///{+dbPath}", {
+      list: async () => ({
+        resources: [...mountedDbs.keys()].map((dbPath) => ({
+          uri: `sqlite:///${dbPath}`,
+          name: `🗄️ ${path.basename(dbPath)} schema`,
+          description: `Schema for SQLite database: ${dbPath}`,
+          mimeType: "text/markdown" as const,
+        })),
+      }),
+    }),
+    {
+      description:
+        "Auto-exposed schema of mounted SQLite databases: tables, views, indexes, foreign keys, triggers, " +
+        "row counts, sample rows and a Mermaid ER diagram. Append ?ddl for the raw CREATE statements.",
+    },
+    async (uri, variables) => {
+      // Search hits address individual tables as a #fragment — ignore it here;
+      // `?ddl` asks for the raw CREATE statements as well
+      const dbPath = uriPathToFsPath((variables.dbPath as string).split(/[?#]/)[0]);
+      const includeDdl = uri.searchParams.has("ddl");
+
+      // Only databases explicitly mounted via mount_sqlite are readable
+      const db = mountedDbs.get(dbPath);
+      if (!db) {
+        throw new McpError(RESOURCE_NOT_FOUND, `Database not mounted: ${dbPath}`);
+      }
+
+      bus.resourceRead(`🗄️ ${path.basename(dbPath)} schema`);
+
+      const schema = buildSchemaMarkdown(db, { includeDdl });
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown" as const,
+            text: `# Schema: ${path.basename(dbPath)}\n\n> Path: \`${dbPath}\`\n\n${schema}`,
+          },
+        ],
+      };
+    }
+  );
+
+  // ─── Resource Template: SQLite Table ────────
+
+  server.resource(
+    "sqlite-table",
+    new ResourceTemplate("sqlite-table:///{+tablePath}", {
+      list: async () => ({
+        resources: [...mountedDbs].flatMap(([dbPath, db]) =>
+          listTablesAndViews(db).map(({ name, type }) => ({
+            uri: sqliteTableUri(dbPath, name),
+            name: `🗄️ ${path.basename(dbPath)} › ${name}`,
+            description: `${type === "view" ? "View" : "Table"} "${name}" in ${dbPath} — rows ${TABLE_PAGE_SIZE} per page, with column stats`,
+            mimeType: "text/markdown" as const,
+          })),
+        ),
+      }),
+    }),
+    {
+      description: "Browse the rows of a mounted SQLite table or view, one page at a time (append ?page=N)",
+    },
+    async (uri, variables) => {
+      // <db path>/<url-encoded table name>, optionally followed by ?page=N
+      const tablePath = (variables.tablePath as string).split(/[?#]/)[0];
+      const slash = tablePath.lastIndexOf("/");
+      const dbPath = uriPathToFsPath(tablePath.slice(0, slash));
+      const table = decodeURIComponent(tablePath.slice(slash + 1));
+
+      const db = mountedDbs.get(dbPath);
+      if (!db) {
+        throw new McpError(RESOURCE_NOT_FOUND, `Database not mounted: ${dbPath}`);
+      }
+
+      const page = Number(uri.searchParams.get("page") ?? "1");
+      if (!Number.isInteger(page) || page < 1) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid page "${uri.searchParams.get("page")}" — use ?page=1, 2, …`);
+      }
+
+      let body: string | null;
+      try {
+        body = await buildTablePageMarkdown(db, table, page, (n) => sqliteTableUri(dbPath, table, n), QUERY_DEFAULT_TIMEOUT_MS);
+      } catch (err) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Unable to read "${table}": ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+      if (body === null) {
+        throw new McpError(RESOURCE_NOT_FOUND, `No table or view "${table}" in ${dbPath}`);
+      }
+
+      bus.resourceRead(`🗄️ ${path.basename(dbPath)} › ${table}`);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown" as const,
+            text: `# ${table}\n\n> Database: \`${dbPath}\`\n\n${body}`,
+          },
+        ],
+      };
+    }
+  );
+
+  // ─── Resource Template: Git Log ─────────────
+
+  server.resource(
+    "git-log",
+    new ResourceTemplate("git-log:///{+path}", {
+      list: async () => ({
+        resources: (await gitMountRoots()).map((dir) => ({
+          uri: `git-log:///${dir}`,
+          name: `🌿 ${path.basename(dir)} history`,
+          description: `Recent commits touching ${dir}`,
+          mimeType: "text/markdown" as const,
+        })),
+      }),
+    }),
+    {
+      description:
+        "Recent commits of a git-backed mounted folder, a sub-folder or a single file (followed across renames). " +
+        `Append ?limit=N (default ${GIT_LOG_DEFAULT_LIMIT}) or ?since=2024-05-01.`,
+    },
+    async (uri) => {
+      const target = await resolveGitTarget(gitUriPath(uri));
+      const limit = Number(uri.searchParams.get("limit") ?? GIT_LOG_DEFAULT_LIMIT);
+      if (!Number.isInteger(limit) || limit < 1 || limit > GIT_LOG_MAX_LIMIT) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid limit "${uri.searchParams.get("limit")}" — use 1 to ${GIT_LOG_MAX_LIMIT}`,
+        );
+      }
+
+      bus.resourceRead(`🌿 ${targetLabel(target)} history`);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown" as const,
+            text: await buildGitLog(target, limit, uri.searchParams.get("since") ?? undefined),
+          },
+        ],
+      };
+    }
+  );
+
+  // ─── Resource Templates: Git Diff & File ────
+
+  for (const [name, description] of [
+    [
+      "git-diff",
+      "A commit's message and patch (?rev=COMMIT), limited to the files a git-backed mount exposes under the given path",
+    ],
+    [
+      "git-file",
+      "A mounted file's contents as of a revision (?rev=COMMIT, branch or tag), converted like file:/// resources",
+    ],
+  ] as const) {
+    server.resource(
+      name,
+      new ResourceTemplate(`${name}:///{+path}`, { list: undefined }),
+      { description: `${description}. Supports ?lines=, ?bytes= and ?chunk= like file:/// resources.` },
+      async (uri) => {
+        const served = selectText(takeRangeParams(uri.href).rest, await loadGitText(uri), uri.searchParams);
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: served.mimeType,
+              text: served.text,
+            },
+          ],
+        };
+      }
+    );
+  }
+
+  // ─── Resource Template: Git Blame ───────────
+
+  server.resource(
+    "git-blame",
+    new ResourceTemplate("git-blame:///{+path}", { list: undefined }),
+    {
+      description:
+        "Who last changed each line of a mounted file in a git repository. " +
+        "Append ?rev=COMMIT to blame an older revision and ?lines=START-END to limit the range.",
+    },
+    async (uri) => {
+      const target = await resolveGitTarget(gitUriPath(uri), true);
+      const hash = await revisionOf(target, uri.searchParams.get("rev"), false);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown" as const,
+            text: await buildGitBlame(target, hash, uri.searchParams.get("lines")),
+          },
+        ],
+      };
+    }
+  );
+
+  // ─── Resource: Audit Log ────────────────────
+
+  server.resource(
+    "audit-log",
+    "audit://log",
+    {
+      description: "Durable log of tool calls and resource reads: a 24-hour summary and the most recent entries",
+      mimeType: "text/markdown",
+    },
+    async (uri) => {
+      bus.resourceRead("📜 audit log");
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown" as const, text: buildAuditMarkdown(AUDIT_RESOURCE_ROWS) }],
+      };
+    }
+  );
+
+  // ─── Tool: mount_folder ─────────────────────
+
+  server.tool("mount_folder", MOUNT_DESCRIPTION, mountSchema, handleMount);
+
+  // ─── Tool: add_new_source (alias) ───────────
+
+  server.tool(
+    "add_new_source",
+    MOUNT_DESCRIPTION + " (Alias for mount_folder.)",
+    mountSchema,
+    handleMount
+  );
+
+  // ─── Tool: mount_url ────────────────────────
+
+  server.tool(
+    "mount_url",
+    "Fetch a web page, convert its HTML to Markdown, and expose it as an MCP resource. " +
+      "The content is cached and persisted across server restarts, and can be re-fetched automatically.",
+    {
+      url: z.string().url().describe("Full URL of the web page to mount, e.g. https://example.com"),
+      ttl_minutes: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Re-fetch the page automatically every N minutes (0 or omitted = manual refresh_url only)"),
+    },
+    async ({ url, ttl_minutes }) => {
+      // Normalize URL
+      const normalizedUrl = url.trim();
+      const ttlMinutes = ttl_minutes ? ttl_minutes : undefined;
+
+      // Duplicate check — a new TTL replaces the old refresh policy
+      const existing = mountedUrls.get(normalizedUrl);
+      if (existing) {
+        if (ttl_minutes !== undefined && ttlMinutes !== existing.ttlMinutes) {
+          mountedUrls.set(normalizedUrl, { ...existing, ttlMinutes });
+          await saveConfig();
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  `🔄 "${normalizedUrl}" is already mounted — updated its refresh policy.\n` +
+                  `⏱️  ${describeRefreshPolicy(ttlMinutes)}`,
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `⚠️  "${normalizedUrl}" is already mounted — skipping duplicate.\n` +
+                `📄 Cached as: "${existing.title}" (fetched ${existing.fetchedAt})`,
+            },
+          ],
+        };
+      }
+
+      // Fetch and convert
+      try {
+        const fetched = (await fetchAndConvert(normalizedUrl))!;
+        const { title, content } = fetched;
+        const now = new Date().toISOString();
+
+        const entry: MountedUrlEntry = {
+          url: normalizedUrl,
+          ...fetched,
+          fetchedAt: now,
+          checkedAt: now,
+          ttlMinutes,
+        };
+
+        mountedUrls.set(normalizedUrl, entry);
+        await saveConfig();
+        bus.urlChange(getUrlInfos());
+        broadcastListChanged();
+        void refreshSearchIndex(["url"]);
+
+        // Truncate preview
+        const preview = content.length > 200 ? content.slice(0, 200) + "…" : content;
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `✅ Successfully mounted web page.\n` +
+                `🌐 Title: "${title}"\n` +
+                `🔗 URL: ${normalizedUrl}\n` +
+                describePageMetadata(entry).map((line) => `🏷️  ${line}\n`).join("") +
+                `📄 Content: ${content.length} characters (Markdown)\n` +
+                `⏱️  ${describeRefreshPolicy(ttlMinutes)}\n\n` +
+                `Preview:\n${preview}\n\n` +
+                `This page is now available as a resource.`,
+            },
+          ],
+        };
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `❌ Failed to fetch "${normalizedUrl}": ${err instanceof Error ? err.message : String(err)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // ─── Tool: mount_site ───────────────────────
+
+  server.tool(
+    "mount_site",
+    "Crawl a documentation site from a start URL, following same-origin links, and mount every page " +
+      "as its own web resource grouped under the site. Respects robots.txt and can seed from sitemap.xml.",
+    {
+      url: z.string().url().describe("Start URL of the site, e.g. https://docs.example.com/guide/"),
+      max_depth: z.number().int().min(0).max(5).default(2).describe("How many links deep to follow (default 2)"),
+      max_pages: z.number().int().min(1).max(500).default(50).describe("Maximum number of pages to mount (default 50)"),
+      use_sitemap: z
+        .boolean()
+        .default(false)
+        .describe("Also seed the crawl from the site's sitemap.xml (its pages count as depth 1, so max_depth 0 skips it)"),
+    },
+    async ({ url, max_depth, max_pages, use_sitemap }) => {
+      const startUrl = url.trim();
+
+      if (mountedSites.has(startUrl)) {
+        const pageCount = [...mountedUrls.values()].filter((e) => e.site === startUrl).length;
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `⚠️  "${startUrl}" is already mounted as a site (${pageCount} pages) — skipping duplicate.\n` +
+                `Use unmount_site first to crawl it again.`,
+            },
+          ],
+        };
+      }
+
+      // Pages are only mounted once the whole crawl has succeeded
+      const crawled: MountedUrlEntry[] = [];
+
+      let summary: CrawlSummary;
+      try {
+        summary = await crawlSite({
+          startUrl,
+          maxDepth: max_depth,
+          maxPages: max_pages,
+          useSitemap: use_sitemap,
+          userAgent: USER_AGENT,
+          timeoutMs: FETCH_TIMEOUT_MS,
+          onPage: (page) => {
+            const converted = htmlToMarkdown(page.html, page.url);
+            const now = new Date().toISOString();
+            crawled.push({
+              url: page.url,
+              ...converted,
+              title: converted.title || new URL(page.url).pathname,
+              fetchedAt: now,
+              checkedAt: now,
+              etag: page.etag,
+              lastModified: page.lastModified,
+              site: startUrl,
+            });
+          },
+        });
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `❌ Failed to crawl "${startUrl}": ${err instanceof Error ? err.message : String(err)}`,
+            },
+          ],
+        };
+      }
+
+      const mounted: string[] = [];
+      let skippedExisting = 0;
+      for (const entry of crawled) {
+        // Never take over a page that was mounted on its own
+        if (mountedUrls.has(entry.url)) {
+          skippedExisting++;
+          continue;
+        }
+        mountedUrls.set(entry.url, entry);
+        mounted.push(entry.url);
+      }
+
+      if (mounted.length === 0) {
+        const firstError = summary.failed[0];
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `❌ No pages could be mounted from "${startUrl}".` +
+                (firstError ? `\n${firstError.url}: ${firstError.error}` : "") +
+                (summary.blockedByRobots > 0 ? `\n🤖 ${summary.blockedByRobots} URL(s) blocked by robots.txt.` : "") +
+                (skippedExisting > 0 ? `\nℹ️  ${skippedExisting} page(s) were already mounted individually.` : ""),
+            },
+          ],
+        };
+      }
+
+      mountedSites.set(startUrl, {
+        url: startUrl,
+        maxDepth: max_depth,
+        maxPages: max_pages,
+        useSitemap: use_sitemap,
+        crawledAt: new Date().toISOString(),
+      });
+      await saveConfig();
+      bus.urlChange(getUrlInfos());
+      broadcastListChanged();
+      void refreshSearchIndex(["url"]);
+
+      const listed = mounted.slice(0, MOUNT_LIST_LIMIT).map((u) => `  • ${mountedUrls.get(u)!.title}  →  ${u}`);
+      if (mounted.length > MOUNT_LIST_LIMIT) listed.push(`  … and ${mounted.length - MOUNT_LIST_LIMIT} more`);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text:
+              `✅ Successfully mounted site "${startUrl}".\n` +
+              `📚 ${mounted.length} page(s) mounted:\n${listed.join("\n")}\n` +
+              (summary.truncated ? `\n✂️  Stopped at the ${max_pages}-page cap; raise max_pages to crawl further.` : "") +
+              (summary.blockedByRobots > 0 ? `\n🤖 ${summary.blockedByRobots} URL(s) skipped per robots.txt.` : "") +
+              (summary.failed.length > 0 ? `\n⚠️  ${summary.failed.length} page(s) failed to fetch.` : "") +
+              (skippedExisting > 0 ? `\nℹ️  ${skippedExisting} page(s) were already mounted individually.` : "") +
+              `\n\nEach page is now available as a resource.`,
+          },
+        ],
+      };
+    }
+  );
+
+  // ─── Tool: mount_sqlite ─────────────────────
+
+  server.tool(
+    "mount_sqlite",
+    "Mount a local SQLite database file. Its schema is automatically exposed as an MCP resource " +
+      "so the AI knows the table structures. Use query_sqlite to run read-only queries against it.",
+    {
+      path: z
+        .string()
+        .describe("Absolute path to the SQLite database file, e.g. /Users/you/data.db"),
+    },
+    async ({ path: inputPath }) => {
+      const resolvedPath = path.resolve(inputPath);
+
+      // Duplicate check
+      if (mountedDbs.has(resolvedPath)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `⚠️  "${resolvedPath}" is already mounted — skipping duplicate.`,
+            },
+          ],
+        };
+      }
+
+      // Validate file exists
+      try {
+        const stat = await fs.stat(resolvedPath);
+        if (!stat.isFile()) {
+          return {
+            content: [
+              { type: "text" as const, text: `❌ "${resolvedPath}" is not a file.` },
+            ],
+          };
+        }
+      } catch {
+        return {
+          content: [
+            { type: "text" as const, text: `❌ File "${resolvedPath}" does not exist.` },
+          ],
+        };
+      }
+
+      // Open in read-only mode
+      let db: InstanceType<typeof Database>;
+      try {
+        db = new Database(resolvedPath, { readonly: true });
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `❌ Failed to open database: ${err instanceof Error ? err.message : String(err)}`,
+            },
+          ],
+        };
+      }
+
+      mountedDbs.set(resolvedPath, db);
+      await saveConfig();
+      bus.sqliteChange([...mountedDbs.keys()]);
+      broadcastListChanged();
+
+      // Summarize tables
+      const tables = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+        .all() as { name: string }[];
+
+      const tableList =
+        tables.length > 0
+          ? tables.map((t) => `  • ${t.name}`).join("\n")
+          : "  (no user tables found)";
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text:
+              `✅ Successfully mounted SQLite database.\n` +
+              `🗄️  Path: ${resolvedPath}\n` +
+              `📋 Tables (${tables.length}):\n${tableList}\n\n` +
+              `The schema is now available as a resource. Use query_sqlite to run read-only queries.`,
+          },
+        ],
+      };
+    }
+  );
+
+  // ─── Tool: mount_dataset ────────────────────
+
+  server.tool(
+    "mount_dataset",
+    "Load a CSV, TSV, JSON (array of records) or JSONL file into a SQLite table with inferred column types. " +
+      "It is then mounted like a database: query it with query_sqlite and read its schema resource. " +
+      "The table is reloaded automatically whenever the file changes.",
+    {
+      path: z.string().describe("Absolute path to the data file, e.g. /Users/you/exports/orders.csv"),
+      table: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Table name to load the rows into (default: the file name without its extension)"),
+    },
+    async ({ path: inputPath, table }) => {
+      const resolvedPath = path.resolve(inputPath);
+
+      // Duplicate check
+      if (mountedDbs.has(resolvedPath)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `⚠️  "${resolvedPath}" is already mounted — skipping duplicate.`,
+            },
+          ],
+        };
+      }
+
+      if (!datasetFormat(resolvedPath)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `❌ "${path.basename(resolvedPath)}" is not a supported dataset. ` +
+                `Supported extensions: ${Object.keys(DATASET_EXTENSIONS).join(", ")}`,
+            },
+          ],
+        };
+      }
+
+      // Validate file exists
+      try {
+        const stat = await fs.stat(resolvedPath);
+        if (!stat.isFile()) {
+          return {
+            content: [
+              { type: "text" as const, text: `❌ "${resolvedPath}" is not a file.` },
+            ],
+          };
+        }
+      } catch {
+        return {
+          content: [
+            { type: "text" as const, text: `❌ File "${resolvedPath}" does not exist.` },
+          ],
+        };
+      }
+
+      let info: DatasetInfo;
+      try {
+        info = openDataset(resolvedPath, table?.trim() || defaultTableName(resolvedPath));
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `❌ Failed to load dataset: ${err instanceof Error ? err.message : String(err)}`,
+            },
+          ],
+        };
+      }
+
+      await saveConfig();
+      bus.sqliteChange([...mountedDbs.keys()]);
+      broadcastListChanged();
+      void refreshSearchIndex(["sqlite"]);
+
+      const columnList = info.columns.map((c) => `  • ${c.name}  ${c.type}`).join("\n");
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text:
+              `✅ Successfully mounted dataset.\n` +
+              `📊 Path: ${resolvedPath} (${info.format.toUpperCase()})\n` +
+              `📋 Table "${info.table}": ${info.rows} row(s), ${info.columns.length} column(s):\n${columnList}\n\n` +
+              `Query it with query_sqlite using path "${resolvedPath}". ` +
+              `The table is reloaded whenever the file changes.`,
+          },
+        ],
+      };
+    }
+  );
+
+  // ─── Tool: query_sqlite ─────────────────────
+
+  server.tool(
+    "query_sqlite",
+    "Execute a read-only SQL query against a mounted SQLite database and return one page of results " +
+      "as JSON, JSON Lines, CSV or a Markdown table. " +
+      "Accepts SELECT, WITH … SELECT, EXPLAIN, VALUES and informational PRAGMAs; anything that writes is rejected. " +
+      "When more rows remain, the result ends with a cursor — pass it back to fetch the next page.",
+    {
+      path: z.string().describe("Absolute path to the mounted SQLite database file"),
+      sql: z.string().optional().describe("A single read-only SQL statement (omit when passing cursor)"),
+      cursor: z.string().optional().describe("Continuation token from a previous result, to fetch the next page"),
+      format: z
+        .enum(["json", "jsonl", "csv", "markdown"])
+        .default("json")
+        .describe("Output format: json (default), jsonl, csv or markdown (a table — usually the most compact)"),
+      max_rows: z
+        .number()
+        .int()
+        .min(1)
+        .max(QUERY_MAX_ROWS_LIMIT)
+        .default(QUERY_DEFAULT_MAX_ROWS)
+        .describe(`Page size — maximum number of rows to return (default ${QUERY_DEFAULT_MAX_ROWS})`),
+      timeout_ms: z
+        .number()
+        .int()
+        .min(100)
+        .max(QUERY_MAX_TIMEOUT_MS)
+        .default(QUERY_DEFAULT_TIMEOUT_MS)
+        .describe(`Time budget in milliseconds before the query is interrupted (default ${QUERY_DEFAULT_TIMEOUT_MS})`),
+    },
+    async ({ path: inputPath, sql, cursor, format, max_rows, timeout_ms }) => {
+      const resolvedPath = path.resolve(inputPath);
+
+      // Check DB is mounted
+      const db = mountedDbs.get(resolvedPath);
+      if (!db) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `❌ Database "${resolvedPath}" is not mounted. Use mount_sqlite first.`,
+            },
+          ],
+        };
+      }
+
+      // Execute
+      try {
+        if (!sql?.trim() && !cursor) throw new QueryRejectedError("Pass either sql or a cursor from a previous result.");
+
+        const page = cursor ? decodeCursor(cursor) : { dbPath: resolvedPath, sql: sql!.trim(), offset: 0 };
+        if (page.dbPath !== resolvedPath) {
+          throw new QueryRejectedError(`This cursor belongs to "${page.dbPath}", not "${resolvedPath}".`);
+        }
 
-server.tool("mount_folder", MOUNT_DESCRIPTION, mountSchema, handleMount);
+        validateReadOnlySql(db, page.sql);
+        bus.resourceRead(`🗄️ query → ${path.basename(resolvedPath)}`);
+
+        // db.name is the file actually holding the data — for datasets, their cache DB
+        const { columns, rows, hasMore, total, elapsedMs } = await runReadOnlyQuery(db.name, page.sql, {
+          offset: page.offset,
+          maxRows: max_rows,
+          timeoutMs: timeout_ms,
+        });
+
+        const range = rows.length > 0 ? `rows ${page.offset + 1}–${page.offset + rows.length}` : "no rows";
+        const of =
+          rows.length === 0 ? "" : total !== undefined ? ` of ${total}` : " (more available; total not counted)";
+        const footer =
+          `\n\n⏱️  ${range}${of} in ${elapsedMs} ms` +
+          (hasMore
+            ? `\n➡️  Next page: call query_sqlite with cursor "${encodeCursor({ ...page, offset: page.offset + rows.length })}"`
+            : "");
 
-// ─── Tool: add_new_source (alias) ───────────
+        return {
+          content: [{ type: "text" as const, text: formatRows(columns, rows, format) + footer }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        const label =
+          err instanceof QueryRejectedError ? "Query rejected" : err instanceof QueryTimeoutError ? "Query timed out" : "Query failed";
+        return {
+          content: [{ type: "text" as const, text: `❌ ${label}: ${message}` }],
+        };
+      }
+    }
+  );
 
-server.tool(
-  "add_new_source",
-  MOUNT_DESCRIPTION + " (Alias for mount_folder.)",
-  mountSchema,
-  handleMount
-);
+  // ─── Tool: unmount_folder ───────────────────
 
-// ─── Tool: mount_url ────────────────────────
+  server.tool(
+    "unmount_folder",
+    "Unmount a previously mounted folder so its files are no longer exposed as resources.",
+    {
+      path: z.string().describe("Absolute path of the folder to unmount"),
+    },
+    async ({ path: inputPath }) => {
+      const resolvedPath = path.resolve(inputPath);
 
-server.tool(
-  "mount_url",
-  "Fetch a web page, convert its HTML to Markdown, and expose it as an MCP resource. " +
-    "The content is cached and persisted across server restarts.",
-  {
-    url: z.string().url().describe("Full URL of the web page to mount, e.g. https://example.com"),
-  },
-  async ({ url }) => {
-    // Normalize URL
-    const normalizedUrl = url.trim();
+      if (!(await unmountFolder(resolvedPath))) {
+        return {
+          content: [
+            { type: "text" as const, text: `ℹ️  "${resolvedPath}" is not currently mounted.` },
+          ],
+        };
+      }
 
-    // Duplicate check
-    if (mountedUrls.has(normalizedUrl)) {
-      const existing = mountedUrls.get(normalizedUrl)!;
       return {
         content: [
           {
             type: "text" as const,
-            text:
-              `⚠️  "${normalizedUrl}" is already mounted — skipping duplicate.\n` +
-              `📄 Cached as: "${existing.title}" (fetched ${existing.fetchedAt})`,
+            text: `✅ Successfully unmounted "${resolvedPath}". Its files are no longer exposed.`,
           },
         ],
       };
     }
+  );
 
-    // Fetch and convert
-    try {
-      const { title, content } = await fetchAndConvert(normalizedUrl);
-
-      const entry: MountedUrlEntry = {
-        url: normalizedUrl,
-        title,
-        content,
-        fetchedAt: new Date().toISOString(),
-      };
+  // ─── Tool: unmount_url ──────────────────────
 
-      mountedUrls.set(normalizedUrl, entry);
-      await saveConfig();
-      bus.urlChange(getUrlInfos());
+  server.tool(
+    "unmount_url",
+    "Unmount a previously mounted web page so it is no longer exposed as a resource.",
+    {
+      url: z.string().describe("URL of the mounted web page, exactly as listed by list_mounts"),
+    },
+    async ({ url }) => {
+      const normalizedUrl = url.trim();
 
-      // Truncate preview
-      const preview = content.length > 200 ? content.slice(0, 200) + "…" : content;
+      if (!(await unmountUrl(normalizedUrl))) {
+        return {
+          content: [
+            { type: "text" as const, text: `ℹ️  "${normalizedUrl}" is not currently mounted.` },
+          ],
+        };
+      }
 
       return {
         content: [
           {
             type: "text" as const,
-            text:
-              `✅ Successfully mounted web page.\n` +
-              `🌐 Title: "${title}"\n` +
-              `🔗 URL: ${normalizedUrl}\n` +
-              `📄 Content: ${content.length} characters (Markdown)\n\n` +
-              `Preview:\n${preview}\n\n` +
-              `This page is now available as a resource.`,
+            text: `✅ Successfully unmounted "${normalizedUrl}". Its cached content has been discarded.`,
           },
         ],
       };
-    } catch (err) {
+    }
+  );
+
+  // ─── Tool: unmount_site ─────────────────────
+
+  server.tool(
+    "unmount_site",
+    "Unmount a crawled site and every page that was mounted from it.",
+    {
+      url: z.string().describe("Start URL of the mounted site, exactly as listed by list_mounts"),
+    },
+    async ({ url }) => {
+      const startUrl = url.trim();
+
+      const removed = await unmountSite(startUrl);
+      if (removed === undefined) {
+        return {
+          content: [
+            { type: "text" as const, text: `ℹ️  "${startUrl}" is not currently mounted as a site.` },
+          ],
+        };
+      }
+
       return {
         content: [
           {
             type: "text" as const,
-            text: `❌ Failed to fetch "${normalizedUrl}": ${err instanceof Error ? err.message : String(err)}`,
+            text: `✅ Successfully unmounted site "${startUrl}" (${removed} page(s) discarded).`,
           },
         ],
       };
     }
-  }
-);
+  );
 
-// ─── Tool: mount_sqlite ─────────────────────
+  // ─── Tool: unmount_sqlite ───────────────────
 
-server.tool(
-  "mount_sqlite",
-  "Mount a local SQLite database file. Its schema is automatically exposed as an MCP resource " +
-    "so the AI knows the table structures. Use query_sqlite to run SELECT queries against it.",
-  {
-    path: z
-      .string()
-      .describe("Absolute path to the SQLite database file, e.g. /Users/you/data.db"),
-  },
-  async ({ path: inputPath }) => {
-    const resolvedPath = path.resolve(inputPath);
+  server.tool(
+    "unmount_sqlite",
+    "Unmount a previously mounted SQLite database or dataset and close its connection.",
+    {
+      path: z.string().describe("Absolute path of the mounted SQLite database or dataset file"),
+    },
+    async ({ path: inputPath }) => {
+      const resolvedPath = path.resolve(inputPath);
+
+      if (!(await unmountDatabase(resolvedPath))) {
+        return {
+          content: [
+            { type: "text" as const, text: `ℹ️  "${resolvedPath}" is not currently mounted.` },
+          ],
+        };
+      }
 
-    // Duplicate check
-    if (mountedDbs.has(resolvedPath)) {
       return {
         content: [
           {
             type: "text" as const,
-            text: `⚠️  "${resolvedPath}" is already mounted — skipping duplicate.`,
+            text: `✅ Successfully unmounted "${resolvedPath}". The database connection has been closed.`,
           },
         ],
       };
     }
+  );
 
-    // Validate file exists
-    try {
-      const stat = await fs.stat(resolvedPath);
-      if (!stat.isFile()) {
+  // ─── Tool: refresh_url ──────────────────────
+
+  server.tool(
+    "refresh_url",
+    "Re-fetch a mounted web page and update its cached Markdown. Reports whether the content changed.",
+    {
+      url: z.string().describe("URL of the mounted web page, exactly as listed by list_mounts"),
+    },
+    async ({ url }) => {
+      const normalizedUrl = url.trim();
+
+      const existing = mountedUrls.get(normalizedUrl);
+      if (!existing) {
         return {
           content: [
-            { type: "text" as const, text: `❌ "${resolvedPath}" is not a file.` },
+            {
+              type: "text" as const,
+              text: `❌ "${normalizedUrl}" is not mounted. Use mount_url first.`,
+            },
           ],
         };
       }
-    } catch {
+
+      let result: UrlRefreshResult;
+      try {
+        result = await refreshUrlEntry(normalizedUrl);
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `❌ Failed to refresh "${normalizedUrl}": ${err instanceof Error ? err.message : String(err)}\n` +
+                `📄 Keeping the cached copy from ${existing.fetchedAt} (marked stale).`,
+            },
+          ],
+        };
+      }
+
+      const { previous, entry } = result;
+      if (!result.changed) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: result.notModified
+                ? `✅ "${entry.title}" is up to date — the server reported no changes since ${previous.fetchedAt}.`
+                : `✅ Refreshed "${entry.title}" — content unchanged since ${previous.fetchedAt}.`,
+            },
+          ],
+        };
+      }
+
       return {
         content: [
-          { type: "text" as const, text: `❌ File "${resolvedPath}" does not exist.` },
+          {
+            type: "text" as const,
+            text:
+              `✅ Refreshed "${entry.title}" — content changed.\n` +
+              (result.titleChanged ? `🏷️  Title: "${previous.title}" → "${entry.title}"\n` : "") +
+              `📄 Content: ${previous.content.length} → ${entry.content.length} characters\n` +
+              `➕ ${result.added} line(s) added, ➖ ${result.removed} line(s) removed`,
+          },
         ],
       };
     }
+  );
+
+  // ─── Tool: list_mounts ─────────────────────
+
+  server.tool(
+    "list_mounts",
+    "List all currently mounted directories, URLs, and databases.",
+    {},
+    async () => {
+      const lines: string[] = [];
+
+      // Folders
+      if (mountedDirs.size > 0) {
+        lines.push("📂 Folders:");
+        for (const [dir, filter] of mountedDirs) {
+          const summary = filter.describe();
+          const git = (await isGitMount(dir)) ? "  🌿 git" : "";
+          lines.push(`   • ${dir}  (${fileWatcher.countIn(dir)} file(s))${summary ? `  [${summary}]` : ""}${git}`);
+        }
+      }
+
+      // URLs (pages crawled as part of a site are listed under their site)
+      const standalonePages = [...mountedUrls.values()].filter((e) => !e.site);
+      if (standalonePages.length > 0) {
+        if (lines.length > 0) lines.push("");
+        lines.push("🌐 Web Pages:");
+        for (const entry of standalonePages) {
+          const policy = entry.ttlMinutes ? `  (every ${entry.ttlMinutes} min)` : "";
+          const stale = entry.stale ? `  ⚠️ stale: ${entry.lastError ?? "refresh failed"}` : "";
+          lines.push(`   • ${entry.title}  →  ${entry.url}${policy}${stale}`);
+        }
+      }
+
+      // Sites
+      if (mountedSites.size > 0) {
+        if (lines.length > 0) lines.push("");
+        lines.push("📚 Sites:");
+        for (const site of mountedSites.values()) {
+          const pages = [...mountedUrls.values()].filter((e) => e.site === site.url);
+          const stale = pages.filter((e) => e.stale).length;
+          lines.push(
+            `   • ${site.url}  (${pages.length} page(s), depth ${site.maxDepth}, crawled ${site.crawledAt})` +
+              (stale > 0 ? `  ⚠️ ${stale} stale` : "")
+          );
+        }
+      }
+
+      // Databases
+      if (mountedDbs.size > 0) {
+        if (lines.length > 0) lines.push("");
+        lines.push("🗄️  Databases:");
+        for (const dbPath of mountedDbs.keys()) {
+          const dataset = mountedDatasets.get(dbPath);
+          lines.push(
+            dataset
+              ? `   • ${dbPath}  (dataset → table "${dataset.table}", ${dataset.info.rows} row(s), loaded ${dataset.loadedAt})` +
+                  (dataset.lastError ? `  ⚠️ reload failed: ${dataset.lastError}` : "")
+              : `   • ${dbPath}`,
+          );
+        }
+      }
+
+      if (lines.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `No directories, URLs, or databases are mounted in workspace "${activeWorkspace}".`,
+            },
+          ],
+        };
+      }
 
-    // Open in read-only mode
-    let db: InstanceType<typeof Database>;
-    try {
-      db = new Database(resolvedPath, { readonly: true });
-    } catch (err) {
       return {
         content: [
           {
             type: "text" as const,
-            text: `❌ Failed to open database: ${err instanceof Error ? err.message : String(err)}`,
+            text: `Currently mounted sources (workspace "${activeWorkspace}"):\n${lines.join("\n")}`,
           },
         ],
       };
     }
+  );
+
+  // ─── Tool: list_workspaces ─────────────────
+
+  server.tool(
+    "list_workspaces",
+    "List the named workspaces (sets of mounts) saved in the config, marking the active one.",
+    {},
+    async () => {
+      let config: ConfigData;
+      try {
+        config = await readConfig();
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `❌ Failed to read config: ${err instanceof Error ? err.message : String(err)}`,
+            },
+          ],
+        };
+      }
 
-    mountedDbs.set(resolvedPath, db);
-    await saveConfig();
-    bus.sqliteChange([...mountedDbs.keys()]);
-
-    // Summarize tables
-    const tables = db
-      .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
-      .all() as { name: string }[];
-
-    const tableList =
-      tables.length > 0
-        ? tables.map((t) => `  • ${t.name}`).join("\n")
-        : "  (no user tables found)";
+      const workspaces = { ...config.workspaces, [activeWorkspace]: currentWorkspace() };
+      const lines = Object.keys(workspaces)
+        .sort()
+        .map((name) =>
+          name === activeWorkspace
+            ? `   ▶ ${name}  (active — ${describeWorkspace(workspaces[name])})`
+            : `   • ${name}  (${describeWorkspace(workspaces[name])})`,
+        );
 
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text:
-            `✅ Successfully mounted SQLite database.\n` +
-            `🗄️  Path: ${resolvedPath}\n` +
-            `📋 Tables (${tables.length}):\n${tableList}\n\n` +
-            `The schema is now available as a resource. Use query_sqlite to run SELECT queries.`,
-        },
-      ],
-    };
-  }
-);
+      return {
+        content: [{ type: "text" as const, text: `🗂️  Workspaces:\n${lines.join("\n")}` }],
+      };
+    }
+  );
+
+  // ─── Tool: create_workspace ────────────────
+
+  server.tool(
+    "create_workspace",
+    "Create a named workspace — a separate set of mounted folders, web pages and databases — " +
+      "and switch to it. Resource lists only include the active workspace's sources.",
+    {
+      name: workspaceNameSchema.describe("Workspace name, e.g. \"billing-service\""),
+      copy_current: z
+        .boolean()
+        .default(false)
+        .describe("Start with a copy of the active workspace's mounts instead of an empty workspace"),
+      switch: z.boolean().default(true).describe("Switch to the new workspace right away (default true)"),
+    },
+    async ({ name, copy_current, switch: activate }) => {
+      const initial = copy_current ? currentWorkspace() : emptyWorkspace();
+      let created = false;
+      try {
+        await updateConfig((config) => {
+          if (config.workspaces[name]) return;
+          config.workspaces[name] = initial;
+          created = true;
+        });
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `❌ Failed to save config: ${err instanceof Error ? err.message : String(err)}`,
+            },
+          ],
+        };
+      }
 
-// ─── Tool: query_sqlite ─────────────────────
+      if (!created) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `ℹ️  Workspace "${name}" already exists. Use switch_workspace to activate it.`,
+            },
+          ],
+        };
+      }
 
-server.tool(
-  "query_sqlite",
-  "Execute a read-only SQL query (SELECT only) against a mounted SQLite database " +
-    "and return the results as JSON. Maximum 100 rows returned.",
-  {
-    path: z.string().describe("Absolute path to the mounted SQLite database file"),
-    sql: z.string().describe("SQL SELECT query to execute"),
-  },
-  async ({ path: inputPath, sql }) => {
-    const resolvedPath = path.resolve(inputPath);
+      if (activate) await switchWorkspace(name);
 
-    // Check DB is mounted
-    const db = mountedDbs.get(resolvedPath);
-    if (!db) {
       return {
         content: [
           {
             type: "text" as const,
-            text: `❌ Database "${resolvedPath}" is not mounted. Use mount_sqlite first.`,
+            text:
+              `✅ Created workspace "${name}" (${describeWorkspace(initial)}).` +
+              (activate ? ` It is now active.` : ` Use switch_workspace to activate it.`),
           },
         ],
       };
     }
+  );
+
+  // ─── Tool: switch_workspace ────────────────
+
+  server.tool(
+    "switch_workspace",
+    "Switch to another named workspace. The current workspace's mounts are saved and closed, and the " +
+      "target workspace's folders, web pages and databases are mounted in their place.",
+    {
+      name: workspaceNameSchema.describe("Name of an existing workspace (see list_workspaces)"),
+    },
+    async ({ name }) => {
+      if (name === activeWorkspace) {
+        return {
+          content: [{ type: "text" as const, text: `ℹ️  Workspace "${name}" is already active.` }],
+        };
+      }
+
+      try {
+        const config = await readConfig();
+        if (!config.workspaces[name]) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `❌ No workspace named "${name}". Use create_workspace to create it, or list_workspaces to see the existing ones.`,
+              },
+            ],
+          };
+        }
+        await switchWorkspace(name);
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `❌ Failed to switch workspace: ${err instanceof Error ? err.message : String(err)}`,
+            },
+          ],
+        };
+      }
 
-    // Safety: only allow SELECT statements
-    const trimmed = sql.trim();
-    if (!/^SELECT\b/i.test(trimmed)) {
       return {
         content: [
           {
             type: "text" as const,
-            text: `❌ Only SELECT queries are allowed. Received: "${trimmed.split(/\s+/)[0]}"`,
+            text: `✅ Switched to workspace "${name}" (${describeWorkspace(currentWorkspace())}).`,
           },
         ],
       };
     }
+  );
+
+  // ─── Tool: search_resources ────────────────
+
+  server.tool(
+    "search_resources",
+    "Ranked keyword search across all mounted folder files and cached web pages " +
+      "(and optionally the text columns of mounted SQLite databases). Returns snippets " +
+      "with resource URIs and line numbers, so only the relevant resources need to be read.",
+    {
+      query: z.string().min(1).describe("Keywords to search for, e.g. \"deployment checklist\""),
+      limit: z.number().int().min(1).max(50).default(10).describe("Maximum number of results (default 10)"),
+      include_databases: z
+        .boolean()
+        .default(false)
+        .describe("Also search text columns of mounted SQLite databases (slower on first use)"),
+    },
+    async ({ query, limit, include_databases }) => {
+      const kinds: SourceKind[] = include_databases ? ["file", "url", "sqlite"] : ["file", "url"];
 
-    // Execute
-    try {
-      bus.resourceRead(`🗄️ query → ${path.basename(resolvedPath)}`);
+      bus.resourceRead(`🔍 search → ${query}`);
+      await refreshSearchIndex(kinds);
+
+      let hits;
+      try {
+        hits = searchIndex.search(query, { limit, kinds });
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `❌ Search failed: ${err instanceof Error ? err.message : String(err)}`,
+            },
+          ],
+        };
+      }
+
+      if (hits.length === 0) {
+        return {
+          content: [{ type: "text" as const, text: `No matches found for "${query}".` }],
+        };
+      }
 
-      const rows = db.prepare(trimmed).all();
-      const capped = rows.slice(0, 100);
-      const truncated = rows.length > 100;
+      const results = hits.map((hit, i) => {
+        const location = hit.kind === "sqlite" ? `row ${hit.line}` : `line ${hit.line}`;
+        return `${i + 1}. ${hit.name}  (${location})\n   ${hit.uri}\n   ${hit.snippet}`;
+      });
 
       return {
         content: [
           {
             type: "text" as const,
-            text:
-              JSON.stringify(capped, null, 2) +
-              (truncated ? `\n\n⚠️ Results truncated to 100 rows (${rows.length} total).` : ""),
+            text: `🔍 ${hits.length} result(s) for "${query}":\n\n${results.join("\n\n")}`,
           },
         ],
       };
-    } catch (err) {
+    }
+  );
+
+  // ─── Tool: read_resource_chunk ─────────────
+
+  server.tool(
+    "read_resource_chunk",
+    "Read part of a mounted file (file:///…), web page (web:///…), commit (git-diff:///…) or old file " +
+      "revision (git-file:///…) by line range, byte range or heading-aligned chunk of roughly N tokens. " +
+      "Without a range it returns the resource's table of contents (headings and chunk list). " +
+      "Line numbers match those in search_resources results.",
+    {
+      uri: z.string().describe("Resource URI, as listed by resources/list or search_resources"),
+      lines: z
+        .string()
+        .optional()
+        .describe("Line range, e.g. \"120-180\" (1-based, inclusive; \"120-\" reads to the end)"),
+      bytes: z
+        .string()
+        .optional()
+        .describe("Byte range of the UTF-8 text, e.g. \"0-65535\" (0-based, inclusive)"),
+      chunk: z.number().int().min(1).optional().describe("Chunk number, as listed in the table of contents"),
+      chunk_tokens: z
+        .number()
+        .int()
+        .min(100)
+        .max(50_000)
+        .default(DEFAULT_CHUNK_TOKENS)
+        .describe(`Approximate chunk size in tokens (default ${DEFAULT_CHUNK_TOKENS})`),
+    },
+    async ({ uri, lines, bytes, chunk, chunk_tokens }) => {
+      const requested = uri.trim();
+
+      let resource: ResourceText;
+      let baseUri: string;
+      let params: URLSearchParams;
+      try {
+        if (requested.startsWith("file:///")) {
+          ({ rest: baseUri, params } = takeRangeParams(requested));
+          resource = await loadFileText(baseUri.slice("file:///".length));
+        } else if (requested.startsWith("web:///")) {
+          const found = findMountedPage(requested.slice("web:///".length));
+          if (!found.entry) throw new Error(`URL not mounted: ${requested.slice("web:///".length)}`);
+          baseUri = `web:///${found.entry.url}`;
+          params = found.params;
+          resource = loadPageText(found.entry);
+        } else if (requested.startsWith("git-diff:///") || requested.startsWith("git-file:///")) {
+          ({ rest: baseUri, params } = takeRangeParams(requested));
+          resource = await loadGitText(new URL(baseUri));
+        } else {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `❌ Only file:///, web:///, git-diff:/// and git-file:/// resources can be read in chunks (got "${requested}").`,
+              },
+            ],
+          };
+        }
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `❌ ${err instanceof Error ? err.message : String(err)}` }],
+        };
+      }
+
+      if (lines !== undefined) params.set("lines", lines);
+      if (bytes !== undefined) params.set("bytes", bytes);
+      if (chunk !== undefined) params.set("chunk", String(chunk));
+      if (!params.has("tokens")) params.set("tokens", String(chunk_tokens));
+
+      let slice;
+      try {
+        const request = parseRangeParams(params);
+        if (!request) {
+          const note = "ℹ️ No range given — pass lines, bytes or chunk to read part of this resource.";
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: buildTableOfContents(baseUri, resource, Number(params.get("tokens")), note),
+              },
+            ],
+          };
+        }
+        slice = sliceText(resource.text, request);
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `❌ ${err instanceof Error ? err.message : String(err)}` }],
+        };
+      }
+
       return {
         content: [
           {
             type: "text" as const,
-            text: `❌ Query failed: ${err instanceof Error ? err.message : String(err)}`,
+            text: `📄 ${resource.label} — ${slice.position}\n\n${slice.text}`,
           },
         ],
       };
     }
-  }
-);
-
-// ─── Tool: unmount_folder ───────────────────
+  );
+
+  // ─── Tool: git_log ─────────────────────────
+
+  server.tool(
+    "git_log",
+    "Recent commits touching a git-backed mounted folder, one of its sub-folders or a single file " +
+      "(a file's history is followed across renames). Answers \"what changed recently in …?\".",
+    {
+      path: z.string().describe("Mounted folder, sub-folder or file inside a git repository"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(GIT_LOG_MAX_LIMIT)
+        .default(GIT_LOG_DEFAULT_LIMIT)
+        .describe(`Maximum number of commits (default ${GIT_LOG_DEFAULT_LIMIT}, max ${GIT_LOG_MAX_LIMIT})`),
+      since: z.string().optional().describe("Only commits after this date, e.g. 2024-05-01 or \"2 weeks ago\""),
+    },
+    async ({ path: inputPath, limit, since }) =>
+      textToolResult(async () => buildGitLog(await resolveGitTarget(path.resolve(inputPath)), limit, since))
+  );
+
+  // ─── Tool: git_show_commit ─────────────────
+
+  server.tool(
+    "git_show_commit",
+    "Show a commit's message, changed files and patch, limited to the files the mount exposes under the given path.",
+    {
+      path: z.string().describe("Mounted folder, sub-folder or file inside a git repository"),
+      rev: z.string().describe("Commit hash, branch, tag or expression such as HEAD~1"),
+    },
+    async ({ path: inputPath, rev }) =>
+      textToolResult(async () => {
+        const target = await resolveGitTarget(path.resolve(inputPath));
+        const hash = (await revisionOf(target, rev, true))!;
+        const resource = await loadGitDiff(target, hash);
+        return selectText(`git-diff:///${target.absolute}?rev=${hash}`, resource, new URLSearchParams()).text;
+      })
+  );
+
+  // ─── Tool: git_blame ───────────────────────
+
+  server.tool(
+    "git_blame",
+    "Show who last changed each line of a mounted file in a git repository, with commit and date.",
+    {
+      path: z.string().describe("Mounted file inside a git repository"),
+      rev: z.string().optional().describe("Blame the file as of this revision (default: the working tree)"),
+      lines: z.string().optional().describe("Line range, e.g. \"120-180\" (1-based, inclusive)"),
+    },
+    async ({ path: inputPath, rev, lines }) =>
+      textToolResult(async () => {
+        const target = await resolveGitTarget(path.resolve(inputPath), true);
+        return buildGitBlame(target, await revisionOf(target, rev, false), lines);
+      })
+  );
+
+  // ─── Tool: git_file_at_revision ────────────
+
+  server.tool(
+    "git_file_at_revision",
+    "Read a mounted file as it was at a given revision. Large files return their table of contents; " +
+      "read parts of them with read_resource_chunk on the git-file:/// URI it names.",
+    {
+      path: z.string().describe("Mounted file inside a git repository (it may since have been deleted)"),
+      rev: z.string().describe("Commit hash, branch, tag or expression such as HEAD~3"),
+    },
+    async ({ path: inputPath, rev }) =>
+      textToolResult(async () => {
+        const target = await resolveGitTarget(path.resolve(inputPath), true);
+        const hash = (await revisionOf(target, rev, true))!;
+        const resource = await loadGitFile(target, hash);
+        return selectText(`git-file:///${target.absolute}?rev=${hash}`, resource, new URLSearchParams()).text;
+      })
+  );
+
+  // ─── Tools: write_file / append_file / apply_patch ─
+
+  const dryRunSchema = z
+    .boolean()
+    .default(false)
+    .describe("Only return the unified diff of what would change, without writing anything");
+
+  session.writeTools.push(
+    server.tool(
+      "write_file",
+      "Create a file, or replace its contents, inside a mount created with writable: true. " +
+        "The previous version is backed up first. Missing parent folders are created.",
+      {
+        path: z.string().describe("Absolute path of the file, inside a writable mount"),
+        content: z.string().describe("The complete new contents of the file"),
+        dry_run: dryRunSchema,
+      },
+      async ({ path: inputPath, content, dry_run }) =>
+        textToolResult(async () => {
+          const filePath = await resolveWritableFile(mountedDirs.values(), inputPath);
+          return withFileLocks([filePath], async () => {
+            const writes = [{ filePath, before: await readIfExists(filePath), after: content }];
+            return commitWrites("write_file", writes, { ...WRITE_OPTIONS, dryRun: dry_run });
+          });
+        })
+    ),
+
+    server.tool(
+      "append_file",
+      "Append text to the end of a file inside a writable mount (creating it if needed), e.g. a new " +
+        "meeting-notes entry or changelog line. The previous version is backed up first.",
+      {
+        path: z.string().describe("Absolute path of the file, inside a writable mount"),
+        content: z
+          .string()
+          .describe("Text to append; a line break is inserted first if the file does not end with one"),
+        dry_run: dryRunSchema,
+      },
+      async ({ path: inputPath, content, dry_run }) =>
+        textToolResult(async () => {
+          const filePath = await resolveWritableFile(mountedDirs.values(), inputPath);
+          return withFileLocks([filePath], async () => {
+            const before = await readIfExists(filePath);
+            const separator = before && !before.endsWith("\n") ? "\n" : "";
+            const writes = [{ filePath, before, after: (before ?? "") + separator + content }];
+            return commitWrites("append_file", writes, { ...WRITE_OPTIONS, dryRun: dry_run });
+          });
+        })
+    ),
+
+    server.tool(
+      "apply_patch",
+      "Apply a unified diff (as produced by git diff or diff -u) to files inside writable mounts. " +
+        "Every hunk must apply cleanly or nothing is written; changed files are backed up first. " +
+        "Files can be created (--- /dev/null) but not deleted or renamed.",
+      {
+        path: z
+          .string()
+          .describe("The file to patch, or the folder the patch's ---/+++ paths are relative to (a/ and b/ prefixes are dropped)"),
+        patch: z.string().describe("Unified diff text with @@ hunks"),
+        dry_run: dryRunSchema,
+      },
+      async ({ path: inputPath, patch, dry_run }) =>
+        textToolResult(async () => {
+          // Find the files first, then work out the patch again under their locks
+          const targets = (await preparePatch(mountedDirs.values(), inputPath, patch)).map((w) => w.filePath);
+          return withFileLocks(targets, async () => {
+            const writes = await preparePatch(mountedDirs.values(), inputPath, patch);
+            return commitWrites("apply_patch", writes, { ...WRITE_OPTIONS, dryRun: dry_run });
+          });
+        })
+    ),
+  );
+
+  // ─── Tool: query_audit_log ─────────────────
+
+  server.tool(
+    "query_audit_log",
+    "Query the persistent audit log of tool calls and resource reads (including SQL text, client, session, " +
+      "bytes returned, duration and outcome). Entries are returned newest first.",
+    {
+      since: z.string().optional().describe("Only entries at or after this ISO date/time, e.g. 2024-05-01 or 2024-05-01T12:00:00Z"),
+      until: z.string().optional().describe("Only entries before this ISO date/time"),
+      kind: z.enum(["tool", "resource"]).optional().describe("Only tool calls or only resource reads"),
+      name: z.string().optional().describe("Tool name or resource template name, e.g. \"query_sqlite\" or \"local-files\""),
+      session: z.string().optional().describe("Only entries from this session ID (\"stdio\" for the stdio transport)"),
+      outcome: z.enum(["ok", "error"]).optional().describe("Only successful or only failed operations"),
+      contains: z.string().optional().describe("Substring to look for in the URI / arguments, SQL text or error"),
+      format: z
+        .enum(["markdown", "json", "jsonl", "csv"])
+        .default("markdown")
+        .describe("Output format (default markdown)"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(AUDIT_MAX_ROWS)
+        .default(50)
+        .describe(`Maximum number of entries (default 50, max ${AUDIT_MAX_ROWS})`),
+    },
+    async ({ since, until, format, limit, ...rest }) => {
+      let filter: AuditFilter;
+      try {
+        filter = {
+          ...rest,
+          since: since === undefined ? undefined : parseAuditTime(since, "since"),
+          until: until === undefined ? undefined : parseAuditTime(until, "until"),
+        };
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `❌ ${err instanceof Error ? err.message : String(err)}` }],
+        };
+      }
 
-server.tool(
-  "unmount_folder",
-  "Unmount a previously mounted folder so its files are no longer exposed as resources.",
-  {
-    path: z.string().describe("Absolute path of the folder to unmount"),
-  },
-  async ({ path: inputPath }) => {
-    const resolvedPath = path.resolve(inputPath);
+      const { entries, total } = auditLog.query(filter, limit);
+      if (total === 0) {
+        return {
+          content: [{ type: "text" as const, text: "No audit entries match." }],
+        };
+      }
 
-    if (!mountedDirs.has(resolvedPath)) {
       return {
         content: [
-          { type: "text" as const, text: `ℹ️  "${resolvedPath}" is not currently mounted.` },
+          {
+            type: "text" as const,
+            text:
+              `📜 ${entries.length} of ${total} matching audit entr${total === 1 ? "y" : "ies"} (newest first):\n\n` +
+              formatAuditEntries(entries as unknown as Record<string, unknown>[], format),
+          },
+        ],
+      };
+    }
+  );
+
+  // ─── Tool: get_stats ───────────────────────
+
+  server.tool(
+    "get_stats",
+    "Usage statistics since the server started: reads and bytes per mounted source and per resource, " +
+      "tool-call and error counts, and handler latency percentiles.",
+    {
+      format: z
+        .enum(["markdown", "json", "prometheus"])
+        .default("markdown")
+        .describe("Output format (default markdown; prometheus = text exposition format)"),
+      top: z
+        .number()
+        .int()
+        .min(1)
+        .max(1000)
+        .default(10)
+        .describe("How many of the most-read sources and resources to list (default 10; markdown only)"),
+      reset: z.boolean().default(false).describe("Reset all counters to zero after reading them"),
+    },
+    async ({ format, top, reset }) => {
+      const snapshot = metrics.snapshot();
+      if (reset) metrics.reset();
+
+      const text =
+        format === "json"
+          ? JSON.stringify(snapshot, null, 2)
+          : format === "prometheus"
+            ? toPrometheus(snapshot)
+            : buildStatsMarkdown(snapshot, top);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: reset ? `${text}\n\n🔄 Counters reset.` : text,
+          },
         ],
       };
     }
+  );
 
-    mountedDirs.delete(resolvedPath);
-    await saveConfig();
-    bus.mountChange([...mountedDirs]);
+  syncWriteTools(session);
+  return session;
+}
 
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: `✅ Successfully unmounted "${resolvedPath}". Its files are no longer exposed.`,
-        },
-      ],
-    };
+/** Attach a new session to a transport and track it until it closes */
+async function connectSession(transport: Transport): Promise<void> {
+  const session = createSession();
+  session.server.server.onclose = () => {
+    sessions.delete(session);
+    bus.sessionsChange(sessions.size);
+  };
+  sessions.add(session);
+  await session.server.connect(transport);
+  bus.sessionsChange(sessions.size);
+}
+
+// ──────────────────────────────────────────────
+// Boot
+// ──────────────────────────────────────────────
+
+/** Command-line flags */
+interface CliOptions {
+  transport: "stdio" | "http";
+  host: string;
+  port: number;
+  token?: string;
+  /** Days of audit history to keep; 0 keeps everything */
+  auditRetentionDays: number;
+  config: string;
+  /** Workspace to start in instead of the last active one */
+  workspace?: string;
+  /** Read dashboard keys from the terminal */
+  interactive: boolean;
+  /** Serve Prometheus metrics at /metrics (HTTP transport only) */
+  metrics: boolean;
+  /** Full-read ceiling for files and pages in KB; 0 = unlimited */
+  maxReadKb: number;
+}
+
+function parseCliOptions(): CliOptions {
+  const { values } = parseArgs({
+    options: {
+      transport: { type: "string", default: "stdio" },
+      host: { type: "string", default: "127.0.0.1" },
+      port: { type: "string", default: "3333" },
+      token: { type: "string" },
+      "audit-retention-days": { type: "string" },
+      config: { type: "string" },
+      workspace: { type: "string" },
+      interactive: { type: "boolean", default: false },
+      metrics: { type: "boolean", default: false },
+      "max-read-kb": { type: "string" },
+    },
+  });
+
+  if (values.transport !== "stdio" && values.transport !== "http") {
+    throw new Error(`Unknown transport "${values.transport}" (expected "stdio" or "http")`);
+  }
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${values.port}"`);
+  }
+  const retention =
+    values["audit-retention-days"] ?? process.env.OMNI_MCP_AUDIT_RETENTION_DAYS ?? String(DEFAULT_AUDIT_RETENTION_DAYS);
+  const auditRetentionDays = Number(retention);
+  if (!Number.isFinite(auditRetentionDays) || auditRetentionDays < 0) {
+    throw new Error(`Invalid audit retention "${retention}" (expected a number of days, 0 to keep everything)`);
   }
-);
+  const maxRead = values["max-read-kb"] ?? process.env.OMNI_MCP_MAX_READ_KB ?? String(DEFAULT_MAX_READ_KB);
+  const maxReadKb = Number(maxRead);
+  if (!Number.isFinite(maxReadKb) || maxReadKb < 0) {
+    throw new Error(`Invalid read limit "${maxRead}" (expected a size in KB, 0 for no limit)`);
+  }
+  if (values.metrics && values.transport !== "http") {
+    throw new Error("--metrics needs the HTTP transport (--transport http); use the get_stats tool over stdio");
+  }
+  const workspace = values.workspace ?? process.env.OMNI_MCP_WORKSPACE;
+  if (workspace !== undefined && !WORKSPACE_NAME_PATTERN.test(workspace)) {
+    throw new Error(`Invalid workspace name "${workspace}"`);
+  }
+  return {
+    transport: values.transport,
+    host: values.host,
+    port,
+    token: values.token ?? process.env.OMNI_MCP_TOKEN,
+    auditRetentionDays,
+    config: path.resolve(values.config ?? process.env.OMNI_MCP_CONFIG ?? DEFAULT_CONFIG_FILE),
+    workspace,
+    interactive: values.interactive,
+    metrics: values.metrics,
+    maxReadKb,
+  };
+}
 
-// ─── Tool: list_mounts ─────────────────────
+async function main() {
+  // Management commands edit the config and exit without starting a server
+  if (isCliCommand(process.argv[2])) {
+    process.exit(await runCli(process.argv.slice(2), { defaultConfigFile: DEFAULT_CONFIG_FILE }));
+  }
 
-server.tool(
-  "list_mounts",
-  "List all currently mounted directories, URLs, and databases.",
-  {},
-  async () => {
-    const lines: string[] = [];
+  const cli = parseCliOptions();
 
-    // Folders
-    if (mountedDirs.size > 0) {
-      lines.push("📂 Folders:");
-      for (const dir of mountedDirs) {
-        const files = await collectFiles(dir);
-        lines.push(`   • ${dir}  (${files.length} file(s))`);
-      }
-    }
+  searchIndex = new SearchIndex(SEARCH_INDEX_FILE);
+  auditLog = new AuditLog(AUDIT_LOG_FILE);
 
-    // URLs
-    if (mountedUrls.size > 0) {
-      if (lines.length > 0) lines.push("");
-      lines.push("🌐 Web Pages:");
-      for (const entry of mountedUrls.values()) {
-        lines.push(`   • ${entry.title}  →  ${entry.url}`);
-      }
-    }
+  maxReadBytes = Math.round(cli.maxReadKb * 1024);
 
-    // Databases
-    if (mountedDbs.size > 0) {
-      if (lines.length > 0) lines.push("");
-      lines.push("🗄️  Databases:");
-      for (const dbPath of mountedDbs.keys()) {
-        lines.push(`   • ${dbPath}`);
-      }
-    }
+  // Load persisted mounts
+  configFile = cli.config;
+  await loadMounts(cli.workspace);
 
-    if (lines.length === 0) {
-      return {
-        content: [{ type: "text" as const, text: "No directories, URLs, or databases are currently mounted." }],
-      };
-    }
+  // Apply mounts added or removed by the CLI or another server while we run
+  watchConfigFile();
 
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: `Currently mounted sources:\n${lines.join("\n")}`,
-        },
-      ],
-    };
+  // Index and start watching every mounted folder
+  for (const dir of mountedDirs.keys()) {
+    await fileWatcher.add(dir);
   }
-);
 
-// ──────────────────────────────────────────────
-// Boot
-// ──────────────────────────────────────────────
+  // Keep TTL-based web pages fresh in the background
+  startUrlRefreshScheduler();
 
-async function main() {
-  // Load persisted mounts
-  await loadMounts();
+  // Drop audit entries past the retention period
+  startAuditRetention(cli.auditRetentionDays);
+
+  const actions = cli.interactive ? dashboardActions : undefined;
+
+  if (cli.transport === "http") {
+    // Never serve HTTP unauthenticated — mint a token if none was configured
+    const token = cli.token ?? randomBytes(24).toString("base64url");
+    if (!cli.token) {
+      console.error(`🔑 No token configured (--token / OMNI_MCP_TOKEN). Generated one for this run:\n   ${token}`);
+    }
 
-  // Always include the default directory
-  mountedDirs.add(DEFAULT_DIR);
+    const httpServer = await startHttpTransport({
+      host: cli.host,
+      port: cli.port,
+      token,
+      connect: connectSession,
+      metrics: cli.metrics ? () => toPrometheus(metrics.snapshot()) : undefined,
+    });
+    const address = httpServer.address();
+    const port = typeof address === "object" && address ? address.port : cli.port;
+
+    startDashboard([...mountedDirs.keys()], getUrlInfos(), [...mountedDbs.keys()], `http ${cli.host}:${port}`, activeWorkspace, actions);
+    console.error(`🌍 Streamable HTTP: http://${cli.host}:${port}/mcp  ·  SSE: http://${cli.host}:${port}/sse`);
+    if (cli.metrics) console.error(`📊 Prometheus metrics: http://${cli.host}:${port}/metrics`);
+    bus.serverOnline();
+    return;
+  }
 
   // Launch TUI dashboard (renders to stderr; falls back to plain text if non-TTY)
-  startDashboard([...mountedDirs], getUrlInfos(), [...mountedDbs.keys()]);
+  startDashboard([...mountedDirs.keys()], getUrlInfos(), [...mountedDbs.keys()], "stdio transport", activeWorkspace, actions);
 
   // Connect MCP transport (uses stdout/stdin)
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await connectSession(new StdioServerTransport());
 
   // Signal dashboard that we're online
   bus.serverOnline();
+
+  // Exit when the client closes stdin — the file watchers would otherwise keep us alive
+  process.stdin.on("end", () => {
+    void fileWatcher.close().finally(() => process.exit(0));
+  });
 }
 
 main().catch((err) => {
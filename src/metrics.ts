@@ -0,0 +1,223 @@
+/**
+ * Usage metrics — in-memory counters fed by the event bus.
+ *
+ * Tracks how often each resource and each mounted source is read, how many
+ * bytes were served, how long handlers take and how often tools are called
+ * or fail. Counters start at zero with every process; the audit log is the
+ * durable record.
+ */
+
+import { bus, type OperationEvent } from "./events.js";
+
+// ─── Types ─────────────────────────────────
+
+export interface ReadCounter {
+  reads: number;
+  bytes: number;
+  errors: number;
+}
+
+export interface LatencySummary {
+  /** Samples the percentiles are computed from (the most recent calls) */
+  samples: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface HandlerStats {
+  kind: OperationEvent["kind"];
+  name: string;
+  calls: number;
+  errors: number;
+  bytes: number;
+  /** Sum of all durations, in milliseconds */
+  totalMs: number;
+  latency: LatencySummary;
+}
+
+export interface MetricsSnapshot {
+  /** ISO timestamp the counters started from */
+  since: string;
+  totals: { resourceReads: number; toolCalls: number; errors: number; bytes: number };
+  handlers: HandlerStats[];
+  sources: (ReadCounter & { source: string })[];
+  resources: (ReadCounter & { uri: string })[];
+}
+
+/** Latency samples kept per handler for percentiles */
+const LATENCY_WINDOW = 1024;
+
+/** Distinct resource URIs tracked before further ones are pooled */
+const MAX_TRACKED_RESOURCES = 5000;
+
+/** Bucket for reads of resources beyond MAX_TRACKED_RESOURCES */
+const OTHER_RESOURCES = "(other)";
+
+interface HandlerState {
+  kind: OperationEvent["kind"];
+  name: string;
+  calls: number;
+  errors: number;
+  bytes: number;
+  totalMs: number;
+  /** Ring buffer of the most recent durations */
+  window: number[];
+  next: number;
+}
+
+/** Nearest-rank percentile of an ascending list */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)] ?? 0;
+}
+
+function summarizeLatency(window: number[]): LatencySummary {
+  const sorted = [...window].sort((a, b) => a - b);
+  return {
+    samples: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted.at(-1) ?? 0,
+  };
+}
+
+function count(map: Map<string, ReadCounter>, key: string, op: OperationEvent): void {
+  let counter = map.get(key);
+  if (!counter) {
+    counter = { reads: 0, bytes: 0, errors: 0 };
+    map.set(key, counter);
+  }
+  counter.reads++;
+  counter.bytes += op.bytes;
+  if (op.error !== undefined) counter.errors++;
+}
+
+/** Human-readable byte count */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// ─── Prometheus ────────────────────────────
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/** Render a snapshot in the Prometheus text exposition format */
+export function toPrometheus(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string, samples: [Record<string, string>, number][]) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [labelValues, value] of samples) lines.push(`${name}${labels(labelValues)} ${value}`);
+  };
+
+  metric("omni_mcp_start_time_seconds", "gauge", "Unix time the metrics were started from.", [
+    [{}, Math.floor(Date.parse(snapshot.since) / 1000)],
+  ]);
+
+  const handler = (h: HandlerStats) => ({ kind: h.kind, name: h.name });
+  metric("omni_mcp_handler_calls_total", "counter", "Tool calls and resource reads, by handler.",
+    snapshot.handlers.map((h) => [handler(h), h.calls]));
+  metric("omni_mcp_handler_errors_total", "counter", "Failed tool calls and resource reads, by handler.",
+    snapshot.handlers.map((h) => [handler(h), h.errors]));
+  metric("omni_mcp_handler_bytes_total", "counter", "Bytes returned, by handler.",
+    snapshot.handlers.map((h) => [handler(h), h.bytes]));
+
+  lines.push(
+    "# HELP omni_mcp_handler_duration_seconds Handler latency; quantiles cover the most recent calls.",
+    "# TYPE omni_mcp_handler_duration_seconds summary",
+  );
+  for (const h of snapshot.handlers) {
+    for (const [quantile, ms] of [["0.5", h.latency.p50], ["0.9", h.latency.p90], ["0.99", h.latency.p99]] as const) {
+      lines.push(`omni_mcp_handler_duration_seconds${labels({ ...handler(h), quantile })} ${ms / 1000}`);
+    }
+    lines.push(`omni_mcp_handler_duration_seconds_sum${labels(handler(h))} ${h.totalMs / 1000}`);
+    lines.push(`omni_mcp_handler_duration_seconds_count${labels(handler(h))} ${h.calls}`);
+  }
+
+  metric("omni_mcp_source_reads_total", "counter", "Resource reads, by mounted source.",
+    snapshot.sources.map((s) => [{ source: s.source }, s.reads]));
+  metric("omni_mcp_source_bytes_total", "counter", "Bytes served from resource reads, by mounted source.",
+    snapshot.sources.map((s) => [{ source: s.source }, s.bytes]));
+  metric("omni_mcp_resource_reads_total", "counter", "Reads of each resource.",
+    snapshot.resources.map((r) => [{ uri: r.uri }, r.reads]));
+  metric("omni_mcp_resource_bytes_total", "counter", "Bytes served for each resource.",
+    snapshot.resources.map((r) => [{ uri: r.uri }, r.bytes]));
+
+  return lines.join("\n") + "\n";
+}
+
+// ─── Collector ─────────────────────────────
+
+export class MetricsCollector {
+  private since = new Date().toISOString();
+  private handlers = new Map<string, HandlerState>();
+  private sources = new Map<string, ReadCounter>();
+  private resources = new Map<string, ReadCounter>();
+
+  constructor() {
+    bus.on("operation", (op: OperationEvent) => this.record(op));
+  }
+
+  record(op: OperationEvent): void {
+    const key = `${op.kind}:${op.name}`;
+    let state = this.handlers.get(key);
+    if (!state) {
+      state = { kind: op.kind, name: op.name, calls: 0, errors: 0, bytes: 0, totalMs: 0, window: [], next: 0 };
+      this.handlers.set(key, state);
+    }
+    state.calls++;
+    state.bytes += op.bytes;
+    state.totalMs += op.durationMs;
+    if (op.error !== undefined) state.errors++;
+    state.window[state.next] = op.durationMs;
+    state.next = (state.next + 1) % LATENCY_WINDOW;
+
+    if (op.kind !== "resource" || op.uri === undefined) return;
+    const tracked = this.resources.has(op.uri) || this.resources.size < MAX_TRACKED_RESOURCES;
+    count(this.resources, tracked ? op.uri : OTHER_RESOURCES, op);
+    if (op.source !== undefined) count(this.sources, op.source, op);
+  }
+
+  /** Current counters; sources and resources are sorted by read count */
+  snapshot(): MetricsSnapshot {
+    const handlers = [...this.handlers.values()]
+      .map(({ window, next, ...rest }) => ({ ...rest, latency: summarizeLatency(window) }))
+      .sort((a, b) => b.calls - a.calls || a.name.localeCompare(b.name));
+    const byReads = <T extends ReadCounter>(a: T, b: T) => b.reads - a.reads || b.bytes - a.bytes;
+
+    return {
+      since: this.since,
+      totals: {
+        resourceReads: handlers.filter((h) => h.kind === "resource").reduce((sum, h) => sum + h.calls, 0),
+        toolCalls: handlers.filter((h) => h.kind === "tool").reduce((sum, h) => sum + h.calls, 0),
+        errors: handlers.reduce((sum, h) => sum + h.errors, 0),
+        bytes: handlers.reduce((sum, h) => sum + h.bytes, 0),
+      },
+      handlers,
+      sources: [...this.sources].map(([source, c]) => ({ source, ...c })).sort(byReads),
+      resources: [...this.resources].map(([uri, c]) => ({ uri, ...c })).sort(byReads),
+    };
+  }
+
+  /** Start counting from zero again */
+  reset(): void {
+    this.since = new Date().toISOString();
+    this.handlers.clear();
+    this.sources.clear();
+    this.resources.clear();
+  }
+}
+
+/** Process-wide collector, shared by the MCP handlers and the dashboard */
+export const metrics = new MetricsCollector();
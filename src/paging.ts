@@ -0,0 +1,67 @@
+/**
+ * resources/list paging — splits the single resource list McpServer builds
+ * from the registered templates into cursor-addressed pages.
+ *
+ * Pages are ordered by URI and the cursor names the last URI already sent,
+ * so a client paging through while mounts change sees no duplicates and
+ * skips nothing that was there for the whole walk.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  type ListResourcesRequest,
+  type ListResourcesResult,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/** Resources returned per resources/list page */
+export const RESOURCE_PAGE_SIZE = 500;
+
+/** Opaque resources/list cursor holding the last URI of the previous page */
+function encodeListCursor(after: string): string {
+  return Buffer.from(JSON.stringify({ after })).toString("base64url");
+}
+
+function decodeListCursor(cursor: string): string {
+  try {
+    const { after } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as { after?: unknown };
+    if (typeof after === "string") return after;
+  } catch {
+    // Reported below
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Invalid resources/list cursor: ${cursor}`);
+}
+
+/**
+ * One page of a resource list, ordered by URI. The cursor names the last URI
+ * already returned, so paging stays consistent while mounts change in between.
+ */
+export function pageResources(resources: Resource[], cursor: string | undefined): ListResourcesResult {
+  const after = cursor === undefined ? undefined : decodeListCursor(cursor);
+  const sorted = [...resources].sort((a, b) => (a.uri < b.uri ? -1 : a.uri > b.uri ? 1 : 0));
+  const start = after === undefined ? 0 : sorted.findIndex((r) => r.uri > after);
+  if (start === -1) return { resources: [] };
+
+  const page = sorted.slice(start, start + RESOURCE_PAGE_SIZE);
+  const more = start + page.length < sorted.length;
+  return { resources: page, ...(more && { nextCursor: encodeListCursor(page[page.length - 1]!.uri) }) };
+}
+
+/**
+ * Serve the resources/list response McpServer assembles from the resource
+ * templates in pages. Must run before the first resource is registered, since
+ * that is when McpServer installs its handler.
+ */
+export function paginateResourceList(server: McpServer): void {
+  const setRequestHandler = server.server.setRequestHandler.bind(server.server) as (...args: unknown[]) => void;
+  server.server.setRequestHandler = ((schema: unknown, handler: (...args: unknown[]) => unknown) => {
+    if (schema !== ListResourcesRequestSchema) return setRequestHandler(schema, handler);
+    setRequestHandler(schema, async (request: ListResourcesRequest, extra: unknown) => {
+      const { resources } = (await handler(request, extra)) as ListResourcesResult;
+      return pageResources(resources, request.params?.cursor);
+    });
+  }) as McpServer["server"]["setRequestHandler"];
+}
@@ -0,0 +1,321 @@
+/**
+ * Unified diffs — produce them (for dry runs and write reports) and apply
+ * them (for apply_patch).
+ *
+ * Diffs are line-based (Myers' algorithm) with three lines of context, in
+ * the format `git diff` and `patch` understand. When applying, each hunk's
+ * context must match the file exactly, apart from line endings; a hunk may
+ * sit up to MAX_HUNK_OFFSET lines away from where its header says, as with
+ * `patch`.
+ */
+
+// ─── Types ─────────────────────────────────
+
+export interface HunkLine {
+  kind: " " | "-" | "+";
+  text: string;
+  /** Followed by "\ No newline at end of file" */
+  noNewline?: boolean;
+}
+
+export interface Hunk {
+  /** The "@@ -a,b +c,d @@" line */
+  header: string;
+  /** 1-based first line in the original file (the line before, for pure insertions) */
+  oldStart: number;
+  lines: HunkLine[];
+}
+
+export interface FilePatch {
+  /** Path from the "---" line; undefined for /dev/null or a patch without headers */
+  oldPath?: string;
+  /** Path from the "+++" line; undefined for /dev/null or a patch without headers */
+  newPath?: string;
+  /** True when the "---" side is /dev/null, i.e. the patch creates the file */
+  creates: boolean;
+  /** True when the "+++" side is /dev/null, i.e. the patch deletes the file */
+  deletes: boolean;
+  hunks: Hunk[];
+}
+
+export interface TextDiff {
+  /** Unified diff, "" when the texts are identical */
+  diff: string;
+  added: number;
+  removed: number;
+}
+
+/** A patch that cannot be parsed or does not fit the file */
+export class PatchError extends Error {}
+
+/** Lines of context around each change */
+const CONTEXT_LINES = 3;
+
+/** Largest edit graph explored before falling back to "replace everything" */
+const MAX_DIFF_CELLS = 20_000_000;
+
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+/** Split into lines, each keeping its terminator (the last may have none) */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/** A line without its "\n" or "\r\n" terminator */
+const content = (line: string) => line.replace(/\r?\n$/, "");
+
+// ─── Diffing ───────────────────────────────
+
+type Edit = { kind: HunkLine["kind"]; line: string };
+
+/** Shortest edit script between two line lists (Myers, with the trace kept for backtracking) */
+function myers(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const replaceAll = (): Edit[] => [
+    ...a.map((line) => ({ kind: "-" as const, line })),
+    ...b.map((line) => ({ kind: "+" as const, line })),
+  ];
+
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    if ((d + 1) * v.length > MAX_DIFF_CELLS) return replaceAll();
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + max]! < v[k + 1 + max]!) ? v[k + 1 + max]! : v[k - 1 + max]! + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + max] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d]!;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && prev[k - 1 + max]! < prev[k + 1 + max]!) ? k + 1 : k - 1;
+    const prevX = prev[prevK + max]!;
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      edits.push({ kind: " ", line: a[--x]! });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) edits.push({ kind: "+", line: b[--y]! });
+      else edits.push({ kind: "-", line: a[--x]! });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return edits.reverse();
+}
+
+/** Line edits turning `a` into `b`; common leading and trailing lines are matched up front */
+function diffLines(a: string[], b: string[]): Edit[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const same = (line: string): Edit => ({ kind: " ", line });
+  return [
+    ...a.slice(0, start).map(same),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(same),
+  ];
+}
+
+/** "@@ -a,b +c,d @@" — counts of 1 are left out, as git does */
+function hunkRange(start: number, count: number): string {
+  const from = count === 0 ? start : start + 1;
+  return count === 1 ? `${from}` : `${from},${count}`;
+}
+
+/**
+ * Unified diff from `before` to `after`, labelled with `name`. `before`
+ * undefined means the file does not exist yet.
+ */
+export function unifiedDiff(name: string, before: string | undefined, after: string): TextDiff {
+  const edits = diffLines(splitLines(before ?? ""), splitLines(after));
+  const changed = edits.flatMap((e, i) => (e.kind === " " ? [] : [i]));
+  if (changed.length === 0 && before !== undefined) return { diff: "", added: 0, removed: 0 };
+
+  // Group changes whose context overlaps into hunks
+  const groups: [number, number][] = [];
+  for (const i of changed) {
+    const last = groups.at(-1);
+    if (last && i - last[1] <= 2 * CONTEXT_LINES + 1) last[1] = i;
+    else groups.push([i, i]);
+  }
+
+  // Line numbers (0-based, before each edit) on both sides
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const e of edits) {
+    oldAt.push(oldLine);
+    newAt.push(newLine);
+    if (e.kind !== "+") oldLine++;
+    if (e.kind !== "-") newLine++;
+  }
+  oldAt.push(oldLine);
+  newAt.push(newLine);
+
+  const out = [before === undefined ? "--- /dev/null" : `--- a/${name}`, `+++ b/${name}`];
+  let added = 0;
+  let removed = 0;
+  for (const [first, last] of groups) {
+    const from = Math.max(0, first - CONTEXT_LINES);
+    const to = Math.min(edits.length, last + CONTEXT_LINES + 1);
+    out.push(
+      `@@ -${hunkRange(oldAt[from]!, oldAt[to]! - oldAt[from]!)} +${hunkRange(newAt[from]!, newAt[to]! - newAt[from]!)} @@`,
+    );
+    for (const { kind, line } of edits.slice(from, to)) {
+      out.push(kind + content(line));
+      if (!line.endsWith("\n")) out.push(NO_NEWLINE_MARKER);
+      if (kind === "+") added++;
+      if (kind === "-") removed++;
+    }
+  }
+  return { diff: out.join("\n") + "\n", added, removed };
+}
+
+// ─── Parsing ───────────────────────────────
+
+/** Path named by a "---" / "+++" line: timestamps and the a/ or b/ prefix dropped */
+function headerPath(raw: string): string | undefined {
+  const name = raw.split("\t")[0]!.trim();
+  if (name === "/dev/null") return undefined;
+  return name.replace(/^[ab]\//, "");
+}
+
+/**
+ * Parse a unified diff into per-file patches. Hunks before any "---" / "+++"
+ * header form a single patch without paths. Lines outside hunks (`diff --git`,
+ * `index …`, commentary) are ignored.
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.split("\n");
+  if (lines.at(-1) === "") lines.pop();
+
+  const patches: FilePatch[] = [];
+  let current: FilePatch | undefined;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.replace(/\r$/, "");
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      const oldPath = headerPath(line.slice(4));
+      const newPath = headerPath(lines[i + 1]!.replace(/\r$/, "").slice(4));
+      current = { oldPath, newPath, creates: oldPath === undefined, deletes: newPath === undefined, hunks: [] };
+      patches.push(current);
+      i++;
+      continue;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (!header) continue;
+    if (!current) {
+      current = { creates: false, deletes: false, hunks: [] };
+      patches.push(current);
+    }
+
+    const hunk: Hunk = { header: header[0], oldStart: Number(header[1]), lines: [] };
+    let oldLeft = header[2] === undefined ? 1 : Number(header[2]);
+    let newLeft = header[4] === undefined ? 1 : Number(header[4]);
+    while (oldLeft > 0 || newLeft > 0) {
+      if (++i >= lines.length) throw new PatchError(`Hunk "${hunk.header}" ends before all its lines were given`);
+      const body = lines[i]!;
+      if (body.startsWith("\\")) {
+        const previous = hunk.lines.at(-1);
+        if (previous) previous.noNewline = true;
+        continue;
+      }
+      // Editors often strip the single space of an empty context line
+      const kind = body === "" ? " " : body[0];
+      if (kind !== " " && kind !== "-" && kind !== "+") {
+        throw new PatchError(`Unexpected line in hunk "${hunk.header}": ${JSON.stringify(body)}`);
+      }
+      if (kind !== "+") oldLeft--;
+      if (kind !== "-") newLeft--;
+      if (oldLeft < 0 || newLeft < 0) {
+        throw new PatchError(`Hunk "${hunk.header}" has more lines than its header counts`);
+      }
+      hunk.lines.push({ kind, text: body.slice(1).replace(/\r$/, "") });
+    }
+    if (lines[i + 1]?.startsWith("\\")) {
+      i++;
+      const previous = hunk.lines.at(-1);
+      if (previous) previous.noNewline = true;
+    }
+    current.hunks.push(hunk);
+  }
+
+  if (patches.every((p) => p.hunks.length === 0)) throw new PatchError("No hunks found — expected a unified diff");
+  return patches.filter((p) => p.hunks.length > 0);
+}
+
+// ─── Applying ──────────────────────────────
+
+/** Furthest a hunk may sit from the line its header names, either way */
+export const MAX_HUNK_OFFSET = 100;
+
+/** Apply hunks to `text`; throws a PatchError naming the first hunk that does not fit */
+export function applyHunks(text: string, hunks: Hunk[]): string {
+  const lines = splitLines(text);
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const out: string[] = [];
+  let cursor = 0;
+  let drift = 0;
+
+  hunks.forEach((hunk, index) => {
+    const old = hunk.lines.filter((l) => l.kind !== "+").map((l) => l.text);
+    const expected = (old.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + drift;
+    const fits = (pos: number) =>
+      pos >= cursor && pos + old.length <= lines.length && old.every((l, j) => content(lines[pos + j]!) === l);
+
+    // Nearest match to where the header says, looking both ways
+    let pos: number | undefined;
+    for (let delta = 0; delta <= MAX_HUNK_OFFSET && pos === undefined; delta++) {
+      if (fits(expected + delta)) pos = expected + delta;
+      else if (delta > 0 && fits(expected - delta)) pos = expected - delta;
+    }
+    if (pos === undefined) {
+      throw new PatchError(`Hunk ${index + 1} (${hunk.header}) does not apply — its context lines were not found`);
+    }
+
+    out.push(...lines.slice(cursor, pos));
+    let oldIndex = pos;
+    for (const line of hunk.lines) {
+      if (line.kind === "-") {
+        oldIndex++;
+      } else if (line.kind === " ") {
+        // Keep the file's own line, terminator included
+        const kept = lines[oldIndex++]!;
+        out.push(line.noNewline ? content(kept) : kept);
+      } else {
+        out.push(line.noNewline ? line.text : line.text + eol);
+      }
+    }
+    cursor = pos + old.length;
+    drift = pos - (expected - drift);
+  });
+  out.push(...lines.slice(cursor));
+
+  // A line that lost its place at the end of the file needs a terminator again
+  return out.map((line, i) => (i < out.length - 1 && !line.endsWith("\n") ? line + eol : line)).join("");
+}
@@ -0,0 +1,325 @@
+/**
+ * Read-only SQL execution for `query_sqlite`.
+ *
+ * A statement is accepted only if better-sqlite3 reports it both returns rows
+ * (`stmt.reader`) and leaves the database untouched (`stmt.readonly`), which
+ * admits `WITH … SELECT`, `EXPLAIN` and `VALUES` while rejecting writes,
+ * `ATTACH` and transaction control. PRAGMAs are checked against an allowlist,
+ * since several of them change connection state without writing anything.
+ *
+ * Queries run in a short-lived child process with its own read-only
+ * connection. Rows are streamed with `.iterate()` up to the row cap, and a
+ * process that overruns its time budget is killed, so a runaway query never
+ * blocks the server.
+ */
+
+import { spawn } from "node:child_process";
+import { createRequire } from "node:module";
+import type Database from "better-sqlite3";
+import { escapeCell } from "./converters.js";
+
+export interface QueryOptions {
+  /** Rows to skip before the page starts */
+  offset: number;
+  /** Page size — stop collecting after this many rows */
+  maxRows: number;
+  /** Abandon the query after this many milliseconds */
+  timeoutMs: number;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  /** True if there are rows after this page */
+  hasMore: boolean;
+  /** Total row count, when the result ended within COUNT_SCAN_LIMIT rows past the page */
+  total?: number;
+  elapsedMs: number;
+}
+
+export type OutputFormat = "json" | "jsonl" | "csv" | "markdown";
+
+/** How far past the page we keep stepping to learn the total row count */
+export const COUNT_SCAN_LIMIT = 10_000;
+
+/** The statement is valid SQL but not something we are willing to run */
+export class QueryRejectedError extends Error {}
+
+/** The query did not finish within its time budget */
+export class QueryTimeoutError extends Error {}
+
+/** PRAGMAs that only report information and may take a table / index argument */
+const INTROSPECTION_PRAGMAS = new Set([
+  "table_info",
+  "table_xinfo",
+  "index_list",
+  "index_info",
+  "index_xinfo",
+  "foreign_key_list",
+  "foreign_key_check",
+  "integrity_check",
+  "quick_check",
+]);
+
+/** PRAGMAs that are safe to read but set state when given a value */
+const STATUS_PRAGMAS = new Set([
+  "table_list",
+  "database_list",
+  "collation_list",
+  "function_list",
+  "module_list",
+  "pragma_list",
+  "compile_options",
+  "encoding",
+  "user_version",
+  "application_id",
+  "schema_version",
+  "data_version",
+  "page_count",
+  "page_size",
+  "freelist_count",
+  "journal_mode",
+  "auto_vacuum",
+]);
+
+/** Drop leading whitespace and SQL comments */
+function stripLeadingComments(sql: string): string {
+  let rest = sql.trimStart();
+  for (;;) {
+    if (rest.startsWith("--")) {
+      const end = rest.indexOf("\n");
+      rest = end === -1 ? "" : rest.slice(end + 1).trimStart();
+    } else if (rest.startsWith("/*")) {
+      const end = rest.indexOf("*/");
+      rest = end === -1 ? "" : rest.slice(end + 2).trimStart();
+    } else {
+      return rest;
+    }
+  }
+}
+
+function checkPragma(sql: string): void {
+  const match = stripLeadingComments(sql).match(/^PRAGMA\s+(?:["`[]?\w+["`\]]?\s*\.\s*)?["`[]?(\w+)["`\]]?\s*(.*)$/is);
+  if (!match) throw new QueryRejectedError("Could not parse PRAGMA statement.");
+
+  const name = match[1].toLowerCase();
+  const rest = match[2].replace(/;\s*$/, "").trim();
+
+  if (INTROSPECTION_PRAGMAS.has(name)) {
+    if (rest.startsWith("=")) throw new QueryRejectedError(`PRAGMA ${name} cannot be assigned.`);
+    return;
+  }
+  if (STATUS_PRAGMAS.has(name)) {
+    if (rest !== "") throw new QueryRejectedError(`PRAGMA ${name} may only be read, not set.`);
+    return;
+  }
+  throw new QueryRejectedError(
+    `PRAGMA ${name} is not on the read-only allowlist. ` +
+      `Allowed: ${[...INTROSPECTION_PRAGMAS, ...STATUS_PRAGMAS].join(", ")}.`,
+  );
+}
+
+/**
+ * Throw unless `sql` is a single statement that returns rows without writing.
+ * Preparing compiles the statement but does not run it.
+ */
+export function validateReadOnlySql(db: Database.Database, sql: string): void {
+  let stmt: Database.Statement;
+  try {
+    stmt = db.prepare(sql);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (/more than one statement/i.test(message)) {
+      throw new QueryRejectedError("Only a single statement may be run at a time.");
+    }
+    throw err;
+  }
+
+  if (/^PRAGMA\b/i.test(stripLeadingComments(sql))) checkPragma(sql);
+
+  if (!stmt.readonly) {
+    throw new QueryRejectedError("Only read-only statements are allowed; this one would modify the database.");
+  }
+  if (!stmt.reader) {
+    throw new QueryRejectedError("Only statements that return rows are allowed (SELECT, WITH, EXPLAIN, VALUES, PRAGMA).");
+  }
+}
+
+/**
+ * Child process body, kept as plain CommonJS so it runs under `node -e`
+ * regardless of how the server itself is loaded (tsx, compiled JS, …).
+ */
+const RUNNER_SOURCE = `
+process.once("message", ({ driverPath, dbPath, sql, offset, maxRows, countLimit }) => {
+  const Database = require(driverPath);
+  const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+  process.send({ ready: true });
+  try {
+    const stmt = db.prepare(sql);
+    const columns = stmt.columns().map((c) => c.name);
+    const rows = [];
+    let seen = 0;
+    let exhausted = true;
+    for (const row of stmt.iterate()) {
+      if (seen >= offset && rows.length < maxRows) rows.push(row);
+      seen++;
+      if (seen >= offset + maxRows + countLimit) {
+        exhausted = false;
+        break;
+      }
+    }
+    const hasMore = seen > offset + rows.length;
+    const total = exhausted ? seen : undefined;
+    process.send({ ok: true, columns, rows, hasMore, total }, () => process.exit(0));
+  } catch (err) {
+    process.send({ ok: false, message: err instanceof Error ? err.message : String(err) }, () => process.exit(0));
+  } finally {
+    db.close();
+  }
+});
+`;
+
+const driverPath = createRequire(import.meta.url).resolve("better-sqlite3");
+
+type RunnerMessage =
+  | { ready: true }
+  | ({ ok: true } & Omit<QueryResult, "elapsedMs">)
+  | { ok: false; message: string };
+
+/** How long the runner may take to start and open the database; not part of a query's budget */
+const RUNNER_START_TIMEOUT_MS = 30_000;
+
+/**
+ * Run an already-validated query against the database file at `dbPath`.
+ * Rejects with QueryTimeoutError if it exceeds `options.timeoutMs`, counted
+ * from when the runner has started and opened the database — so a short
+ * budget is not used up by process start-up on a busy machine.
+ */
+export function runReadOnlyQuery(dbPath: string, sql: string, options: QueryOptions): Promise<QueryResult> {
+  let started = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ["-e", RUNNER_SOURCE], {
+      stdio: ["ignore", "ignore", "pipe", "ipc"],
+      // Structured clone keeps BLOBs as Buffers and big integers intact
+      serialization: "advanced",
+    });
+
+    let stderr = "";
+    child.stderr?.on("data", (chunk) => (stderr += chunk));
+
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      fn();
+    };
+
+    // SQLite cannot be interrupted from JavaScript mid-step, but a process can always be killed
+    let timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      settle(() => reject(new Error(`Query runner did not start within ${RUNNER_START_TIMEOUT_MS} ms.`)));
+    }, RUNNER_START_TIMEOUT_MS);
+
+    child.on("message", (message: RunnerMessage) => {
+      if ("ready" in message) {
+        clearTimeout(timer);
+        started = Date.now();
+        timer = setTimeout(() => {
+          child.kill("SIGKILL");
+          settle(() => reject(new QueryTimeoutError(`Query exceeded its ${options.timeoutMs} ms time budget and was interrupted.`)));
+        }, options.timeoutMs);
+        return;
+      }
+      settle(() => {
+        if (!message.ok) return reject(new Error(message.message));
+        const { ok: _ok, ...result } = message;
+        resolve({ ...result, elapsedMs: Date.now() - started });
+      });
+    });
+    child.once("error", (err) => settle(() => reject(err)));
+    child.once("exit", (code, signal) => {
+      settle(() => reject(new Error(stderr.trim() || `Query runner exited unexpectedly (${signal ?? `code ${code}`}).`)));
+    });
+
+    child.send({ ...options, driverPath, dbPath, sql, countLimit: COUNT_SCAN_LIMIT });
+  });
+}
+
+// ─── Pagination ────────────────────────────
+
+interface CursorState {
+  dbPath: string;
+  sql: string;
+  offset: number;
+}
+
+/** Opaque continuation token for the page starting at `offset` */
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+/** Decode a continuation token, throwing QueryRejectedError if it is malformed */
+export function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as CursorState;
+    if (typeof state.dbPath === "string" && typeof state.sql === "string" && Number.isInteger(state.offset) && state.offset >= 0) {
+      return state;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new QueryRejectedError("Invalid cursor — pass back the token from a previous query_sqlite result unchanged.");
+}
+
+// ─── Output formats ────────────────────────
+
+/** Render a single value as text; BLOBs become base64 (or a size note where space matters) */
+function formatValue(value: unknown, compactBlobs: boolean): string {
+  if (value === null || value === undefined) return "";
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+    const buf = Buffer.from(value);
+    return compactBlobs ? `<BLOB ${buf.length} bytes>` : `base64:${buf.toString("base64")}`;
+  }
+  return String(value);
+}
+
+/** JSON.stringify replacer: BigInt → string, BLOB → base64 (checked before Buffer#toJSON applies) */
+function jsonReplacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  if (raw instanceof Uint8Array) return `base64:${Buffer.from(raw).toString("base64")}`;
+  if (typeof value === "bigint") return value.toString();
+  return value;
+}
+
+/** Render a single value for a Markdown table cell */
+export function markdownCell(value: unknown): string {
+  return value === null ? "NULL" : escapeCell(formatValue(value, true));
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Render result rows in the requested format */
+export function formatRows(columns: string[], rows: Record<string, unknown>[], format: OutputFormat): string {
+  switch (format) {
+    case "json":
+      // One row per line — readable without paying for deep indentation
+      return rows.length === 0 ? "[]" : `[\n${rows.map((r) => JSON.stringify(r, jsonReplacer)).join(",\n")}\n]`;
+    case "jsonl":
+      return rows.map((r) => JSON.stringify(r, jsonReplacer)).join("\n");
+    case "csv":
+      return [
+        columns.map(csvField).join(","),
+        ...rows.map((r) => columns.map((c) => csvField(formatValue(r[c], false))).join(",")),
+      ].join("\n");
+    case "markdown":
+      return [
+        `| ${columns.map(escapeCell).join(" | ")} |`,
+        `| ${columns.map(() => "---").join(" | ")} |`,
+        ...rows.map((r) => `| ${columns.map((c) => markdownCell(r[c])).join(" | ")} |`),
+      ].join("\n");
+  }
+}
@@ -0,0 +1,436 @@
+/**
+ * SQLite → Markdown — what the `sqlite-schema` and `sqlite-table` resources serve.
+ *
+ * The schema covers tables (columns, row counts, indexes, foreign keys,
+ * triggers and a few sample rows), views, and a Mermaid ER diagram built from
+ * the foreign keys, so an agent can plan joins without probing the database
+ * first. Table pages let clients that never call tools browse the rows.
+ */
+
+import type Database from "better-sqlite3";
+import { COUNT_SCAN_LIMIT, QueryTimeoutError, formatRows, markdownCell, runReadOnlyQuery } from "./query.js";
+
+export interface ColumnInfo {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+interface ForeignKeyInfo {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string | null;
+  on_update: string;
+  on_delete: string;
+}
+
+interface IndexListInfo {
+  name: string;
+  unique: number;
+  origin: "c" | "u" | "pk";
+  partial: number;
+}
+
+interface MasterRow {
+  type: "table" | "view" | "index" | "trigger";
+  name: string;
+  tbl_name: string;
+  sql: string | null;
+}
+
+export interface SchemaOptions {
+  /** Append the raw CREATE statements */
+  includeDdl?: boolean;
+  /** Sample rows shown per table (0 = none) */
+  sampleRows?: number;
+}
+
+/** Sample cells longer than this are cut short */
+const SAMPLE_CELL_MAX_CHARS = 80;
+
+/** Beyond this many tables the ER diagram is left out — it would be unreadable */
+const ER_DIAGRAM_MAX_TABLES = 60;
+
+/** Quote an SQL identifier */
+export function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function columnsOf(db: Database.Database, name: string): ColumnInfo[] {
+  return db.prepare(`PRAGMA table_info(${quoteIdent(name)})`).all() as ColumnInfo[];
+}
+
+function foreignKeysOf(db: Database.Database, name: string): ForeignKeyInfo[] {
+  return db.prepare(`PRAGMA foreign_key_list(${quoteIdent(name)})`).all() as ForeignKeyInfo[];
+}
+
+/** Primary-key column names of a table, used when a foreign key omits its target columns */
+function primaryKeyOf(db: Database.Database, name: string): string[] {
+  return columnsOf(db, name)
+    .filter((c) => c.pk > 0)
+    .sort((a, b) => a.pk - b.pk)
+    .map((c) => c.name);
+}
+
+/** Group multi-column foreign keys (one PRAGMA row per column) */
+function groupForeignKeys(db: Database.Database, fks: ForeignKeyInfo[]) {
+  const groups = new Map<number, ForeignKeyInfo[]>();
+  for (const fk of fks) groups.set(fk.id, [...(groups.get(fk.id) ?? []), fk]);
+  return [...groups.values()].map((parts) => {
+    parts.sort((a, b) => a.seq - b.seq);
+    const { table, on_update, on_delete } = parts[0];
+    const pk = parts.some((p) => p.to === null) ? primaryKeyOf(db, table) : [];
+    return {
+      table,
+      from: parts.map((p) => p.from),
+      to: parts.map((p, i) => p.to ?? pk[i] ?? "?"),
+      onUpdate: on_update,
+      onDelete: on_delete,
+    };
+  });
+}
+
+// ─── Mermaid ER diagram ────────────────────
+
+/** Mermaid entity / attribute names must be plain words */
+function mermaidName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, "_") || "_";
+}
+
+function mermaidType(type: string): string {
+  return type.replace(/\s+/g, "").replace(/[^A-Za-z0-9_()[\]-]/g, "_") || "ANY";
+}
+
+function buildErDiagram(db: Database.Database, tables: string[]): string {
+  const lines = ["```mermaid", "erDiagram"];
+
+  for (const table of tables) {
+    const fkColumns = new Set(foreignKeysOf(db, table).map((fk) => fk.from));
+    lines.push(`  ${mermaidName(table)} {`);
+    for (const col of columnsOf(db, table)) {
+      const keys = [col.pk ? "PK" : "", fkColumns.has(col.name) ? "FK" : ""].filter(Boolean).join(", ");
+      lines.push(`    ${mermaidType(col.type)} ${mermaidName(col.name)}${keys ? ` ${keys}` : ""}`);
+    }
+    lines.push("  }");
+  }
+
+  for (const table of tables) {
+    const notNull = new Set(columnsOf(db, table).filter((c) => c.notnull || c.pk).map((c) => c.name));
+    for (const fk of groupForeignKeys(db, foreignKeysOf(db, table))) {
+      // Child rows point at exactly one parent when the FK columns are NOT NULL, else at most one
+      const parentSide = fk.from.every((c) => notNull.has(c)) ? "||" : "o|";
+      lines.push(`  ${mermaidName(table)} }o--${parentSide} ${mermaidName(fk.table)} : "${fk.from.join(", ")}"`);
+    }
+  }
+
+  lines.push("```");
+  return lines.join("\n");
+}
+
+// ─── Markdown ──────────────────────────────
+
+function shortenCell(value: unknown): unknown {
+  if (typeof value !== "string" || value.length <= SAMPLE_CELL_MAX_CHARS) return value;
+  return value.slice(0, SAMPLE_CELL_MAX_CHARS) + "…";
+}
+
+/**
+ * Row count as shown in the schema: exact up to COUNT_SCAN_LIMIT rows, so
+ * describing a database never scans its large tables in full. An exact count
+ * learned from a table page is used when one is cached.
+ */
+function boundedRowCount(db: Database.Database, name: string): string {
+  const facts = factsFor(db, name);
+  if (facts.total !== undefined) return String(facts.total);
+
+  const { n } = db
+    .prepare(`SELECT count(*) AS n FROM (SELECT 1 FROM ${quoteIdent(name)} LIMIT ${COUNT_SCAN_LIMIT + 1})`)
+    .get() as { n: number };
+  if (n > COUNT_SCAN_LIMIT) return `more than ${COUNT_SCAN_LIMIT}`;
+  facts.total = n;
+  return String(n);
+}
+
+function describeTable(db: Database.Database, name: string, triggers: MasterRow[], sampleRows: number): string[] {
+  const lines: string[] = [];
+  const quoted = quoteIdent(name);
+
+  let rowCount: string;
+  try {
+    rowCount = boundedRowCount(db, name);
+  } catch {
+    rowCount = "unknown"; // e.g. a virtual table whose module is not loaded
+  }
+
+  const fks = groupForeignKeys(db, foreignKeysOf(db, name));
+  const references = new Map<string, string>();
+  for (const fk of fks) fk.from.forEach((col, i) => references.set(col, `\`${fk.table}.${fk.to[i]}\``));
+
+  lines.push(`## Table: \`${name}\``, "", `Rows: ${rowCount}`, "");
+  lines.push("| Column | Type | NOT NULL | PK | Default | References |");
+  lines.push("|--------|------|----------|----|---------|------------|");
+  for (const col of columnsOf(db, name)) {
+    lines.push(
+      `| \`${col.name}\` | ${col.type || "ANY"} | ${col.notnull ? "✓" : ""} | ${col.pk ? "✓" : ""} | ${col.dflt_value ?? ""} | ${references.get(col.name) ?? ""} |`,
+    );
+  }
+  lines.push("");
+
+  const indexes = db.prepare(`PRAGMA index_list(${quoted})`).all() as IndexListInfo[];
+  if (indexes.length > 0) {
+    lines.push("**Indexes:**", "");
+    for (const idx of indexes) {
+      const cols = (db.prepare(`PRAGMA index_info(${quoteIdent(idx.name)})`).all() as { name: string | null }[])
+        .map((c) => c.name ?? "<expression>")
+        .join(", ");
+      const flags = [
+        idx.unique ? "UNIQUE" : "",
+        idx.origin === "pk" ? "primary key" : idx.origin === "u" ? "from UNIQUE constraint" : "",
+        idx.partial ? "partial" : "",
+      ].filter(Boolean);
+      lines.push(`- \`${idx.name}\` on (${cols})${flags.length > 0 ? ` — ${flags.join(", ")}` : ""}`);
+    }
+    lines.push("");
+  }
+
+  if (fks.length > 0) {
+    lines.push("**Foreign keys:**", "");
+    for (const fk of fks) {
+      const actions = [
+        fk.onDelete !== "NO ACTION" ? `ON DELETE ${fk.onDelete}` : "",
+        fk.onUpdate !== "NO ACTION" ? `ON UPDATE ${fk.onUpdate}` : "",
+      ].filter(Boolean);
+      lines.push(
+        `- (${fk.from.join(", ")}) → \`${fk.table}\`(${fk.to.join(", ")})${actions.length > 0 ? ` — ${actions.join(", ")}` : ""}`,
+      );
+    }
+    lines.push("");
+  }
+
+  const own = triggers.filter((t) => t.tbl_name === name);
+  if (own.length > 0) {
+    lines.push("**Triggers:**", "");
+    for (const trigger of own) {
+      const event = trigger.sql?.match(/\b(BEFORE|AFTER|INSTEAD\s+OF)?\s*(INSERT|UPDATE|DELETE)\b/i)?.[0].trim();
+      lines.push(`- \`${trigger.name}\`${event ? ` — ${event.toUpperCase().replace(/\s+/g, " ")}` : ""}`);
+    }
+    lines.push("");
+  }
+
+  if (sampleRows > 0 && rowCount !== "0" && rowCount !== "unknown") {
+    const stmt = db.prepare(`SELECT * FROM ${quoted} LIMIT ${sampleRows}`);
+    const columns = stmt.columns().map((c) => c.name);
+    const rows = (stmt.all() as Record<string, unknown>[]).map((row) =>
+      Object.fromEntries(Object.entries(row).map(([k, v]) => [k, shortenCell(v)])),
+    );
+    lines.push(`**Sample rows** (first ${rows.length}):`, "", formatRows(columns, rows, "markdown"), "");
+  }
+
+  return lines;
+}
+
+/** Build a Markdown schema description for a database */
+export function buildSchemaMarkdown(db: Database.Database, options: SchemaOptions = {}): string {
+  const { includeDdl = false, sampleRows = 3 } = options;
+
+  const objects = db
+    .prepare("SELECT type, name, tbl_name, sql FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY type, name")
+    .all() as MasterRow[];
+  const tables = objects.filter((o) => o.type === "table").map((o) => o.name);
+  const views = objects.filter((o) => o.type === "view").map((o) => o.name);
+  const triggers = objects.filter((o) => o.type === "trigger");
+  const indexCount = objects.filter((o) => o.type === "index").length;
+
+  if (tables.length === 0 && views.length === 0) return "_No tables found._";
+
+  const lines: string[] = [
+    `${tables.length} table(s), ${views.length} view(s), ${indexCount} index(es), ${triggers.length} trigger(s).`,
+    "",
+  ];
+
+  const hasForeignKeys = tables.some((t) => foreignKeysOf(db, t).length > 0);
+  if (hasForeignKeys && tables.length <= ER_DIAGRAM_MAX_TABLES) {
+    lines.push("## Entity-relationship diagram", "", buildErDiagram(db, tables), "");
+  }
+
+  for (const name of tables) lines.push(...describeTable(db, name, triggers, sampleRows));
+
+  for (const name of views) {
+    lines.push(`## View: \`${name}\``, "");
+    lines.push("| Column | Type |");
+    lines.push("|--------|------|");
+    for (const col of columnsOf(db, name)) lines.push(`| \`${col.name}\` | ${col.type || "ANY"} |`);
+    lines.push("");
+  }
+
+  if (includeDdl) {
+    // Dependency-friendly order: tables before the views, indexes and triggers built on them
+    const order = ["table", "view", "index", "trigger"];
+    lines.push("## CREATE statements", "");
+    for (const object of [...objects].sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type))) {
+      if (object.sql) lines.push("```sql", object.sql.trim() + ";", "```", "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ─── Table pages ───────────────────────────
+
+/** Rows per page of a table resource */
+export const TABLE_PAGE_SIZE = 50;
+
+/** Column stats are computed over at most this many rows, so large tables stay cheap to browse */
+const STATS_SAMPLE_ROWS = 100_000;
+
+/** Tables and views that can be browsed as resources */
+export function listTablesAndViews(db: Database.Database): { name: string; type: "table" | "view" }[] {
+  return db
+    .prepare(
+      "SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name",
+    )
+    .all() as { name: string; type: "table" | "view" }[];
+}
+
+interface ColumnStats {
+  column: string;
+  distinct: number;
+  nulls: number;
+  min: unknown;
+  max: unknown;
+}
+
+interface TableStats {
+  /** Rows the stats were computed over */
+  sampled: number;
+  columns: ColumnStats[];
+}
+
+/** What is known about a table as of one version of its database */
+interface TableFacts {
+  /** PRAGMA data_version when these were gathered — it moves whenever another connection commits */
+  version: number;
+  /** Exact row count, once some page read reached the end of the table */
+  total?: number;
+  stats?: TableStats;
+}
+
+/** Per-connection cache of row counts and column stats; a remounted database gets a fresh connection */
+const tableFacts = new WeakMap<Database.Database, Map<string, TableFacts>>();
+
+function factsFor(db: Database.Database, name: string): TableFacts {
+  const version = db.pragma("data_version", { simple: true }) as number;
+  let tables = tableFacts.get(db);
+  if (!tables) tableFacts.set(db, (tables = new Map()));
+  let facts = tables.get(name);
+  if (facts?.version !== version) tables.set(name, (facts = { version }));
+  return facts;
+}
+
+async function columnStats(db: Database.Database, name: string, columns: string[], timeoutMs: number): Promise<TableStats> {
+  const select = columns.flatMap((c, i) => {
+    const col = quoteIdent(c);
+    return [`count(DISTINCT ${col}) AS d${i}`, `sum(${col} IS NULL) AS n${i}`, `min(${col}) AS lo${i}`, `max(${col}) AS hi${i}`];
+  });
+  const sql = `SELECT count(*) AS total, ${select.join(", ")} FROM (SELECT * FROM ${quoteIdent(name)} LIMIT ${STATS_SAMPLE_ROWS})`;
+  const { rows } = await runReadOnlyQuery(db.name, sql, { offset: 0, maxRows: 1, timeoutMs });
+  const row = rows[0]!;
+  return {
+    sampled: Number(row.total),
+    columns: columns.map((column, i) => ({
+      column,
+      distinct: Number(row[`d${i}`]),
+      nulls: Number(row[`n${i}`] ?? 0),
+      min: row[`lo${i}`],
+      max: row[`hi${i}`],
+    })),
+  };
+}
+
+/**
+ * One page of a table or view as Markdown: rows, then per-column stats.
+ * Returns null if `name` is not a table or view of the database.
+ *
+ * The page and the stats are read in the time-limited query runner, never on
+ * the server's own thread. Counting stops COUNT_SCAN_LIMIT rows past the page;
+ * exact counts and stats are cached until the database changes.
+ */
+export async function buildTablePageMarkdown(
+  db: Database.Database,
+  name: string,
+  page: number,
+  pageUri: (page: number) => string,
+  timeoutMs: number,
+): Promise<string | null> {
+  const object = listTablesAndViews(db).find((o) => o.name === name);
+  if (!object) return null;
+
+  const facts = factsFor(db, name);
+  const offset = (page - 1) * TABLE_PAGE_SIZE;
+  const result = await runReadOnlyQuery(db.name, `SELECT * FROM ${quoteIdent(name)}`, {
+    offset,
+    maxRows: TABLE_PAGE_SIZE,
+    timeoutMs,
+  });
+  if (result.total !== undefined) facts.total = result.total;
+  const { columns, hasMore, total = facts.total } = result;
+  const rows = result.rows.map((row) => Object.fromEntries(Object.entries(row).map(([k, v]) => [k, shortenCell(v)])));
+
+  const kind = object.type === "view" ? "View" : "Table";
+  let pages: number | undefined;
+  let summary: string;
+  if (total === undefined) {
+    summary = `${kind} with at least ${offset + TABLE_PAGE_SIZE + COUNT_SCAN_LIMIT} rows (not all counted) — page ${page}.`;
+  } else {
+    pages = Math.max(1, Math.ceil(total / TABLE_PAGE_SIZE));
+    summary = `${kind} with ${total} row(s)` + (page <= pages ? ` — page ${page} of ${pages}.` : ".");
+  }
+  const lines: string[] = [summary, ""];
+
+  if (rows.length > 0) {
+    lines.push(
+      `**Rows ${offset + 1}–${offset + rows.length}:**`,
+      "",
+      formatRows(columns, rows, "markdown"),
+      "",
+    );
+  } else {
+    lines.push(total === 0 ? "_No rows._" : `_Page ${page} is past the last page (${pages})._`, "");
+  }
+
+  const nav = [
+    page > 1 ? `⬅️ Previous: \`${pageUri(Math.min(page - 1, pages ?? page - 1))}\`` : "",
+    hasMore ? `➡️ Next: \`${pageUri(page + 1)}\`` : "",
+  ].filter(Boolean);
+  if (nav.length > 0) lines.push(nav.join("  \n"), "");
+
+  if (total !== 0 && columns.length > 0) {
+    try {
+      facts.stats ??= await columnStats(db, name, columns, timeoutMs);
+    } catch (err) {
+      if (!(err instanceof QueryTimeoutError)) throw err;
+      lines.push(`_Column stats skipped — computing them took longer than ${timeoutMs} ms._`, "");
+      return lines.join("\n");
+    }
+    const { sampled, columns: stats } = facts.stats;
+    lines.push(
+      total === undefined || sampled < total ? `## Column stats (first ${sampled} rows)` : "## Column stats",
+      "",
+      "| Column | Distinct | Null % | Min | Max |",
+      "|--------|----------|--------|-----|-----|",
+    );
+    for (const s of stats) {
+      const nullPct = sampled > 0 ? ((s.nulls / sampled) * 100).toFixed(1) : "0.0";
+      const [min, max] = [s.min, s.max].map((v) => markdownCell(shortenCell(v)));
+      lines.push(`| \`${s.column}\` | ${s.distinct} | ${nullPct}% | ${min} | ${max} |`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
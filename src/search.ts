@@ -0,0 +1,233 @@
+/**
+ * Search index — ranked full-text search across every mounted source.
+ *
+ * Backed by a SQLite FTS5 table in a local cache file. Documents are split
+ * into small line-aligned chunks so each hit can be reported with the line
+ * number it came from. Each source carries a version stamp (mtime + size for
+ * files, fetchedAt for URLs) so a sync only re-indexes what actually changed.
+ */
+
+import Database from "better-sqlite3";
+
+// ─── Types ─────────────────────────────────
+
+export type SourceKind = "file" | "url" | "sqlite";
+
+/** A document handed to the index by the server */
+export interface IndexDocument {
+  uri: string;
+  kind: SourceKind;
+  name: string;
+  /** Opaque change marker — the document is re-indexed when it differs */
+  version: string;
+  /** Loads the document text; only called when the version changed */
+  load: () => Promise<string> | string;
+}
+
+export interface SearchHit {
+  uri: string;
+  kind: SourceKind;
+  name: string;
+  line: number;
+  snippet: string;
+  score: number;
+}
+
+export interface SearchOptions {
+  limit: number;
+  kinds: SourceKind[];
+}
+
+// ─── Chunking ──────────────────────────────
+
+/** Maximum number of lines stored in a single FTS row */
+const CHUNK_LINES = 8;
+
+interface Chunk {
+  line: number; // 1-based line of the first line in the chunk
+  text: string;
+}
+
+/**
+ * Split text into chunks of at most CHUNK_LINES lines, breaking early on
+ * blank lines so paragraphs stay together.
+ */
+function chunkText(text: string): Chunk[] {
+  const lines = text.split(/\r?\n/);
+  const chunks: Chunk[] = [];
+  let start = 0;
+  let buf: string[] = [];
+
+  const flush = () => {
+    if (buf.some((l) => l.trim() !== "")) {
+      chunks.push({ line: start + 1, text: buf.join("\n") });
+    }
+    buf = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    if (buf.length === 0) start = i;
+    if (lines[i].trim() === "" && buf.length > 0) {
+      flush();
+      continue;
+    }
+    buf.push(lines[i]);
+    if (buf.length >= CHUNK_LINES) flush();
+  }
+  flush();
+  return chunks;
+}
+
+/** Split a free-text query into plain search terms */
+function tokenize(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((t) => t.length > 0);
+}
+
+/** Build an FTS5 MATCH expression from terms, quoting each to avoid syntax errors */
+function toMatchExpression(terms: string[], operator: "AND" | "OR"): string {
+  return terms.map((t) => `"${t.replace(/"/g, '""')}"`).join(` ${operator} `);
+}
+
+// ─── Index ─────────────────────────────────
+
+export class SearchIndex {
+  private db: InstanceType<typeof Database>;
+
+  constructor(dbPath: string) {
+    this.db = new Database(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        uri     TEXT PRIMARY KEY,
+        kind    TEXT NOT NULL,
+        name    TEXT NOT NULL,
+        version TEXT NOT NULL
+      );
+      CREATE VIRTUAL TABLE IF NOT EXISTS chunks USING fts5(
+        uri UNINDEXED,
+        line UNINDEXED,
+        text,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+    `);
+  }
+
+  /**
+   * Bring the index in line with `docs` for the given source kinds.
+   * Documents of those kinds that are no longer present are dropped.
+   * Returns the number of documents (re-)indexed.
+   */
+  async sync(kinds: SourceKind[], docs: IndexDocument[]): Promise<number> {
+    const known = new Map<string, string>();
+    const placeholders = kinds.map(() => "?").join(", ");
+    const rows = this.db
+      .prepare(`SELECT uri, version FROM documents WHERE kind IN (${placeholders})`)
+      .all(...kinds) as { uri: string; version: string }[];
+    for (const row of rows) known.set(row.uri, row.version);
+
+    let updated = 0;
+    for (const doc of docs) {
+      const previous = known.get(doc.uri);
+      known.delete(doc.uri);
+      if (previous === doc.version) continue;
+
+      let text: string;
+      try {
+        text = await doc.load();
+      } catch {
+        // Unreadable right now — drop it, the next sync will try again
+        this.remove(doc.uri);
+        continue;
+      }
+      this.replace(doc, text);
+      updated++;
+    }
+
+    for (const stale of known.keys()) this.remove(stale);
+    return updated;
+  }
+
+  /** Drop a single document from the index */
+  remove(uri: string): void {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM chunks WHERE uri = ?").run(uri);
+      this.db.prepare("DELETE FROM documents WHERE uri = ?").run(uri);
+    })();
+  }
+
+  private replace(doc: IndexDocument, text: string): void {
+    const insertChunk = this.db.prepare("INSERT INTO chunks (uri, line, text) VALUES (?, ?, ?)");
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM chunks WHERE uri = ?").run(doc.uri);
+      for (const chunk of chunkText(text)) {
+        insertChunk.run(doc.uri, chunk.line, chunk.text);
+      }
+      this.db
+        .prepare(
+          "INSERT INTO documents (uri, kind, name, version) VALUES (?, ?, ?, ?) " +
+            "ON CONFLICT(uri) DO UPDATE SET kind = excluded.kind, name = excluded.name, version = excluded.version",
+        )
+        .run(doc.uri, doc.kind, doc.name, doc.version);
+    })();
+  }
+
+  /**
+   * Ranked keyword search. All terms must match; if nothing does, falls back
+   * to matching any term so partial hits are still surfaced.
+   */
+  search(query: string, { limit, kinds }: SearchOptions): SearchHit[] {
+    const terms = tokenize(query);
+    if (terms.length === 0 || kinds.length === 0) return [];
+
+    let hits = this.run(toMatchExpression(terms, "AND"), terms, limit, kinds);
+    if (hits.length === 0 && terms.length > 1) {
+      hits = this.run(toMatchExpression(terms, "OR"), terms, limit, kinds);
+    }
+    return hits;
+  }
+
+  private run(match: string, terms: string[], limit: number, kinds: SourceKind[]): SearchHit[] {
+    const placeholders = kinds.map(() => "?").join(", ");
+    const rows = this.db
+      .prepare(
+        `SELECT chunks.uri AS uri, chunks.line AS line, chunks.text AS text, d.kind AS kind, d.name AS name,
+                snippet(chunks, 2, '**', '**', '…', 16) AS snippet,
+                bm25(chunks) AS score
+         FROM chunks JOIN documents d ON d.uri = chunks.uri
+         WHERE chunks MATCH ? AND d.kind IN (${placeholders})
+         ORDER BY score
+         LIMIT ?`,
+      )
+      .all(match, ...kinds, limit) as {
+      uri: string;
+      line: number;
+      text: string;
+      kind: SourceKind;
+      name: string;
+      snippet: string;
+      score: number;
+    }[];
+
+    return rows.map((row) => ({
+      uri: row.uri,
+      kind: row.kind,
+      name: row.name,
+      line: row.line + firstMatchingLine(row.text, terms),
+      snippet: row.snippet.replace(/\s*\n\s*/g, " ").trim(),
+      score: -row.score,
+    }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/** Offset (0-based) of the first line in `text` that contains any of `terms` */
+function firstMatchingLine(text: string, terms: string[]): number {
+  const lines = text.toLowerCase().split("\n");
+  const idx = lines.findIndex((l) => terms.some((t) => l.includes(t)));
+  return idx === -1 ? 0 : idx;
+}
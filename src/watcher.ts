@@ -0,0 +1,196 @@
+/**
+ * File watcher — keeps an in-memory index of every exposed file under the
+ * mounted directories and reports churn as it happens.
+ *
+ * The initial listing of a mount comes from the server's own directory scan,
+ * so the watcher and `collectFiles` always agree on what is exposed; after
+ * that, chokidar events keep the index current without re-walking the tree.
+ * Edits to ignore files are the exception: they re-filter the whole mount.
+ * Listings, counts and the resource list are all served from this index.
+ */
+
+import { watch, type FSWatcher } from "chokidar";
+import path from "node:path";
+
+export type FileChangeKind = "add" | "change" | "unlink";
+
+export interface FileWatcherOptions {
+  /** Full listing of the exposed files under a mount */
+  scan: (dir: string) => Promise<string[]>;
+  /** Whether a file under `dir` should be exposed (checked again after following symlinks) */
+  accepts: (dir: string, filePath: string) => Promise<boolean>;
+  /** Whether a sub-folder of `dir` should not be watched at all (e.g. node_modules) */
+  skipsDir: (dir: string, dirPath: string) => boolean;
+  /** Called for every add / change / unlink of an exposed file */
+  onChange: (kind: FileChangeKind, filePath: string, dir: string) => void;
+  /** Whether `filePath` is an ignore file (.gitignore …) the mount's filter reads */
+  isIgnoreFile: (dir: string, filePath: string) => boolean;
+  /** Forget the cached ignore rules of one folder of the mount, or of all of them */
+  resetIgnoreFiles: (dir: string, folder?: string) => void;
+  /** Read the ignore files of a folder of the mount */
+  loadIgnoreFiles: (dir: string, folder: string) => Promise<void>;
+}
+
+interface WatchedMount {
+  files: Set<string>;
+  watcher: FSWatcher;
+  /** Ignore-rule reloads and re-filters, in order; new files are only vetted once these settle */
+  filterUpdates: Promise<void>;
+  refilterTimer?: ReturnType<typeof setTimeout>;
+}
+
+/** Quiet period after an ignore file changes before the mount is re-filtered */
+const REFILTER_DELAY_MS = 300;
+
+export class FileWatcher {
+  private mounts = new Map<string, WatchedMount>();
+  /** Sorted, de-duplicated listing across mounts; rebuilt lazily after churn */
+  private listing: readonly string[] | undefined;
+
+  constructor(private options: FileWatcherOptions) {}
+
+  /** Start tracking a mounted directory (no-op if already watched) */
+  async add(dir: string): Promise<void> {
+    if (this.mounts.has(dir)) return;
+
+    const files = new Set(await this.options.scan(dir));
+    const watcher = watch(dir, {
+      ignoreInitial: true,
+      ignored: (p, stats) => p !== dir && stats?.isDirectory() === true && this.options.skipsDir(dir, p),
+      // Like the scan, never descend into symlinked folders; symlinked files are vetted by `accepts`
+      followSymlinks: false,
+      // Editors often save in several writes — wait for the file to settle
+      awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
+    });
+    const mount: WatchedMount = { files, watcher, filterUpdates: Promise.resolve() };
+    this.mounts.set(dir, mount);
+    this.listing = undefined;
+
+    watcher.on("add", async (filePath) => {
+      if (this.options.isIgnoreFile(dir, filePath)) this.scheduleRefilter(dir, mount);
+      await mount.filterUpdates;
+      if (!(await this.options.accepts(dir, filePath))) return;
+      // The mount may have been rescanned, or the file added, while the check ran
+      if (this.mounts.get(dir) !== mount || files.has(filePath)) return;
+      files.add(filePath);
+      this.listing = undefined;
+      this.options.onChange("add", filePath, dir);
+    });
+    watcher.on("change", (filePath) => {
+      if (this.options.isIgnoreFile(dir, filePath)) this.scheduleRefilter(dir, mount);
+      if (!files.has(filePath)) return;
+      this.options.onChange("change", filePath, dir);
+    });
+    watcher.on("unlink", (filePath) => {
+      if (this.options.isIgnoreFile(dir, filePath)) this.scheduleRefilter(dir, mount);
+      if (!files.delete(filePath)) return;
+      this.listing = undefined;
+      this.options.onChange("unlink", filePath, dir);
+    });
+    watcher.on("addDir", (dirPath) => {
+      // A new folder may bring its own ignore files — read them before vetting its contents
+      this.updateFilter(mount, async () => {
+        this.options.resetIgnoreFiles(dir, dirPath);
+        await this.options.loadIgnoreFiles(dir, dirPath);
+      });
+    });
+    watcher.on("unlinkDir", (dirPath) => {
+      const prefix = dirPath + path.sep;
+      for (const filePath of [...files]) {
+        if (filePath.startsWith(prefix)) {
+          files.delete(filePath);
+          this.listing = undefined;
+          this.options.onChange("unlink", filePath, dir);
+        }
+      }
+    });
+    watcher.on("error", (err) => {
+      console.error(`⚠️  Watcher error in ${dir}: ${err}`);
+    });
+  }
+
+  /** Queue a change to the mount's filter behind any still in progress */
+  private updateFilter(mount: WatchedMount, update: () => Promise<void>): void {
+    mount.filterUpdates = mount.filterUpdates.then(update).catch((err) => {
+      console.error(`⚠️  Failed to update filter: ${err}`);
+    });
+  }
+
+  /** Re-filter a mount once its ignore files have stopped changing */
+  private scheduleRefilter(dir: string, mount: WatchedMount): void {
+    clearTimeout(mount.refilterTimer);
+    mount.refilterTimer = setTimeout(() => this.updateFilter(mount, () => this.refilter(dir, mount)), REFILTER_DELAY_MS);
+  }
+
+  /**
+   * Re-read every ignore file of a mount and bring its index in line with a
+   * fresh scan, reporting the files that became exposed or hidden.
+   */
+  private async refilter(dir: string, mount: WatchedMount): Promise<void> {
+    this.options.resetIgnoreFiles(dir);
+    const current = new Set(await this.options.scan(dir));
+    if (this.mounts.get(dir) !== mount) return;
+
+    for (const filePath of [...mount.files]) {
+      if (current.has(filePath)) continue;
+      mount.files.delete(filePath);
+      this.listing = undefined;
+      this.options.onChange("unlink", filePath, dir);
+    }
+    for (const filePath of current) {
+      if (mount.files.has(filePath)) continue;
+      mount.files.add(filePath);
+      this.listing = undefined;
+      this.options.onChange("add", filePath, dir);
+    }
+
+    // chokidar only re-checks which folders to watch when asked — newly un-ignored ones need watching too
+    mount.watcher.add(dir);
+  }
+
+  /** Stop tracking a directory and forget its files */
+  async remove(dir: string): Promise<void> {
+    const mount = this.mounts.get(dir);
+    if (!mount) return;
+    this.mounts.delete(dir);
+    this.listing = undefined;
+    clearTimeout(mount.refilterTimer);
+    await mount.watcher.close();
+  }
+
+  /** Re-scan a mount from scratch, e.g. after its filters changed */
+  async rescan(dir: string): Promise<void> {
+    await this.remove(dir);
+    await this.add(dir);
+  }
+
+  /** Files currently exposed under one mount */
+  filesIn(dir: string): string[] {
+    return [...(this.mounts.get(dir)?.files ?? [])];
+  }
+
+  /** Number of files currently exposed under one mount */
+  countIn(dir: string): number {
+    return this.mounts.get(dir)?.files.size ?? 0;
+  }
+
+  /**
+   * Files currently exposed across all mounts, sorted, each listed once even
+   * when mounts overlap. The same array is returned until the index changes.
+   */
+  allFiles(): readonly string[] {
+    if (!this.listing) {
+      const all = new Set<string>();
+      for (const { files } of this.mounts.values()) for (const f of files) all.add(f);
+      this.listing = [...all].sort();
+    }
+    return this.listing;
+  }
+
+  async close(): Promise<void> {
+    for (const mount of this.mounts.values()) clearTimeout(mount.refilterTimer);
+    await Promise.all([...this.mounts.values()].map((m) => m.watcher.close()));
+    this.mounts.clear();
+    this.listing = undefined;
+  }
+}
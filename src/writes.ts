@@ -0,0 +1,178 @@
+/**
+ * Writable mounts — the file changes behind write_file, append_file and
+ * apply_patch.
+ *
+ * Each tool first works out the complete new contents of every file it
+ * touches, so a dry run can show the diff and a patch that fails to apply
+ * writes nothing. Committing backs up the old version of each file and then
+ * replaces it atomically.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomBytes } from "node:crypto";
+import { resolveWritableFile } from "./access.js";
+import { bus, type FileWrite } from "./events.js";
+import type { MountFilter } from "./filters.js";
+import { formatSize } from "./metrics.js";
+import { PatchError, applyHunks, parsePatch, unifiedDiff } from "./patch.js";
+
+/** Backups kept per file; older ones are deleted */
+export const MAX_BACKUPS_PER_FILE = 20;
+
+export type WriteTool = FileWrite["tool"];
+
+/** One file's change, as computed before anything is written */
+export interface PendingWrite {
+  filePath: string;
+  /** Current contents; undefined when the file does not exist yet */
+  before: string | undefined;
+  after: string;
+}
+
+export interface CommitOptions {
+  /** Only describe the changes */
+  dryRun: boolean;
+  /** Folder the previous versions are copied to — outside every mount, so the watcher never sees them */
+  backupDir: string;
+  /** Name a file is reported under in diffs and write events */
+  resourceName: (filePath: string) => string;
+}
+
+/** Tail of each file's queue of writes, so one read-modify-write finishes before the next reads */
+const fileQueues = new Map<string, Promise<void>>();
+
+/** Run `fn` once every earlier write queued for `filePath` has finished */
+async function withFileLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+  const previous = fileQueues.get(filePath) ?? Promise.resolve();
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => (release = resolve));
+  const tail = previous.then(() => done);
+  fileQueues.set(filePath, tail);
+  await previous;
+  try {
+    return await fn();
+  } finally {
+    release();
+    if (fileQueues.get(filePath) === tail) fileQueues.delete(filePath);
+  }
+}
+
+/**
+ * Run `fn` while holding the write lock of every one of `filePaths` (real
+ * paths). Read the files' current contents inside `fn`, so concurrent calls —
+ * from several sessions, say — never overwrite each other's changes.
+ */
+export function withFileLocks<T>(filePaths: string[], fn: () => Promise<T>): Promise<T> {
+  // A fixed order, so two callers locking the same files cannot wait on each other
+  const sorted = [...new Set(filePaths)].sort();
+  return sorted.reduceRight<() => Promise<T>>((inner, filePath) => () => withFileLock(filePath, inner), fn)();
+}
+
+/** A file's current text, or undefined if it does not exist */
+export async function readIfExists(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+}
+
+/** Copy a file into the backup folder before it changes, pruning old copies; returns the copy's path */
+async function backupFile(backupDir: string, filePath: string): Promise<string> {
+  const mirror = path.join(backupDir, filePath.replace(/^[/\\]+/, "").replace(/:/g, ""));
+  const backup = `${mirror}.${new Date().toISOString().replace(/[:.]/g, "-")}.bak`;
+  await fs.mkdir(path.dirname(backup), { recursive: true });
+  await fs.copyFile(filePath, backup);
+
+  const prefix = `${path.basename(filePath)}.`;
+  const copies = (await fs.readdir(path.dirname(backup)))
+    .filter((name) => name.startsWith(prefix) && /^\d{4}-.*\.bak$/.test(name.slice(prefix.length)))
+    .sort();
+  for (const name of copies.slice(0, -MAX_BACKUPS_PER_FILE)) {
+    await fs.rm(path.join(path.dirname(backup), name), { force: true });
+  }
+  return backup;
+}
+
+/** Replace a file's contents atomically: temp file in the same folder, then rename */
+async function writeFileAtomically(filePath: string, text: string): Promise<void> {
+  const mode = await fs.stat(filePath).then((s) => s.mode, () => undefined);
+  const tmpPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`;
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tmpPath, text, { encoding: "utf-8", mode });
+    await fs.rename(tmpPath, filePath);
+  } finally {
+    await fs.rm(tmpPath, { force: true });
+  }
+}
+
+/**
+ * Carry out (or, for a dry run, only describe) a set of file changes. A dry
+ * run returns their unified diff. Otherwise each existing file is backed up,
+ * the new contents are written and the write is announced on the event bus.
+ */
+export async function commitWrites(tool: WriteTool, writes: PendingWrite[], options: CommitOptions): Promise<string> {
+  const { dryRun, backupDir, resourceName } = options;
+  const diffs = writes.map((w) => ({ ...w, ...unifiedDiff(resourceName(w.filePath), w.before, w.after) }));
+  const changed = diffs.filter((d) => d.diff !== "");
+  if (changed.length === 0) {
+    return `ℹ️ ${writes.length === 1 ? resourceName(writes[0]!.filePath) : "These files"} would not change — nothing to write.`;
+  }
+
+  if (dryRun) {
+    return (
+      `🔍 Dry run — nothing was written. Changes to ${changed.length} file(s):\n\n` +
+      "```diff\n" +
+      changed.map((d) => d.diff).join("") +
+      "```"
+    );
+  }
+
+  const lines: string[] = [];
+  for (const { filePath, before, after, added, removed } of changed) {
+    const backup = before === undefined ? undefined : await backupFile(backupDir, filePath);
+    await writeFileAtomically(filePath, after);
+    bus.fileWrite({ tool, fileName: resourceName(filePath), created: before === undefined, added, removed });
+    lines.push(
+      `✅ ${before === undefined ? "Created" : "Updated"} ${filePath} ` +
+        `(+${added} −${removed} line(s), ${formatSize(Buffer.byteLength(after))})`,
+    );
+    if (backup) lines.push(`   💾 Previous version saved to ${backup}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Work out what apply_patch would write. `target` is the file a patch without
+ * paths applies to, or the folder the patch's "---" / "+++" paths are
+ * relative to. Every hunk must apply before anything is written.
+ */
+export async function preparePatch(mounts: Iterable<MountFilter>, target: string, patchText: string): Promise<PendingWrite[]> {
+  const filters = [...mounts];
+  const base = path.resolve(target);
+  const baseIsDir = await fs.stat(base).then((s) => s.isDirectory(), () => false);
+  const writes = new Map<string, PendingWrite>();
+
+  for (const filePatch of parsePatch(patchText)) {
+    if (filePatch.deletes) throw new PatchError(`apply_patch does not delete files (${filePatch.oldPath})`);
+    if (filePatch.oldPath !== undefined && filePatch.newPath !== undefined && filePatch.oldPath !== filePatch.newPath) {
+      throw new PatchError(`apply_patch does not rename files (${filePatch.oldPath} → ${filePatch.newPath})`);
+    }
+    const named = filePatch.newPath;
+    if (baseIsDir && named === undefined) throw new PatchError("The patch names no file — pass the file itself as path");
+    const filePath = await resolveWritableFile(filters, baseIsDir ? path.resolve(base, named!) : base);
+
+    const pending = writes.get(filePath) ?? { filePath, before: await readIfExists(filePath), after: "" };
+    const current = writes.has(filePath) ? pending.after : (pending.before ?? "");
+    if (filePatch.creates && pending.before !== undefined && !writes.has(filePath)) {
+      throw new PatchError(`${filePath} already exists — the patch expects to create it`);
+    }
+    if (!filePatch.creates && pending.before === undefined) throw new PatchError(`${filePath} does not exist`);
+    pending.after = applyHunks(current, filePatch.hunks);
+    writes.set(filePath, pending);
+  }
+  return [...writes.values()];
+}
@@ -0,0 +1,163 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  RESOURCE_NOT_FOUND,
+  exposedRealPath,
+  isInside,
+  resolveMountedFile,
+  resolveWritableFile,
+  uriPathToFsPath,
+} from "../src/access.js";
+import { MountFilter, type FolderMountOptions } from "../src/filters.js";
+
+const DEFAULT_EXTENSIONS = [".txt", ".md"];
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true }))));
+
+/** A mount root with a few files, a sibling folder outside it, and the mount's filter */
+async function makeMount(options: FolderMountOptions = {}): Promise<{ root: string; outside: string; mounts: MountFilter[] }> {
+  const base = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "omni-access-")));
+  tempDirs.push(base);
+  const root = path.join(base, "mount");
+  const outside = path.join(base, "outside");
+  await fs.mkdir(path.join(root, "secrets"), { recursive: true });
+  await fs.mkdir(outside);
+  await fs.writeFile(path.join(root, "readme.md"), "# inside\n");
+  await fs.writeFile(path.join(root, "data.json"), "{}\n");
+  await fs.writeFile(path.join(root, "secrets", "keys.md"), "secret\n");
+  await fs.writeFile(path.join(outside, "secret.txt"), "secret\n");
+  return { root, outside, mounts: [new MountFilter(root, options, DEFAULT_EXTENSIONS)] };
+}
+
+/** Asserts that a promise rejects with an McpError of the given code and message */
+async function rejectsWith(promise: Promise<unknown>, code: number, message: RegExp): Promise<void> {
+  await assert.rejects(promise, (err) => err instanceof McpError && err.code === code && message.test(err.message));
+}
+
+test("isInside accepts the root and its descendants only", () => {
+  assert.equal(isInside("/data/docs", "/data/docs"), true);
+  assert.equal(isInside("/data/docs", "/data/docs/a/b.md"), true);
+  assert.equal(isInside("/data/docs", "/data/docs-old/b.md"), false);
+  assert.equal(isInside("/data/docs", "/data"), false);
+});
+
+test("URI paths are decoded and normalized to absolute paths", () => {
+  assert.equal(uriPathToFsPath("data/my%20notes.md"), "/data/my notes.md");
+  assert.equal(uriPathToFsPath("/data/docs/../../etc/passwd"), "/etc/passwd");
+  assert.throws(() => uriPathToFsPath("data/%E0%A4%A.md"), (err) => err instanceof McpError && err.code === ErrorCode.InvalidParams);
+});
+
+test("a mounted file resolves to its real path", async () => {
+  const { root, mounts } = await makeMount();
+  assert.equal(await resolveMountedFile(mounts, path.join(root, "readme.md")), path.join(root, "readme.md"));
+  assert.equal(await resolveMountedFile(mounts, path.join(root, "secrets", "keys.md")), path.join(root, "secrets", "keys.md"));
+});
+
+test("paths outside every mount, or hidden by its filter, are refused", async () => {
+  const { root, outside, mounts } = await makeMount({ exclude: ["secrets/**"] });
+  await rejectsWith(resolveMountedFile(mounts, path.join(outside, "secret.txt")), ErrorCode.InvalidParams, /not inside a mounted directory/);
+  await rejectsWith(resolveMountedFile(mounts, path.join(root, "..", "outside", "secret.txt")), ErrorCode.InvalidParams, /not inside/);
+  await rejectsWith(resolveMountedFile(mounts, path.join(root, "data.json")), ErrorCode.InvalidParams, /not exposed by its mount/);
+  await rejectsWith(resolveMountedFile(mounts, path.join(root, "secrets", "keys.md")), ErrorCode.InvalidParams, /not exposed/);
+});
+
+test("a missing file is reported as not found", async () => {
+  const { root, mounts } = await makeMount();
+  await rejectsWith(resolveMountedFile(mounts, path.join(root, "gone.md")), RESOURCE_NOT_FOUND, /Resource not found/);
+});
+
+test("symlinks are followed and their targets checked against the same mount", async () => {
+  const { root, outside, mounts } = await makeMount({ exclude: ["secrets/**"] });
+  await fs.symlink(path.join(outside, "secret.txt"), path.join(root, "leak.txt"));
+  await fs.symlink(path.join(root, "secrets", "keys.md"), path.join(root, "x.md"));
+  await fs.symlink(path.join(root, "data.json"), path.join(root, "data.md"));
+  await fs.symlink(path.join(root, "readme.md"), path.join(root, "alias.md"));
+
+  await rejectsWith(resolveMountedFile(mounts, path.join(root, "leak.txt")), ErrorCode.InvalidParams, /resolves outside its mount/);
+  await rejectsWith(resolveMountedFile(mounts, path.join(root, "x.md")), ErrorCode.InvalidParams, /resolves outside/);
+  await rejectsWith(resolveMountedFile(mounts, path.join(root, "data.md")), ErrorCode.InvalidParams, /resolves outside/);
+  assert.equal(await resolveMountedFile(mounts, path.join(root, "alias.md")), path.join(root, "readme.md"));
+});
+
+test("a target exposed by another mount does not make a link readable", async () => {
+  const { root, outside, mounts } = await makeMount();
+  await fs.symlink(path.join(outside, "secret.txt"), path.join(root, "leak.txt"));
+  const both = [...mounts, new MountFilter(outside, {}, DEFAULT_EXTENSIONS)];
+
+  await rejectsWith(resolveMountedFile(both, path.join(root, "leak.txt")), ErrorCode.InvalidParams, /resolves outside/);
+  assert.equal(await resolveMountedFile(both, path.join(outside, "secret.txt")), path.join(outside, "secret.txt"));
+});
+
+test("exposedRealPath re-checks indexed files and drops re-pointed links", async () => {
+  const { root, outside, mounts } = await makeMount();
+  const link = path.join(root, "link.md");
+  await fs.symlink(path.join(root, "readme.md"), link);
+  assert.equal(await exposedRealPath(mounts, link), path.join(root, "readme.md"));
+
+  await fs.rm(link);
+  await fs.symlink(path.join(outside, "secret.txt"), link);
+  assert.equal(await exposedRealPath(mounts, link), undefined);
+  assert.equal(await exposedRealPath(mounts, path.join(root, "missing.md")), undefined);
+});
+
+test("writes are only allowed to exposed files of writable mounts", async () => {
+  const { root, outside, mounts } = await makeMount({ exclude: ["secrets/**"] });
+  const writable = [new MountFilter(root, { exclude: ["secrets/**"], writable: true }, DEFAULT_EXTENSIONS)];
+
+  await assert.rejects(resolveWritableFile(mounts, path.join(root, "readme.md")), /read-only mount/);
+  await assert.rejects(resolveWritableFile(writable, path.join(outside, "secret.txt")), /not inside a mounted directory/);
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "data.json")), /not a file its mount exposes/);
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "secrets", "keys.md")), /not a file its mount exposes/);
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "secrets")), /not a file its mount exposes/);
+
+  assert.equal(await resolveWritableFile(writable, path.join(root, "readme.md")), path.join(root, "readme.md"));
+  // New files, in folders that do not exist yet, resolve too
+  assert.equal(await resolveWritableFile(writable, path.join(root, "new", "deep", "n.md")), path.join(root, "new", "deep", "n.md"));
+});
+
+test("converted formats cannot be written", async () => {
+  const { root } = await makeMount();
+  const writable = [new MountFilter(root, { extensions: [".html"], writable: true }, DEFAULT_EXTENSIONS)];
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "page.html")), /converted on read and cannot be written/);
+});
+
+test("writes through symlinks must land inside the same mount", async () => {
+  const { root, outside } = await makeMount();
+  const writable = [new MountFilter(root, { writable: true }, DEFAULT_EXTENSIONS)];
+  await fs.symlink(path.join(outside, "secret.txt"), path.join(root, "leak.txt"));
+  await fs.symlink(outside, path.join(root, "elsewhere"));
+  await fs.symlink(path.join(root, "readme.md"), path.join(root, "alias.md"));
+  await fs.symlink(path.join(root, "missing-target.md"), path.join(root, "dangling.md"));
+
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "leak.txt")), /resolves outside its mount/);
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "elsewhere", "new.md")), /resolves outside its mount/);
+  assert.equal(await resolveWritableFile(writable, path.join(root, "alias.md")), path.join(root, "readme.md"));
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "dangling.md")), /is a broken symlink/);
+});
+
+test("writes through symlinks cannot reach files the mount hides", async () => {
+  const { root } = await makeMount();
+  const writable = [new MountFilter(root, { exclude: ["secrets/**"], writable: true }, DEFAULT_EXTENSIONS)];
+  await fs.mkdir(path.join(root, ".git", "hooks"), { recursive: true });
+  await fs.writeFile(path.join(root, ".git", "hooks", "pre-commit"), "#!/bin/sh\n");
+  await fs.writeFile(path.join(root, ".git", "notes.md"), "git\n");
+  await fs.writeFile(path.join(root, ".gitignore"), "private.md\nbuild/\n");
+  await fs.writeFile(path.join(root, "private.md"), "private\n");
+  await fs.symlink(path.join(root, ".git", "hooks", "pre-commit"), path.join(root, "hook.md"));
+  await fs.symlink(path.join(root, ".git", "notes.md"), path.join(root, "git-notes.md"));
+  await fs.symlink(path.join(root, "secrets", "keys.md"), path.join(root, "keys.md"));
+  await fs.symlink(path.join(root, "private.md"), path.join(root, "public.md"));
+  await fs.mkdir(path.join(root, "build"));
+  await fs.symlink(path.join(root, "build"), path.join(root, "out"));
+
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "hook.md")), /resolves outside its mount/);
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "git-notes.md")), /resolves outside its mount/);
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "keys.md")), /resolves outside its mount/);
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "public.md")), /resolves outside its mount/);
+  await assert.rejects(resolveWritableFile(writable, path.join(root, "out", "new.md")), /resolves outside its mount/);
+});
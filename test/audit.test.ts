@@ -0,0 +1,97 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { AuditLog, type AuditRecord } from "../src/audit.js";
+
+function entry(overrides: Partial<AuditRecord> = {}): AuditRecord {
+  return {
+    session: "stdio",
+    client: "test-client/1.0",
+    kind: "resource",
+    name: "file",
+    target: "file:///notes/a.md",
+    bytes: 100,
+    durationMs: 12.4,
+    outcome: "ok",
+    ...overrides,
+  };
+}
+
+/** Record an entry as if it were made at `at` */
+function recordAt(t: TestContext, log: AuditLog, at: string, record: AuditRecord): void {
+  t.mock.timers.enable({ apis: ["Date"], now: new Date(at) });
+  log.record(record);
+  t.mock.timers.reset();
+}
+
+test("entries come back newest first with optional fields left out", () => {
+  const log = new AuditLog(":memory:");
+  log.record(entry());
+  log.record(entry({ kind: "tool", name: "query_sqlite", target: '{"sql":"SELECT 1"}', sql: "SELECT 1" }));
+  log.record(entry({ outcome: "error", error: "ENOENT: no such file" }));
+
+  const { entries, total } = log.query({}, 2);
+  assert.equal(total, 3);
+  assert.deepEqual(
+    entries.map((e) => [e.id, e.outcome, e.error, e.sql]),
+    [
+      [3, "error", "ENOENT: no such file", undefined],
+      [2, "ok", undefined, "SELECT 1"],
+    ],
+  );
+  assert.equal(entries[1].durationMs, 12);
+  assert.ok(!("error" in entries[1]));
+  log.close();
+});
+
+test("filters narrow the log, and text search treats wildcards literally", () => {
+  const log = new AuditLog(":memory:");
+  log.record(entry({ session: "a", target: "file:///notes/100%_done.md" }));
+  log.record(entry({ session: "b", target: "file:///notes/100x_done.md" }));
+  log.record(entry({ session: "b", kind: "tool", name: "query_sqlite", sql: "SELECT * FROM orders" }));
+  log.record(entry({ session: "b", outcome: "error", error: "permission denied" }));
+
+  const ids = (filter: Parameters<AuditLog["query"]>[0]) => log.query(filter, 10).entries.map((e) => e.id);
+  assert.deepEqual(ids({ session: "b", kind: "resource" }), [4, 2]);
+  assert.deepEqual(ids({ contains: "100%_" }), [1]);
+  assert.deepEqual(ids({ contains: "orders" }), [3]);
+  assert.deepEqual(ids({ contains: "denied", outcome: "error" }), [4]);
+  assert.deepEqual(ids({ name: "query_sqlite" }), [3]);
+  log.close();
+});
+
+test("long targets are clipped", () => {
+  const log = new AuditLog(":memory:");
+  log.record(entry({ target: "x".repeat(5000) }));
+  const [stored] = log.query({}, 1).entries;
+  assert.equal(stored.target.length, 4001);
+  assert.ok(stored.target.endsWith("…"));
+  log.close();
+});
+
+test("summaries group by operation", () => {
+  const log = new AuditLog(":memory:");
+  log.record(entry({ bytes: 10, durationMs: 10 }));
+  log.record(entry({ bytes: 30, durationMs: 20, outcome: "error" }));
+  log.record(entry({ kind: "tool", name: "mount_folder", bytes: 5 }));
+
+  assert.deepEqual(log.summarize(), [
+    { kind: "resource", name: "file", calls: 2, errors: 1, bytes: 40, avgMs: 15 },
+    { kind: "tool", name: "mount_folder", calls: 1, errors: 0, bytes: 5, avgMs: 12 },
+  ]);
+  log.close();
+});
+
+test("time windows, last reads and retention use entry timestamps", (t) => {
+  const log = new AuditLog(":memory:");
+  recordAt(t, log, "2020-01-01T00:00:00Z", entry({ target: "file:///notes/old.md" }));
+  recordAt(t, log, "2020-01-02T00:00:00Z", entry({ target: "file:///notes/a.md", outcome: "error" }));
+  log.record(entry({ target: "file:///elsewhere/b.md" }));
+
+  assert.equal(log.query({ since: "2020-01-01T12:00:00Z", until: "2021-01-01T00:00:00Z" }, 10).total, 1);
+  assert.equal(log.lastRead("file:///notes/"), "2020-01-01T00:00:00.000Z");
+  assert.equal(log.lastRead("file:///nowhere/"), undefined);
+
+  assert.equal(log.prune(30), 2);
+  assert.equal(log.query({}, 10).total, 1);
+  log.close();
+});
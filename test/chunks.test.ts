@@ -0,0 +1,107 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { chunkText, findHeadings, parseRange, parseRangeParams, sliceText, takeRangeParams } from "../src/chunks.js";
+
+test("ranges parse as start-end, open-ended or single", () => {
+  assert.deepEqual(parseRange("10-50", "line"), { start: 10, end: 50 });
+  assert.deepEqual(parseRange(" 10 - ", "line"), { start: 10, end: undefined });
+  assert.deepEqual(parseRange("7", "byte"), { start: 7, end: 7 });
+  assert.throws(() => parseRange("50-10", "line"), /end is before start/);
+  assert.throws(() => parseRange("1,5", "line"), /Invalid line range "1,5"/);
+  assert.throws(() => parseRange("-5", "byte"), /Invalid byte range/);
+});
+
+test("range parameters select one kind of range", () => {
+  const params = (query: string) => parseRangeParams(new URLSearchParams(query));
+  assert.equal(params(""), undefined);
+  assert.deepEqual(params("lines=3-4"), { kind: "lines", range: { start: 3, end: 4 } });
+  assert.deepEqual(params("bytes=0-99"), { kind: "bytes", range: { start: 0, end: 99 } });
+  assert.deepEqual(params("chunk=2"), { kind: "chunk", index: 2, tokens: 2000 });
+  assert.deepEqual(params("chunk=1&tokens=500"), { kind: "chunk", index: 1, tokens: 500 });
+
+  assert.throws(() => params("lines=1-2&bytes=0-1"), /only one of lines, bytes or chunk/);
+  assert.throws(() => params("lines=0-2"), /start at 1/);
+  assert.throws(() => params("chunk=0"), /numbered from 1/);
+  assert.throws(() => params("chunk=1&tokens=lots"), /Invalid tokens/);
+});
+
+test("range parameters are split off and other query parameters kept", () => {
+  const { rest, params } = takeRangeParams("example.com/search?q=term&lines=1-40&page=2");
+  assert.equal(rest, "example.com/search?q=term&page=2");
+  assert.equal(params.toString(), "lines=1-40");
+  assert.equal(takeRangeParams("docs/spec.md?chunk=3").rest, "docs/spec.md");
+  assert.equal(takeRangeParams("docs/spec.md").params.size, 0);
+});
+
+test("headings inside fenced code are not headings", () => {
+  const lines = ["# Title", "```sh", "# a comment", "```", "## Usage ##", "   ### Indented", "    # code", "#no-space"];
+  assert.deepEqual(findHeadings(lines), [
+    { line: 1, level: 1, title: "Title" },
+    { line: 5, level: 2, title: "Usage" },
+    { line: 6, level: 3, title: "Indented" },
+  ]);
+});
+
+test("line ranges are clamped to the text", () => {
+  const text = "one\ntwo\nthree\nfour";
+  assert.deepEqual(sliceText(text, { kind: "lines", range: { start: 2, end: 3 } }), {
+    text: "two\nthree",
+    position: "lines 2–3 of 4",
+  });
+  assert.equal(sliceText(text, { kind: "lines", range: { start: 3, end: 99 } }).text, "three\nfour");
+  assert.throws(() => sliceText(text, { kind: "lines", range: { start: 5 } }), /past the end \(4 lines\)/);
+});
+
+test("byte ranges widen to whole UTF-8 characters", () => {
+  const text = "añb€c"; // a(1) ñ(2) b(1) €(3) c(1)
+  assert.deepEqual(sliceText(text, { kind: "bytes", range: { start: 0, end: 0 } }), {
+    text: "a",
+    position: "bytes 0–0 of 8",
+  });
+  assert.deepEqual(sliceText(text, { kind: "bytes", range: { start: 2, end: 5 } }), {
+    text: "ñb€",
+    position: "bytes 1–6 of 8",
+  });
+  assert.equal(sliceText(text, { kind: "bytes", range: { start: 4 } }).text, "€c");
+  assert.throws(() => sliceText(text, { kind: "bytes", range: { start: 8 } }), /past the end \(8 bytes\)/);
+});
+
+/** A Markdown document of `sections` sections, each a heading and `lines` lines of 39 characters */
+function document(sections: number, lines: number): string {
+  const line = (s: number, l: number) => `line ${String(l).padStart(2, "0")} of section ${s}`.padEnd(39, ".");
+  return Array.from({ length: sections }, (_, s) =>
+    [`# Section ${s + 1}`, ...Array.from({ length: lines }, (_, l) => line(s + 1, l))].join("\n"),
+  ).join("\n");
+}
+
+test("chunks hold whole sections when they fit the budget", () => {
+  // Each section is 11 lines of about 10 tokens
+  const chunks = chunkText(document(3, 10), 250);
+  assert.deepEqual(
+    chunks.map((c) => [c.startLine, c.endLine, c.heading]),
+    [
+      [1, 22, "Section 1"],
+      [23, 33, "Section 3"],
+    ],
+  );
+  assert.ok(chunks.every((c) => c.tokens <= 250));
+});
+
+test("sections over budget are split between lines", () => {
+  const chunks = chunkText(document(1, 30), 50);
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.every((c) => c.tokens <= 50 && c.heading === "Section 1"));
+  assert.deepEqual(
+    chunks.slice(1).map((c, i) => c.startLine - chunks[i].endLine),
+    chunks.slice(1).map(() => 1),
+  );
+  assert.equal(chunks.at(-1)!.endLine, 31);
+});
+
+test("a chunk is addressed by number", () => {
+  const text = document(3, 10);
+  const slice = sliceText(text, { kind: "chunk", index: 2, tokens: 250 });
+  assert.ok(slice.text.startsWith("# Section 3\n"));
+  assert.match(slice.position, /^chunk 2 of 2 \(lines 23–33, ~\d+ tokens\) under "Section 3"$/);
+  assert.throws(() => sliceText(text, { kind: "chunk", index: 3, tokens: 250 }), /Chunk 3 does not exist \(2 chunks/);
+});
@@ -0,0 +1,126 @@
+import { after, test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { runCli } from "../src/cli.js";
+import { loadConfig } from "../src/config.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true }))));
+
+async function makeDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "omni-cli-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+/** Run a command against `configFile`, capturing what it prints */
+async function cli(t: TestContext, configFile: string, ...argv: string[]) {
+  const log = t.mock.method(console, "log", () => {});
+  const error = t.mock.method(console, "error", () => {});
+  try {
+    const code = await runCli([...argv, "--config", configFile], { defaultConfigFile: "/nonexistent/config.json" });
+    const text = (mock: typeof log) => mock.mock.calls.map((c) => c.arguments.join(" ")).join("\n");
+    return { code, stdout: text(log), stderr: text(error) };
+  } finally {
+    log.mock.restore();
+    error.mock.restore();
+  }
+}
+
+test("folders are mounted, listed and unmounted", async (t) => {
+  const dir = await makeDir();
+  const configFile = path.join(dir, "config.json");
+  const notes = path.join(dir, "notes");
+  await fs.mkdir(notes);
+
+  const mounted = await cli(t, configFile, "mount", notes, "--ext", "TS", "--max-depth", "2");
+  assert.equal(mounted.code, 0);
+  assert.match(mounted.stdout, /Mounted ".*notes" in workspace "default"/);
+
+  const listed = JSON.parse((await cli(t, configFile, "list", "--json")).stdout);
+  assert.equal(listed.workspace, "default");
+  assert.deepEqual(listed.mountedPaths, [{ path: notes, extensions: [".ts"], maxDepth: 2 }]);
+
+  const remounted = await cli(t, configFile, "mount", notes);
+  assert.match(remounted.stdout, /already mounted .* options are unchanged/);
+  assert.deepEqual((await loadConfig(configFile)).config.workspaces.default.mountedPaths, [
+    { path: notes, extensions: [".ts"], maxDepth: 2 },
+  ]);
+
+  assert.equal((await cli(t, configFile, "unmount", notes)).code, 0);
+  assert.match((await cli(t, configFile, "unmount", notes)).stdout, /is not mounted/);
+  assert.match((await cli(t, configFile, "list")).stdout, /\(nothing mounted\)/);
+});
+
+test("remounting a folder merges the new options over its existing ones", async (t) => {
+  const dir = await makeDir();
+  const configFile = path.join(dir, "config.json");
+
+  await cli(t, configFile, "mount", dir, "--ext", ".ts", "--include", "src/**", "--exclude", "dist/**", "--max-depth", "3");
+  const updated = await cli(t, configFile, "mount", dir, "--writable", "--exclude", "build/**");
+  assert.match(updated.stdout, /Updated options for/);
+  assert.deepEqual((await loadConfig(configFile)).config.workspaces.default.mountedPaths, [
+    { path: dir, extensions: [".ts"], include: ["src/**"], exclude: ["build/**"], maxDepth: 3, writable: true },
+  ]);
+});
+
+test("--workspace edits that workspace only", async (t) => {
+  const dir = await makeDir();
+  const configFile = path.join(dir, "config.json");
+
+  assert.equal((await cli(t, configFile, "mount", dir, "--workspace", "client-a")).code, 0);
+  const { config } = await loadConfig(configFile);
+  assert.deepEqual(config.workspaces["client-a"].mountedPaths, [{ path: dir }]);
+  assert.deepEqual(config.workspaces.default.mountedPaths, []);
+
+  const invalid = await cli(t, configFile, "list", "--workspace", "no spaces");
+  assert.equal(invalid.code, 1);
+  assert.match(invalid.stderr, /Invalid workspace name/);
+});
+
+test("databases are opened before they are mounted, once", async (t) => {
+  const dir = await makeDir();
+  const configFile = path.join(dir, "config.json");
+  const dbPath = path.join(dir, "app.db");
+  const db = new Database(dbPath);
+  db.exec("CREATE TABLE a (x); CREATE TABLE b (y);");
+  db.close();
+
+  assert.match((await cli(t, configFile, "mount-sqlite", dbPath)).stdout, /\(2 table\(s\)\)/);
+  assert.match((await cli(t, configFile, "mount-sqlite", dbPath)).stdout, /already mounted/);
+
+  await fs.writeFile(path.join(dir, "not.db"), "plain text, not a database");
+  const broken = await cli(t, configFile, "mount-sqlite", path.join(dir, "not.db"));
+  assert.equal(broken.code, 1);
+  assert.deepEqual((await loadConfig(configFile)).config.workspaces.default.mountedDatabases, [dbPath]);
+});
+
+test("bad arguments are reported with the command's usage", async (t) => {
+  const dir = await makeDir();
+  const configFile = path.join(dir, "config.json");
+
+  const unknown = await cli(t, configFile, "mount", dir, "--frobnicate");
+  assert.equal(unknown.code, 1);
+  assert.match(unknown.stderr, /Usage: omni-mcp mount <folder>/);
+
+  assert.match((await cli(t, configFile, "mount", path.join(dir, "missing"))).stderr, /does not exist/);
+  assert.match((await cli(t, configFile, "mount", dir, "--max-depth", "1.5")).stderr, /Invalid --max-depth/);
+  await assert.rejects(fs.stat(configFile));
+});
+
+test("doctor flags mounts that have gone missing", async (t) => {
+  const dir = await makeDir();
+  const configFile = path.join(dir, "config.json");
+  const gone = path.join(dir, "gone");
+  await fs.mkdir(gone);
+  await cli(t, configFile, "mount", gone);
+  await fs.rmdir(gone);
+
+  const report = await cli(t, configFile, "doctor");
+  assert.equal(report.code, 1);
+  assert.match(report.stdout, /❌ Folder .*gone does not exist/);
+  assert.match(report.stdout, /1 problem\(s\), 0 warning\(s\)\./);
+});
@@ -0,0 +1,180 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  CONFIG_VERSION,
+  ConfigError,
+  WORKSPACE_NAME_PATTERN,
+  diffWorkspaces,
+  emptyConfig,
+  emptyWorkspace,
+  loadConfig,
+  mergeWorkspaces,
+  sameWorkspace,
+  saveConfigFile,
+  updateConfigFile,
+} from "../src/config.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true }))));
+
+/** Path of a config file in a fresh folder, written with `contents` if given */
+async function configFile(contents?: unknown): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "omni-config-"));
+  tempDirs.push(dir);
+  const file = path.join(dir, "config.json");
+  if (contents !== undefined) {
+    await fs.writeFile(file, typeof contents === "string" ? contents : JSON.stringify(contents));
+  }
+  return file;
+}
+
+/** Files next to the config whose names start with `prefix` */
+async function siblings(file: string, prefix: string): Promise<string[]> {
+  return (await fs.readdir(path.dirname(file))).filter((name) => name.startsWith(prefix));
+}
+
+test("a missing file yields an empty config", async () => {
+  const file = await configFile();
+  assert.deepEqual(await loadConfig(file), { config: emptyConfig() });
+});
+
+test("an unversioned config is migrated to the current format", async () => {
+  const file = await configFile({
+    mountedPaths: ["/notes", { path: "/code", extensions: [".ts"] }],
+    mountedDatabases: ["/data/app.db"],
+  });
+  const { config, migratedFrom } = await loadConfig(file);
+  assert.equal(migratedFrom, 1);
+  assert.equal(config.version, CONFIG_VERSION);
+  assert.deepEqual(config.workspaces[config.activeWorkspace], {
+    mountedPaths: [{ path: "/notes" }, { path: "/code", extensions: [".ts"] }],
+    mountedUrls: [],
+    mountedDatabases: ["/data/app.db"],
+    mountedSites: [],
+    mountedDatasets: [],
+  });
+});
+
+test("unparseable and invalid configs are backed up and reported", async () => {
+  for (const contents of ["{ not json", "[]", { version: "two" }, { mountedPaths: [{ path: 42 }] }]) {
+    const file = await configFile(contents);
+    const err = await loadConfig(file).then(
+      () => assert.fail(`expected ${JSON.stringify(contents)} to be rejected`),
+      (e: unknown) => e,
+    );
+    assert.ok(err instanceof ConfigError);
+    assert.ok(err.backupPath);
+    assert.equal(await fs.readFile(err.backupPath, "utf-8"), await fs.readFile(file, "utf-8"));
+  }
+
+  const file = await configFile({ mountedPaths: [{ path: 42 }] });
+  await assert.rejects(loadConfig(file), /failed validation:\n {2}• workspaces\.default\.mountedPaths\.0\.path:/);
+});
+
+test("a config from a newer version is refused and left alone", async () => {
+  const file = await configFile({ version: CONFIG_VERSION + 1 });
+  await assert.rejects(loadConfig(file), (err) => err instanceof ConfigError && err.backupPath === undefined);
+  assert.deepEqual(await siblings(file, "config.json.corrupt-"), []);
+});
+
+test("saving writes the whole config in one step and reloads unchanged", async () => {
+  const file = path.join(await configFile(), "nested", "config.json");
+  const config = emptyConfig();
+  config.workspaces.default.mountedDatabases.push("/data/app.db");
+
+  await saveConfigFile(file, config);
+  assert.deepEqual(await loadConfig(file), { config });
+  assert.deepEqual(await siblings(file, "config.json."), []);
+  assert.ok((await fs.readFile(file, "utf-8")).endsWith("}\n"));
+});
+
+test("a version 2 config becomes the default workspace", async () => {
+  const mounts = { ...emptyWorkspace(), mountedDatabases: ["/data/app.db"] };
+  const { config, migratedFrom } = await loadConfig(await configFile({ version: 2, ...mounts }));
+  assert.equal(migratedFrom, 2);
+  assert.deepEqual(config, { version: CONFIG_VERSION, activeWorkspace: "default", workspaces: { default: mounts } });
+});
+
+test("each workspace keeps its own mounts", async () => {
+  const file = await configFile();
+  const config = emptyConfig();
+  config.workspaces["client-a"] = { ...emptyWorkspace(), mountedPaths: [{ path: "/projects/a" }] };
+  config.activeWorkspace = "client-a";
+
+  await saveConfigFile(file, config);
+  const { config: loaded } = await loadConfig(file);
+  assert.equal(loaded.activeWorkspace, "client-a");
+  assert.deepEqual(Object.keys(loaded.workspaces).sort(), ["client-a", "default"]);
+  assert.deepEqual(loaded.workspaces.default.mountedPaths, []);
+});
+
+test("workspace names must be usable as CLI arguments", async () => {
+  for (const name of ["default", "client-a", "v2.1", "Team_B"]) assert.match(name, WORKSPACE_NAME_PATTERN);
+  for (const name of ["", "-flag", ".hidden", "with space", "a/b", "x".repeat(65)]) {
+    assert.doesNotMatch(name, WORKSPACE_NAME_PATTERN);
+  }
+
+  const file = await configFile({ ...emptyConfig(), workspaces: { "bad name": emptyWorkspace() } });
+  await assert.rejects(loadConfig(file), ConfigError);
+});
+
+test("merging keeps our edits and takes everyone else's", () => {
+  const base = { ...emptyWorkspace(), mountedPaths: [{ path: "/a" }, { path: "/b" }], mountedDatabases: ["/x.db"] };
+  // We changed /a's options and dropped /x.db
+  const ours = { ...emptyWorkspace(), mountedPaths: [{ path: "/a", maxDepth: 1 }, { path: "/b" }] };
+  // Someone else unmounted /b, mounted /c and changed /a too
+  const theirs = {
+    ...emptyWorkspace(),
+    mountedPaths: [{ path: "/a", writable: true }, { path: "/c" }],
+    mountedDatabases: ["/x.db"],
+  };
+
+  const merged = mergeWorkspaces(base, ours, theirs);
+  assert.deepEqual(merged.mountedPaths, [{ path: "/a", maxDepth: 1 }, { path: "/c" }]);
+  assert.deepEqual(merged.mountedDatabases, []);
+});
+
+test("diffs report removed keys and new or changed entries, ignoring key order", () => {
+  const before = { ...emptyWorkspace(), mountedPaths: [{ path: "/a", maxDepth: 1, writable: true }, { path: "/b" }] };
+  const after = { ...emptyWorkspace(), mountedPaths: [{ writable: true, maxDepth: 1, path: "/a" }, { path: "/c" }] };
+
+  const diff = diffWorkspaces(before, after);
+  assert.deepEqual(diff.mountedPaths, { removed: ["/b"], upserted: [{ path: "/c" }] });
+  assert.deepEqual(diff.mountedUrls, { removed: [], upserted: [] });
+  assert.equal(sameWorkspace(before, after), false);
+  assert.equal(sameWorkspace(before, { ...before, mountedPaths: [...before.mountedPaths].reverse() }), true);
+});
+
+test("concurrent updates are applied one after another", async () => {
+  const file = await configFile();
+  await Promise.all(
+    Array.from({ length: 8 }, (_, i) =>
+      updateConfigFile(file, (config) => {
+        config.workspaces.default.mountedDatabases.push(`/db-${i}.db`);
+      }),
+    ),
+  );
+  const { config } = await loadConfig(file);
+  assert.equal(config.workspaces.default.mountedDatabases.length, 8);
+  assert.deepEqual(await siblings(file, "config.json."), []);
+});
+
+test("an update may decline to write", async () => {
+  const file = await configFile();
+  await updateConfigFile(file, () => false);
+  await assert.rejects(fs.stat(file));
+});
+
+test("an update replaces a corrupt config after backing it up", async (t) => {
+  const file = await configFile("{ broken");
+  const error = t.mock.method(console, "error", () => {});
+  await updateConfigFile(file, (config) => {
+    config.workspaces.default.mountedDatabases.push("/fresh.db");
+  });
+  assert.match(String(error.mock.calls[0]?.arguments[0]), /Backed up to .*config\.json\.corrupt-/);
+  assert.deepEqual((await loadConfig(file)).config.workspaces.default.mountedDatabases, ["/fresh.db"]);
+  assert.equal((await siblings(file, "config.json.corrupt-")).length, 1);
+});
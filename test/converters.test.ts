@@ -0,0 +1,93 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { escapeCell, findConverter, parseDelimited, readAsText } from "../src/converters.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true }))));
+
+async function writeTemp(name: string, contents: string): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "omni-converters-"));
+  tempDirs.push(dir);
+  const filePath = path.join(dir, name);
+  await fs.writeFile(filePath, contents);
+  return filePath;
+}
+
+test("parseDelimited splits rows and cells", () => {
+  assert.deepEqual(parseDelimited("a,b,c\n1,2,3\n", ","), [
+    ["a", "b", "c"],
+    ["1", "2", "3"],
+  ]);
+  assert.deepEqual(parseDelimited("a\tb\r\n1\t2", "\t"), [
+    ["a", "b"],
+    ["1", "2"],
+  ]);
+});
+
+test("parseDelimited honours RFC 4180 quoting", () => {
+  const text = 'name,quote\n"Smith, J","He said ""hi""\nthen left"\n';
+  assert.deepEqual(parseDelimited(text, ","), [
+    ["name", "quote"],
+    ["Smith, J", 'He said "hi"\nthen left'],
+  ]);
+});
+
+test("parseDelimited keeps empty cells but drops blank lines", () => {
+  assert.deepEqual(parseDelimited("a,,c\n\n,,\n1,2,\n", ","), [
+    ["a", "", "c"],
+    ["1", "2", ""],
+  ]);
+});
+
+test("parseDelimited only treats a quote at the start of a cell as quoting", () => {
+  assert.deepEqual(parseDelimited('5" screen,ok\n', ","), [['5" screen', "ok"]]);
+});
+
+test("escapeCell keeps pipes and line breaks from breaking a Markdown table", () => {
+  assert.equal(escapeCell("a|b\nc\r\nd"), "a\\|b<br>c<br>d");
+});
+
+test("CSV files are rendered as a Markdown table, byte order mark dropped", async () => {
+  const filePath = await writeTemp("people.csv", "\uFEFFname,role\nAda,\"engineer | lead\"\nGrace\n");
+  assert.equal(
+    await readAsText(filePath),
+    ["| name | role |", "| --- | --- |", "| Ada | engineer \\| lead |", "| Grace |  |"].join("\n"),
+  );
+});
+
+test("notebooks keep markdown cells and fence code cells with their outputs", async () => {
+  const notebook = {
+    metadata: { language_info: { name: "python" } },
+    cells: [
+      { cell_type: "markdown", source: ["# Title\n", "Intro"] },
+      { cell_type: "code", source: "print(1)", outputs: [{ output_type: "stream", text: ["1\n"] }] },
+      { cell_type: "code", source: "1/0", outputs: [{ output_type: "error", ename: "ZeroDivisionError", evalue: "division by zero" }] },
+    ],
+  };
+  const filePath = await writeTemp("analysis.ipynb", JSON.stringify(notebook));
+  assert.equal(
+    await readAsText(filePath),
+    [
+      "# Title\nIntro",
+      "```python\nprint(1)\n```",
+      "Output:\n\n```\n1\n```",
+      "```python\n1/0\n```",
+      "Output:\n\n```\nZeroDivisionError: division by zero\n```",
+    ].join("\n\n"),
+  );
+});
+
+test("plain text files are read as they are", async () => {
+  const filePath = await writeTemp("notes.md", "# Notes\n");
+  assert.equal(findConverter(filePath), undefined);
+  assert.equal(await readAsText(filePath), "# Notes\n");
+});
+
+test("converters are picked by extension, case-insensitively", () => {
+  assert.equal(findConverter("/docs/Report.PDF")?.format, "PDF");
+  assert.equal(findConverter("/docs/page.htm")?.format, "HTML");
+  assert.equal(findConverter("/docs/data.tsv")?.format, "TSV");
+});
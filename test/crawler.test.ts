@@ -0,0 +1,209 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { crawlSite, extractLinks, isAllowedByRobots, parseRobots, type CrawledPage } from "../src/crawler.js";
+
+const AGENT = "Omni-MCP/2.0 (Resource Fetcher)";
+
+const ROBOTS = `
+# Everyone else
+User-agent: *
+Disallow: /
+
+User-agent: googlebot
+User-agent: omni-mcp
+Disallow: /private/
+Allow: /private/open.html
+Disallow: /*.pdf$
+Crawl-delay: 2   # seconds
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+const allowed = (robotsText: string, path: string) =>
+  isAllowedByRobots(parseRobots(robotsText, AGENT), new URL(path, "https://example.com"));
+
+test("robots.txt picks the group naming our agent, falling back to *", () => {
+  const rules = parseRobots(ROBOTS, AGENT);
+  assert.deepEqual(rules.disallow, ["/private/", "/*.pdf$"]);
+  assert.deepEqual(rules.allow, ["/private/open.html"]);
+  assert.equal(rules.crawlDelayMs, 2000);
+  assert.deepEqual(rules.sitemaps, ["https://example.com/sitemap.xml"]);
+
+  assert.deepEqual(parseRobots(ROBOTS, "SomeOtherBot").disallow, ["/"]);
+  assert.deepEqual(parseRobots("", AGENT), { allow: [], disallow: [], crawlDelayMs: 0, sitemaps: [] });
+});
+
+test("robots.txt crawl delays are capped", () => {
+  assert.equal(parseRobots("User-agent: *\nCrawl-delay: 60", AGENT).crawlDelayMs, 5000);
+});
+
+test("the longest matching rule wins, and Allow wins ties", () => {
+  assert.equal(allowed(ROBOTS, "/docs/intro.html"), true);
+  assert.equal(allowed(ROBOTS, "/private/notes.html"), false);
+  assert.equal(allowed(ROBOTS, "/private/open.html"), true);
+  assert.equal(allowed(ROBOTS, "/files/guide.pdf"), false);
+  assert.equal(allowed(ROBOTS, "/files/guide.pdf?download=1"), true);
+
+  const tie = "User-agent: *\nDisallow: /page\nAllow: /page";
+  assert.equal(allowed(tie, "/page"), true);
+  assert.equal(allowed("User-agent: *\nDisallow:", "/anything"), true);
+});
+
+test("links are resolved against the page or its <base>", () => {
+  const links = extractLinks(
+    `<a href="guide.html">a</a> <a href='#top'>b</a> <a href=/abs?x=1&amp;y=2>c</a> <a href="mailto:x@y">d</a>`,
+    "https://example.com/docs/index.html",
+  );
+  assert.deepEqual(
+    links.map((u) => u.href),
+    ["https://example.com/docs/guide.html", "https://example.com/abs?x=1&y=2"],
+  );
+
+  const based = extractLinks(`<base href="/v2/"><a href="page.html">a</a>`, "https://example.com/docs/");
+  assert.deepEqual(based.map((u) => u.href), ["https://example.com/v2/page.html"]);
+});
+
+test("a crawl follows same-site links within its limits and skips disallowed pages", async () => {
+  const pages: Record<string, string> = {
+    "/": `<a href="/a">a</a> <a href="/secret/x">x</a> <a href="https://elsewhere.test/">out</a> <a href="/logo.png">img</a>`,
+    "/a": `<a href="/b">b</a> <a href="/">home</a>`,
+    "/b": `<a href="/c">c</a>`,
+    "/c": `deep`,
+  };
+  const server = http.createServer((req, res) => {
+    if (req.url === "/robots.txt") return res.writeHead(200).end("User-agent: *\nDisallow: /secret/\n");
+    const page = pages[req.url ?? ""];
+    if (page === undefined) return res.writeHead(404).end();
+    res.writeHead(200, { "Content-Type": "text/html" }).end(page);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const crawled: CrawledPage[] = [];
+    const summary = await crawlSite({
+      startUrl: `${origin}/`,
+      maxDepth: 2,
+      maxPages: 10,
+      useSitemap: false,
+      userAgent: AGENT,
+      timeoutMs: 5_000,
+      onPage: (page) => void crawled.push(page),
+    });
+    assert.deepEqual(
+      crawled.map((p) => [new URL(p.url).pathname, p.depth]),
+      [["/", 0], ["/a", 1], ["/b", 2]],
+    );
+    assert.deepEqual(summary, { pages: 3, blockedByRobots: 1, failed: [], truncated: false });
+
+    const capped = await crawlSite({
+      startUrl: `${origin}/`,
+      maxDepth: 5,
+      maxPages: 2,
+      useSitemap: false,
+      userAgent: AGENT,
+      timeoutMs: 5_000,
+      onPage: () => {},
+    });
+    assert.equal(capped.pages, 2);
+    assert.equal(capped.truncated, true);
+  } finally {
+    server.close();
+  }
+});
+
+test("a page that never answers is reported as failed once its time is up", async () => {
+  const server = http.createServer((req, res) => {
+    if (req.url === "/hang") return;
+    if (req.url === "/") return res.writeHead(200, { "Content-Type": "text/html" }).end(`<a href="/hang">h</a> <a href="/ok">ok</a>`);
+    if (req.url === "/ok") return res.writeHead(200, { "Content-Type": "text/html" }).end("fine");
+    res.writeHead(404).end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const summary = await crawlSite({
+      startUrl: `${origin}/`,
+      maxDepth: 1,
+      maxPages: 10,
+      useSitemap: false,
+      userAgent: AGENT,
+      timeoutMs: 200,
+      onPage: () => {},
+    });
+    assert.equal(summary.pages, 2);
+    assert.deepEqual(summary.failed.map((f) => f.url), [`${origin}/hang`]);
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+});
+
+test("a page whose body breaks off or whose <base> is malformed fails alone", async () => {
+  const server = http.createServer((req, res) => {
+    const html = { "Content-Type": "text/html" };
+    if (req.url === "/") return res.writeHead(200, html).end(`<a href="/cut">1</a> <a href="/based">2</a> <a href="/ok">3</a>`);
+    if (req.url === "/cut") {
+      res.writeHead(200, { ...html, "Content-Length": "1000" }).write("<html><body>partial");
+      return void setTimeout(() => res.destroy(), 20);
+    }
+    if (req.url === "/based") return res.writeHead(200, html).end(`<base href="http://[bad"><a href="/ok">ok</a>`);
+    if (req.url === "/ok") return res.writeHead(200, html).end("fine");
+    res.writeHead(404).end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const crawled: string[] = [];
+    const summary = await crawlSite({
+      startUrl: `${origin}/`,
+      maxDepth: 2,
+      maxPages: 10,
+      useSitemap: false,
+      userAgent: AGENT,
+      timeoutMs: 5_000,
+      onPage: (page) => void crawled.push(new URL(page.url).pathname),
+    });
+    assert.deepEqual(crawled, ["/", "/ok"]);
+    assert.deepEqual(summary.failed.map((f) => new URL(f.url).pathname), ["/cut", "/based"]);
+  } finally {
+    server.close();
+  }
+});
+
+test("the sitemap seeds the crawl only when links may be followed at all", async () => {
+  const server = http.createServer((req, res) => {
+    const html = { "Content-Type": "text/html" };
+    if (req.url === "/sitemap.xml") {
+      return res.writeHead(200).end(`<urlset><url><loc>${origin}/a</loc></url><url><loc>${origin}/b</loc></url></urlset>`);
+    }
+    if (req.url === "/" || req.url === "/a" || req.url === "/b") return res.writeHead(200, html).end("page");
+    res.writeHead(404).end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const crawl = async (maxDepth: number) => {
+      const crawled: [string, number][] = [];
+      await crawlSite({
+        startUrl: `${origin}/`,
+        maxDepth,
+        maxPages: 10,
+        useSitemap: true,
+        userAgent: AGENT,
+        timeoutMs: 5_000,
+        onPage: (page) => void crawled.push([new URL(page.url).pathname, page.depth]),
+      });
+      return crawled;
+    };
+    assert.deepEqual(await crawl(0), [["/", 0]]);
+    assert.deepEqual(await crawl(1), [["/", 0], ["/a", 1], ["/b", 1]]);
+  } finally {
+    server.close();
+  }
+});
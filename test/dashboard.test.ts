@@ -0,0 +1,164 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PassThrough } from "node:stream";
+import React from "react";
+import { render } from "ink";
+import { Dashboard, type DashboardActions } from "../src/dashboard.js";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+/**
+ * Let ink handle a key and React re-render. React schedules its work with
+ * setImmediate, so a few rounds of it guarantee the render and its effects
+ * (which re-subscribe the key handler) ran — a timer alone can fire first.
+ */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 10; i++) await new Promise((resolve) => setImmediate(resolve));
+  await tick();
+}
+
+/**
+ * Render the dashboard into a fake terminal. `press` types keys one at a time;
+ * `frame` is the latest full redraw (ink's debug mode writes whole frames) and
+ * `waitFor` / `waitForNo` poll it until a pattern shows up / goes away.
+ */
+async function renderDashboard(actions?: DashboardActions) {
+  const stdout = Object.assign(new PassThrough(), { columns: 120, rows: 60, isTTY: true });
+  // ink switches to raw mode once the dashboard starts listening for keys
+  let listening = false;
+  const stdin = Object.assign(new PassThrough(), {
+    isTTY: true,
+    setRawMode: (raw: boolean) => ((listening = raw), stdin),
+    ref: () => stdin,
+    unref: () => stdin,
+  });
+  let frame = "";
+  stdout.on("data", (chunk: Buffer) => (frame = chunk.toString()));
+
+  const app = render(
+    React.createElement(Dashboard, {
+      initialMounts: ["/notes", "/code"],
+      initialUrls: [
+        { url: "https://example.com/docs", title: "Docs" },
+        { url: "https://example.com/blog", title: "Blog", stale: true },
+      ],
+      initialDbs: ["/data/app.db"],
+      transport: "stdio transport",
+      initialWorkspace: "default",
+      actions,
+    }),
+    { stdout: stdout as never, stdin: stdin as never, debug: true, exitOnCtrlC: false, patchConsole: false },
+  );
+
+  const press = async (...keys: string[]) => {
+    for (const key of keys) {
+      stdin.write(key);
+      await settle();
+    }
+  };
+  const poll = async (done: () => boolean, fail: () => void) => {
+    const deadline = Date.now() + 2000;
+    while (!done()) {
+      if (Date.now() > deadline) fail();
+      await tick();
+    }
+  };
+  const waitFor = (pattern: RegExp) =>
+    poll(() => pattern.test(frame), () => assert.match(frame, pattern));
+  const waitForNo = (pattern: RegExp) =>
+    poll(() => !pattern.test(frame), () => assert.doesNotMatch(frame, pattern));
+
+  await waitFor(/Live Activity/);
+  if (actions) await poll(() => listening, () => assert.fail("the dashboard never started reading keys"));
+  return { press, waitFor, waitForNo, frame: () => frame, unmount: () => app.unmount() };
+}
+
+/** Actions that record what they were asked to do */
+function recordingActions() {
+  const calls: string[] = [];
+  const actions: DashboardActions = {
+    unmount: async (panel, id) => (calls.push(`unmount ${panel} ${id}`), `Unmounted ${id}`),
+    refresh: async (url) => (calls.push(`refresh ${url}`), `Refreshed ${url}`),
+    details: async (panel, id) => [`${panel}: ${id}`, "42 files"],
+  };
+  return { actions, calls };
+}
+
+const ENTER = "\r";
+const TAB = "\t";
+const ESC = "\u001b";
+
+test("the selected mount is unmounted only after confirming", async () => {
+  const { actions, calls } = recordingActions();
+  const ui = await renderDashboard(actions);
+  try {
+    await ui.press("j", "u");
+    await ui.waitFor(/Unmount \/code\? \(y\/n\)/);
+    await ui.press("n");
+    await ui.waitFor(/Unmount cancelled/);
+    assert.deepEqual(calls, []);
+
+    await ui.press("u", "y");
+    await ui.waitFor(/Unmounted \/code/);
+    assert.deepEqual(calls, ["unmount folders /code"]);
+  } finally {
+    ui.unmount();
+  }
+});
+
+test("only web pages can be refreshed", async () => {
+  const { actions, calls } = recordingActions();
+  const ui = await renderDashboard(actions);
+  try {
+    await ui.press("r");
+    await ui.waitFor(/Only web pages can be refreshed/);
+
+    await ui.press(TAB, "j", "r");
+    await ui.waitFor(/Refreshed https:\/\/example\.com\/blog/);
+    assert.deepEqual(calls, ["refresh https://example.com/blog"]);
+    await ui.waitFor(/⚠ Blog → https:\/\/example\.com\/blog \(stale\)/);
+  } finally {
+    ui.unmount();
+  }
+});
+
+test("a panel can be filtered, and the filter cleared", async () => {
+  const ui = await renderDashboard(recordingActions().actions);
+  try {
+    await ui.press("/", "n", "o", ENTER);
+    await ui.waitFor(/📂 Folders \(1\/2\) {2}\/ no/);
+    await ui.waitFor(/\/notes/);
+    assert.doesNotMatch(ui.frame(), /\/code/);
+
+    await ui.press(ESC);
+    await ui.waitFor(/📂 Folders \(2\)/);
+    await ui.waitFor(/\/code/);
+  } finally {
+    ui.unmount();
+  }
+});
+
+test("Enter opens the detail view and Esc closes it", async () => {
+  const ui = await renderDashboard(recordingActions().actions);
+  try {
+    await ui.press(TAB, TAB, ENTER);
+    await ui.waitFor(/databases: \/data\/app\.db/);
+    await ui.waitFor(/42 files/);
+
+    await ui.press(ESC);
+    await ui.waitForNo(/42 files/);
+  } finally {
+    ui.unmount();
+  }
+});
+
+test("without actions the dashboard is read-only", async () => {
+  const ui = await renderDashboard();
+  try {
+    await ui.press("u");
+    assert.doesNotMatch(ui.frame(), /Unmount|Tab\/←→ panel|▸/);
+    await ui.waitFor(/📂 Folders \(2\)/);
+  } finally {
+    ui.unmount();
+  }
+});
@@ -0,0 +1,100 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { datasetFormat, defaultTableName, loadDataset } from "../src/datasets.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true }))));
+
+/** Write `text` to a source file and load it into a cache database next to it */
+async function load(name: string, text: string, table = "data") {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "omni-dataset-"));
+  tempDirs.push(dir);
+  const source = path.join(dir, name);
+  const cache = path.join(dir, "cache", "data.db");
+  await fs.writeFile(source, text);
+  const info = loadDataset(source, cache, table);
+  return { info, source, cache, rows: () => readAll(cache, table) };
+}
+
+function readAll(cache: string, table: string): unknown[] {
+  const db = new Database(cache, { readonly: true });
+  try {
+    return db.prepare(`SELECT * FROM "${table}"`).all();
+  } finally {
+    db.close();
+  }
+}
+
+test("formats are recognised by extension", () => {
+  assert.equal(datasetFormat("/data/x.CSV"), "csv");
+  assert.equal(datasetFormat("/data/x.ndjson"), "jsonl");
+  assert.equal(datasetFormat("/data/x.xlsx"), undefined);
+  assert.equal(defaultTableName("/data/sales-2024.csv"), "sales-2024");
+});
+
+test("CSV columns get the narrowest type that fits", async () => {
+  const { info, rows } = await load(
+    "people.csv",
+    "\uFEFFid,name,score,zip,\n1,Ada,9.5,02139,x\n2,Grace,,10001,\n3,\"Lin, Jr.\",7,94103,\n",
+  );
+  assert.equal(info.format, "csv");
+  assert.equal(info.rows, 3);
+  assert.deepEqual(info.columns, [
+    { name: "id", type: "INTEGER" },
+    { name: "name", type: "TEXT" },
+    { name: "score", type: "REAL" },
+    { name: "zip", type: "TEXT" },
+    { name: "column_5", type: "TEXT" },
+  ]);
+  assert.deepEqual(rows()[1], { id: 2, name: "Grace", score: null, zip: "10001", column_5: null });
+});
+
+test("duplicate and blank headers are made unique", async () => {
+  const { info } = await load("dupes.tsv", "a\ta\tA\t\n1\t2\t3\t4\n");
+  assert.deepEqual(
+    info.columns.map((c) => c.name),
+    ["a", "a_2", "A_3", "column_4"],
+  );
+});
+
+test("JSON records are flattened into columns", async () => {
+  const { info, rows } = await load(
+    "items.json",
+    JSON.stringify([{ id: 1, ok: true, tags: ["a"] }, { id: 2, price: 1.5 }]),
+  );
+  assert.deepEqual(info.columns, [
+    { name: "id", type: "INTEGER" },
+    { name: "ok", type: "INTEGER" },
+    { name: "tags", type: "TEXT" },
+    { name: "price", type: "REAL" },
+  ]);
+  assert.deepEqual(rows(), [
+    { id: 1, ok: 1, tags: '["a"]', price: null },
+    { id: 2, ok: null, tags: null, price: 1.5 },
+  ]);
+  await assert.rejects(load("object.json", '{"not": "an array"}'), /array of records/);
+});
+
+test("JSONL skips blank lines and reports the line of a parse error", async () => {
+  const { info } = await load("events.jsonl", '{"n": 1}\n\n{"n": 2}\n');
+  assert.equal(info.rows, 2);
+  await assert.rejects(load("broken.jsonl", '{"n": 1}\n{oops\n'), /^Error: Line 2:/);
+});
+
+test("reloading replaces the table with the file's new contents", async () => {
+  const { source, cache, rows } = await load("counts.csv", "n\n1\n2\n");
+  await fs.writeFile(source, "n,label\n3,three\n");
+  const info = loadDataset(source, cache, "data");
+  assert.equal(info.rows, 1);
+  assert.deepEqual(rows(), [{ n: 3, label: "three" }]);
+  assert.deepEqual(await fs.readdir(path.dirname(cache)), ["data.db"]);
+});
+
+test("unsupported and empty files are refused", async () => {
+  await assert.rejects(load("sheet.xlsx", "x"), /Unsupported dataset type/);
+  await assert.rejects(load("empty.csv", ""), /no columns/);
+});
@@ -0,0 +1,157 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { MountFilter } from "../src/filters.js";
+
+const DEFAULT_EXTENSIONS = [".txt", ".md"];
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true }))));
+
+/** A fresh temp folder holding a mount root and a sibling folder outside it */
+async function makeTree(): Promise<{ root: string; outside: string }> {
+  const base = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "omni-filters-")));
+  tempDirs.push(base);
+  const root = path.join(base, "mount");
+  const outside = path.join(base, "outside");
+  await fs.mkdir(path.join(root, "notes"), { recursive: true });
+  await fs.mkdir(outside);
+  await fs.writeFile(path.join(root, "readme.md"), "# inside\n");
+  await fs.writeFile(path.join(root, "notes", "a.txt"), "inside\n");
+  await fs.writeFile(path.join(outside, "secret.txt"), "secret\n");
+  return { root, outside };
+}
+
+const relative = (root: string, files: string[]) => files.map((f) => path.relative(root, f)).sort();
+
+test("scan skips symlinked files whose target is outside the mount", async () => {
+  const { root, outside } = await makeTree();
+  await fs.symlink(path.join(outside, "secret.txt"), path.join(root, "notes", "link.md"));
+  await fs.symlink(path.join(root, "readme.md"), path.join(root, "notes", "alias.md"));
+
+  const filter = new MountFilter(root, {}, DEFAULT_EXTENSIONS);
+  assert.deepEqual(relative(root, await filter.scan()), ["notes/a.txt", "notes/alias.md", "readme.md"]);
+});
+
+test("scan does not descend into symlinked folders", async () => {
+  const { root, outside } = await makeTree();
+  await fs.symlink(outside, path.join(root, "elsewhere"));
+
+  const filter = new MountFilter(root, {}, DEFAULT_EXTENSIONS);
+  assert.deepEqual(relative(root, await filter.scan()), ["notes/a.txt", "readme.md"]);
+});
+
+test("resolvesInside follows symlinks before checking containment", async () => {
+  const { root, outside } = await makeTree();
+  await fs.symlink(path.join(outside, "secret.txt"), path.join(root, "leak.txt"));
+  await fs.symlink(outside, path.join(root, "elsewhere"));
+  const filter = new MountFilter(root, {}, DEFAULT_EXTENSIONS);
+
+  assert.equal(await filter.resolvesInside(path.join(root, "readme.md")), true);
+  assert.equal(await filter.resolvesInside(path.join(root, "leak.txt")), false);
+  assert.equal(await filter.resolvesInside(path.join(root, "elsewhere", "secret.txt")), false);
+  assert.equal(await filter.resolvesInside(path.join(root, "missing.md")), false);
+});
+
+test("resolvesInside rejects a symlink that changes the extension", async () => {
+  const { root } = await makeTree();
+  await fs.writeFile(path.join(root, "config.json"), "{}");
+  await fs.symlink(path.join(root, "config.json"), path.join(root, "config.md"));
+
+  const filter = new MountFilter(root, {}, DEFAULT_EXTENSIONS);
+  assert.equal(filter.allowsFile(path.join(root, "config.md")), true);
+  assert.equal(await filter.resolvesInside(path.join(root, "config.md")), false);
+});
+
+test("a symlink to a file its own mount excludes or ignores is not exposed", async () => {
+  const { root } = await makeTree();
+  await fs.mkdir(path.join(root, "secrets"));
+  await fs.writeFile(path.join(root, "secrets", "keys.md"), "secret\n");
+  await fs.writeFile(path.join(root, "private.md"), "private\n");
+  await fs.writeFile(path.join(root, ".gitignore"), "private.md\n");
+  await fs.symlink(path.join(root, "secrets", "keys.md"), path.join(root, "x.md"));
+  await fs.symlink(path.join(root, "private.md"), path.join(root, "notes", "y.md"));
+  await fs.symlink(path.join(root, "readme.md"), path.join(root, "notes", "z.md"));
+
+  // A fresh filter, so the targets' ignore files have not been read by a scan yet
+  const fresh = new MountFilter(root, { exclude: ["secrets/**"] }, DEFAULT_EXTENSIONS);
+  assert.equal(await fresh.resolvesInside(path.join(root, "x.md")), false);
+  assert.equal(await fresh.resolvesInside(path.join(root, "notes", "y.md")), false);
+  assert.equal(await fresh.resolvesInside(path.join(root, "notes", "z.md")), true);
+
+  const filter = new MountFilter(root, { exclude: ["secrets/**"] }, DEFAULT_EXTENSIONS);
+  assert.deepEqual(relative(root, await filter.scan()), ["notes/a.txt", "notes/z.md", "readme.md"]);
+});
+
+test("a mount reached through a symlinked root still contains its own files", async () => {
+  const { root } = await makeTree();
+  const linkedRoot = path.join(path.dirname(root), "linked-mount");
+  await fs.symlink(root, linkedRoot);
+
+  const filter = new MountFilter(linkedRoot, {}, DEFAULT_EXTENSIONS);
+  assert.equal(await filter.resolvesInside(path.join(linkedRoot, "notes", "a.txt")), true);
+  assert.equal(await filter.containsRealPath(path.join(root, "readme.md")), true);
+});
+
+test("allowsFile refuses paths that climb out of the mount", async () => {
+  const { root } = await makeTree();
+  const filter = new MountFilter(root, {}, DEFAULT_EXTENSIONS);
+
+  assert.equal(filter.allowsFile(path.join(root, "..", "outside", "secret.txt")), false);
+  assert.equal(filter.allowsFile(path.join(root, "notes", "..", "..", "outside", "secret.txt")), false);
+  assert.equal(filter.allowsFile(root), false);
+});
+
+test("include, exclude and max depth narrow what a mount exposes", async () => {
+  const { root } = await makeTree();
+  await fs.mkdir(path.join(root, "notes", "deep"));
+  await fs.writeFile(path.join(root, "notes", "deep", "b.md"), "deep\n");
+  await fs.writeFile(path.join(root, "notes", "draft.md"), "draft\n");
+
+  const included = new MountFilter(root, { include: ["notes/**"] }, DEFAULT_EXTENSIONS);
+  assert.deepEqual(relative(root, await included.scan()), ["notes/a.txt", "notes/deep/b.md", "notes/draft.md"]);
+
+  const excluded = new MountFilter(root, { exclude: ["**/draft.md", "notes/deep"] }, DEFAULT_EXTENSIONS);
+  assert.deepEqual(relative(root, await excluded.scan()), ["notes/a.txt", "readme.md"]);
+
+  const shallow = new MountFilter(root, { maxDepth: 1 }, DEFAULT_EXTENSIONS);
+  assert.deepEqual(relative(root, await shallow.scan()), ["notes/a.txt", "notes/draft.md", "readme.md"]);
+});
+
+test("extra extensions are normalized and added to the defaults", async () => {
+  const { root } = await makeTree();
+  await fs.writeFile(path.join(root, "main.ts"), "export {};\n");
+  await fs.writeFile(path.join(root, "data.json"), "{}\n");
+
+  const filter = new MountFilter(root, { extensions: ["TS"] }, DEFAULT_EXTENSIONS);
+  assert.deepEqual(relative(root, await filter.scan()), ["main.ts", "notes/a.txt", "readme.md"]);
+});
+
+test(".gitignore and .ignore files hide paths unless respectIgnoreFiles is off", async () => {
+  const { root } = await makeTree();
+  await fs.writeFile(path.join(root, ".gitignore"), "readme.md\n");
+  await fs.writeFile(path.join(root, "notes", ".ignore"), "*.txt\n");
+
+  const filter = new MountFilter(root, {}, DEFAULT_EXTENSIONS);
+  assert.deepEqual(await filter.scan(), []);
+  assert.equal(filter.isIgnoreFile(path.join(root, "notes", ".ignore")), true);
+
+  const unfiltered = new MountFilter(root, { respectIgnoreFiles: false }, DEFAULT_EXTENSIONS);
+  assert.deepEqual(relative(root, await unfiltered.scan()), ["notes/a.txt", "readme.md"]);
+  assert.equal(unfiltered.isIgnoreFile(path.join(root, ".gitignore")), false);
+});
+
+test("resetIgnoreFiles makes the next scan read edited ignore files", async () => {
+  const { root } = await makeTree();
+  await fs.writeFile(path.join(root, ".gitignore"), "notes/\n");
+  const filter = new MountFilter(root, {}, DEFAULT_EXTENSIONS);
+  assert.deepEqual(relative(root, await filter.scan()), ["readme.md"]);
+
+  await fs.writeFile(path.join(root, ".gitignore"), "readme.md\n");
+  assert.deepEqual(relative(root, await filter.scan()), ["readme.md"], "rules are cached until reset");
+
+  filter.resetIgnoreFiles();
+  assert.deepEqual(relative(root, await filter.scan()), ["notes/a.txt"]);
+});
@@ -0,0 +1,153 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  GitError,
+  blame,
+  commitPatch,
+  fileAtRevision,
+  isGitWorkTree,
+  log,
+  resolveCommit,
+  showCommit,
+} from "../src/git.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true }))));
+
+let repo: string;
+/** The mounted sub-folder of the repository */
+let docs: string;
+
+/** Run git in the test repository as a fixed author at a fixed time */
+function run(args: string[], author = "Ada", date = "2025-01-01T12:00:00Z"): string {
+  return execFileSync("git", args, {
+    cwd: repo,
+    encoding: "utf-8",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: author,
+      GIT_AUTHOR_EMAIL: `${author.toLowerCase()}@example.com`,
+      GIT_AUTHOR_DATE: date,
+      GIT_COMMITTER_NAME: author,
+      GIT_COMMITTER_EMAIL: `${author.toLowerCase()}@example.com`,
+      GIT_COMMITTER_DATE: date,
+      GIT_CONFIG_GLOBAL: "/dev/null",
+    },
+  });
+}
+
+async function commit(files: Record<string, string>, message: string, author?: string, date?: string): Promise<void> {
+  for (const [file, text] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(repo, file)), { recursive: true });
+    await fs.writeFile(path.join(repo, file), text);
+  }
+  run(["add", "-A"], author, date);
+  run(["commit", "-q", "-m", message], author, date);
+}
+
+before(async () => {
+  repo = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "omni-git-")));
+  tempDirs.push(repo);
+  docs = path.join(repo, "docs");
+  run(["init", "-q", "-b", "main"]);
+
+  await commit(
+    { "docs/guide.md": "one\ntwo\n", "src/app.ts": "let x = 1;\n" },
+    "Add guide and app",
+    "Ada",
+    "2025-01-01T12:00:00Z",
+  );
+  await commit({ "src/app.ts": "let x = 2;\n" }, "Change app only", "Ada", "2025-01-02T12:00:00Z");
+  await commit({ "docs/guide.md": "one\nTWO\nthree\n" }, "Edit guide\n\nLonger explanation.", "Grace", "2025-01-03T12:00:00Z");
+  run(["mv", "docs/guide.md", "docs/manual.md"]);
+  run(["commit", "-q", "-m", "Rename guide"], "Grace", "2025-01-04T12:00:00Z");
+});
+
+test("work trees are detected", async () => {
+  assert.equal(await isGitWorkTree(docs), true);
+  assert.equal(await isGitWorkTree(os.tmpdir()), false);
+});
+
+test("revisions resolve to full hashes, and anything else is refused", async () => {
+  const head = run(["rev-parse", "HEAD"]).trim();
+  assert.equal(await resolveCommit(docs, "HEAD"), head);
+  assert.equal(await resolveCommit(docs, head.slice(0, 7)), head);
+  assert.equal(await resolveCommit(docs, "main~3"), run(["rev-parse", "HEAD~3"]).trim());
+
+  for (const rev of ["", "nope", "HEAD~10", "--output=/tmp/x", "HEAD stuff"]) {
+    await assert.rejects(resolveCommit(docs, rev), GitError, rev);
+  }
+});
+
+test("a sub-folder mount's log only lists commits touching it", async () => {
+  const commits = await log(docs, ".", { limit: 10 });
+  assert.deepEqual(
+    commits.map((c) => [c.subject, c.author, c.date.slice(0, 10)]),
+    [
+      ["Rename guide", "Grace", "2025-01-04"],
+      ["Edit guide", "Grace", "2025-01-03"],
+      ["Add guide and app", "Ada", "2025-01-01"],
+    ],
+  );
+  assert.equal(commits[0].shortHash, commits[0].hash.slice(0, commits[0].shortHash.length));
+
+  assert.equal((await log(docs, ".", { limit: 1 })).length, 1);
+  assert.equal((await log(docs, ".", { limit: 10, since: "2025-01-02T00:00:00Z" })).length, 2);
+});
+
+test("file history follows renames", async () => {
+  const history = await log(docs, "manual.md", { limit: 10, follow: true });
+  assert.deepEqual(
+    history.map((c) => c.subject),
+    ["Rename guide", "Edit guide", "Add guide and app"],
+  );
+});
+
+test("commit details and patches use mount-relative paths", async () => {
+  const [rename, edit, first] = await log(docs, ".", { limit: 10 });
+
+  const details = await showCommit(docs, edit.hash, ".");
+  assert.equal(details.subject, "Edit guide");
+  assert.equal(details.body, "Longer explanation.");
+  assert.deepEqual(details.files, ["guide.md"]);
+
+  assert.deepEqual((await showCommit(docs, rename.hash, ".")).files, ["guide.md", "manual.md"]);
+  assert.deepEqual((await showCommit(docs, first.hash, ".")).files, ["guide.md"]);
+
+  const patch = await commitPatch(docs, edit.hash, details.files);
+  assert.match(patch, /^diff --git a\/guide\.md b\/guide\.md$/m);
+  assert.match(patch, /^-two\n\+TWO\n\+three$/m);
+  assert.equal(await commitPatch(docs, edit.hash, []), "");
+});
+
+test("blame names who last changed each line", async () => {
+  assert.deepEqual(
+    (await blame(docs, "manual.md", {})).map((l) => [l.line, l.author, l.date, l.text]),
+    [
+      [1, "Ada", "2025-01-01", "one"],
+      [2, "Grace", "2025-01-03", "TWO"],
+      [3, "Grace", "2025-01-03", "three"],
+    ],
+  );
+  assert.deepEqual(
+    (await blame(docs, "manual.md", { start: 2, end: 2 })).map((l) => l.text),
+    ["TWO"],
+  );
+
+  const [, , first] = await log(docs, ".", { limit: 10 });
+  assert.deepEqual(
+    (await blame(docs, "guide.md", { hash: first.hash })).map((l) => l.text),
+    ["one", "two"],
+  );
+});
+
+test("files can be read as of an older revision", async () => {
+  const [, edit, first] = await log(docs, ".", { limit: 10 });
+  assert.equal((await fileAtRevision(docs, first.hash, "guide.md")).toString(), "one\ntwo\n");
+  assert.equal((await fileAtRevision(docs, edit.hash, "guide.md")).toString(), "one\nTWO\nthree\n");
+  await assert.rejects(fileAtRevision(docs, first.hash, "manual.md"), GitError);
+});
@@ -0,0 +1,149 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { USER_AGENT, diffLineCounts, fetchAndConvert, htmlToMarkdown } from "../src/html.js";
+
+const PAGE = "<html><head><title>Docs</title></head><body><p>Version one of the docs.</p></body></html>";
+const ETAG = '"v1"';
+const LAST_MODIFIED = "Wed, 01 Jan 2025 00:00:00 GMT";
+
+/** A page that honours conditional requests, recording the headers of each one */
+async function servePage(): Promise<{ server: http.Server; url: string; requests: http.IncomingHttpHeaders[] }> {
+  const requests: http.IncomingHttpHeaders[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req.headers);
+    if (req.url === "/missing") return res.writeHead(404).end();
+    if (req.url === "/silent") return;
+    if (req.url === "/trickle") return void res.writeHead(200, { "Content-Type": "text/html" }).write("<html><body>");
+    if (req.headers["if-none-match"] === ETAG || req.headers["if-modified-since"] === LAST_MODIFIED) {
+      return res.writeHead(304).end();
+    }
+    res.writeHead(200, { "Content-Type": "text/html", ETag: ETAG, "Last-Modified": LAST_MODIFIED }).end(PAGE);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}/docs`, requests };
+}
+
+test("a first fetch returns the page and its validators", async () => {
+  const { server, url, requests } = await servePage();
+  try {
+    const page = await fetchAndConvert(url);
+    assert.equal(page?.title, "Docs");
+    assert.match(page?.content ?? "", /Version one of the docs\./);
+    assert.equal(page?.etag, ETAG);
+    assert.equal(page?.lastModified, LAST_MODIFIED);
+    assert.equal(requests[0]["user-agent"], USER_AGENT);
+    assert.equal(requests[0]["if-none-match"], undefined);
+  } finally {
+    server.close();
+  }
+});
+
+test("re-fetches with stored validators are conditional", async () => {
+  const { server, url, requests } = await servePage();
+  try {
+    assert.equal(await fetchAndConvert(url, { etag: ETAG }), null);
+    assert.equal(requests[0]["if-none-match"], ETAG);
+
+    assert.equal(await fetchAndConvert(url, { lastModified: LAST_MODIFIED }), null);
+    assert.equal(requests[1]["if-modified-since"], LAST_MODIFIED);
+
+    // A changed page comes back in full
+    const page = await fetchAndConvert(url, { etag: '"v0"' });
+    assert.equal(page?.etag, ETAG);
+  } finally {
+    server.close();
+  }
+});
+
+test("an error status is thrown rather than converted", async () => {
+  const { server, url } = await servePage();
+  try {
+    await assert.rejects(fetchAndConvert(url.replace("/docs", "/missing")), /HTTP 404/);
+  } finally {
+    server.close();
+  }
+});
+
+test("a server that stalls is given up on, whether before answering or mid-page", async () => {
+  const { server, url } = await servePage();
+  try {
+    await assert.rejects(fetchAndConvert(url.replace("/docs", "/silent"), {}, 200), /No complete response within 200 ms/);
+    await assert.rejects(fetchAndConvert(url.replace("/docs", "/trickle"), {}, 200), /No complete response within 200 ms/);
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+});
+
+test("refresh changes are counted as lines added and removed, ignoring reordering", () => {
+  assert.deepEqual(diffLineCounts("a\nb\nc", "a\nb\nc"), { added: 0, removed: 0 });
+  assert.deepEqual(diffLineCounts("a\nb\nc", "c\na\nb"), { added: 0, removed: 0 });
+  assert.deepEqual(diffLineCounts("a\nb\nc", "a\nB\nc\nd"), { added: 2, removed: 1 });
+  // Repeated lines are matched one for one
+  assert.deepEqual(diffLineCounts("x\nx\nx", "x"), { added: 0, removed: 2 });
+});
+
+const PARAGRAPH =
+  "Mounting a folder exposes its documents as resources. Each file is read on demand, converted to Markdown where " +
+  "needed, and served to the client together with its metadata, so the assistant always sees the latest version.";
+
+const ARTICLE = `<!doctype html>
+<html lang="en-GB">
+<head>
+  <title>Mounting folders</title>
+  <meta name="author" content="Ada Example">
+  <meta property="article:published_time" content="2025-03-01T10:00:00Z">
+  <link rel="canonical" href="/guide/mounting">
+</head>
+<body>
+  <nav><a href="/">Home</a> · <a href="/blog">Blog</a></nav>
+  <div id="cookie-banner" class="cookie-consent">We use cookies. <button>Accept all cookies</button></div>
+  <aside class="sidebar"><h3>Related posts</h3><a href="/other">Something else entirely</a></aside>
+  <article>
+    <h1>Mounting folders</h1>
+    <p>${PARAGRAPH}</p>
+    <p>${PARAGRAPH} See the <a href="options.html">options page</a> for details.</p>
+    <pre><code class="language-ts">mount_folder({ path: "~/notes" });</code></pre>
+    <p>${PARAGRAPH}</p>
+    <table><tr><th>Option</th><th>Default</th></tr><tr><td>maxDepth</td><td>none</td></tr></table>
+    <p>${PARAGRAPH}</p>
+    <img src="img/diagram.png" alt="Diagram">
+  </article>
+  <footer>© Example Corp · <a href="/privacy">Privacy</a></footer>
+</body>
+</html>`;
+
+test("the main article is kept and page chrome dropped", () => {
+  const page = htmlToMarkdown(ARTICLE, "https://docs.example.com/guide/intro");
+  assert.equal(page.title, "Mounting folders");
+  assert.match(page.content, /Mounting a folder exposes its documents/);
+  assert.doesNotMatch(page.content, /cookies|Related posts|Example Corp|Blog/);
+});
+
+test("code blocks, tables and links survive, with links made absolute", () => {
+  const { content } = htmlToMarkdown(ARTICLE, "https://docs.example.com/guide/intro");
+  assert.match(content, /```ts\nmount_folder\(\{ path: "~\/notes" \}\);\n```/);
+  assert.match(content, /\| Option \| Default \|\n\| --- \| --- \|\n\| maxDepth \| none \|/);
+  assert.match(content, /\[options page\]\(https:\/\/docs\.example\.com\/guide\/options\.html\)/);
+  assert.match(content, /!\[Diagram\]\(https:\/\/docs\.example\.com\/guide\/img\/diagram\.png\)/);
+});
+
+test("page metadata is captured", () => {
+  const page = htmlToMarkdown(ARTICLE, "https://docs.example.com/guide/intro");
+  assert.equal(page.author, "Ada Example");
+  assert.equal(page.publishedAt, "2025-03-01T10:00:00Z");
+  assert.equal(page.canonicalUrl, "https://docs.example.com/guide/mounting");
+  assert.equal(page.language, "en-GB");
+});
+
+test("short pages fall back to the body without its chrome", () => {
+  const page = htmlToMarkdown(
+    "<html><body><header>Site header</header><p>Just a <strong>short</strong> note.</p><script>track()</script></body></html>",
+  );
+  assert.equal(page.content, "Just a **short** note.");
+  assert.equal(page.title, "");
+  assert.equal(page.author, undefined);
+});
@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type http from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { startHttpTransport } from "../src/http.js";
+
+const TOKEN = "s3cret-token";
+
+/** Serve a tiny MCP server per session, counting sessions the way the real server does */
+async function serve(): Promise<{ server: http.Server; base: string; sessions: () => number }> {
+  let sessions = 0;
+  const server = await startHttpTransport({
+    host: "127.0.0.1",
+    port: 0,
+    token: TOKEN,
+    metrics: () => "omni_test 1\n",
+    connect: async (transport) => {
+      sessions++;
+      const mcp = new McpServer({ name: "test", version: "1.0.0" });
+      mcp.registerTool("session_number", { description: "Which session this is" }, () => ({
+        content: [{ type: "text", text: String(sessions) }],
+      }));
+      await mcp.connect(transport);
+    },
+  });
+  const { port } = server.address() as AddressInfo;
+  return { server, base: `http://127.0.0.1:${port}`, sessions: () => sessions };
+}
+
+async function connectClient(base: string, token: string): Promise<Client> {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(new URL("/mcp", base), {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  await client.connect(transport);
+  return client;
+}
+
+test("requests without the right bearer token are refused", async () => {
+  const { server, base } = await serve();
+  try {
+    for (const headers of [{} as Record<string, string>, { Authorization: "Bearer wrong" }, { Authorization: `Basic ${TOKEN}` }]) {
+      const res = await fetch(`${base}/metrics`, { headers });
+      assert.equal(res.status, 401);
+      assert.match(res.headers.get("www-authenticate") ?? "", /^Bearer/);
+    }
+    const res = await fetch(`${base}/metrics`, { headers: { Authorization: `bearer ${TOKEN}` } });
+    assert.equal(res.status, 200);
+    assert.equal(await res.text(), "omni_test 1\n");
+  } finally {
+    server.close();
+  }
+});
+
+test("requests outside a session are rejected", async () => {
+  const { server, base } = await serve();
+  const headers = { Authorization: `Bearer ${TOKEN}`, "Content-Type": "application/json" };
+  try {
+    const listTools = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+    assert.equal((await fetch(`${base}/mcp`, { method: "POST", headers, body: listTools })).status, 400);
+    assert.equal((await fetch(`${base}/mcp`, { method: "POST", headers, body: "{oops" })).status, 400);
+    assert.equal((await fetch(`${base}/mcp`, { headers: { ...headers, "Mcp-Session-Id": "nope" } })).status, 400);
+    assert.equal((await fetch(`${base}/messages?sessionId=nope`, { method: "POST", headers, body: listTools })).status, 404);
+    assert.equal((await fetch(`${base}/elsewhere`, { headers })).status, 404);
+  } finally {
+    server.close();
+  }
+});
+
+test("concurrent clients each get their own session", async () => {
+  const { server, base, sessions } = await serve();
+  const first = await connectClient(base, TOKEN);
+  const second = await connectClient(base, TOKEN);
+  try {
+    assert.equal(sessions(), 2);
+    const result = await first.callTool({ name: "session_number" });
+    assert.deepEqual(result.content, [{ type: "text", text: "2" }]);
+    assert.equal((await second.listTools()).tools[0]?.name, "session_number");
+  } finally {
+    await first.close();
+    await second.close();
+    server.closeAllConnections();
+    server.close();
+  }
+});
+
+test("a client with a bad token cannot connect", async () => {
+  const { server, base, sessions } = await serve();
+  try {
+    await assert.rejects(connectClient(base, "wrong"));
+    assert.equal(sessions(), 0);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { bus, type OperationEvent } from "../src/events.js";
+import { MetricsCollector, formatSize, toPrometheus } from "../src/metrics.js";
+
+function read(uri: string, source: string, overrides: Partial<OperationEvent> = {}): OperationEvent {
+  return { kind: "resource", name: "file", uri, source, bytes: 100, durationMs: 5, ...overrides };
+}
+
+test("operations on the event bus are counted per handler, source and resource", () => {
+  const collector = new MetricsCollector();
+  collector.reset();
+  bus.emit("operation", read("file:///notes/a.md", "/notes"));
+  bus.emit("operation", read("file:///notes/a.md", "/notes", { bytes: 50 }));
+  bus.emit("operation", read("file:///code/b.ts", "/code", { error: "ENOENT" }));
+  bus.emit("operation", { kind: "tool", name: "query_sqlite", bytes: 10, durationMs: 20 } satisfies OperationEvent);
+
+  const snapshot = collector.snapshot();
+  assert.deepEqual(snapshot.totals, { resourceReads: 3, toolCalls: 1, errors: 1, bytes: 260 });
+  assert.deepEqual(
+    snapshot.handlers.map((h) => [h.kind, h.name, h.calls, h.errors, h.bytes, h.totalMs]),
+    [
+      ["resource", "file", 3, 1, 250, 15],
+      ["tool", "query_sqlite", 1, 0, 10, 20],
+    ],
+  );
+  assert.deepEqual(snapshot.sources, [
+    { source: "/notes", reads: 2, bytes: 150, errors: 0 },
+    { source: "/code", reads: 1, bytes: 100, errors: 1 },
+  ]);
+  assert.deepEqual(
+    snapshot.resources.map((r) => [r.uri, r.reads]),
+    [
+      ["file:///notes/a.md", 2],
+      ["file:///code/b.ts", 1],
+    ],
+  );
+});
+
+test("latency percentiles use the nearest rank over recent calls", () => {
+  const collector = new MetricsCollector();
+  collector.reset();
+  for (let ms = 1; ms <= 100; ms++) collector.record({ kind: "tool", name: "t", bytes: 0, durationMs: ms });
+  assert.deepEqual(collector.snapshot().handlers[0].latency, { samples: 100, p50: 50, p90: 90, p99: 99, max: 100 });
+
+  // Only the most recent 1024 calls are kept
+  for (let i = 0; i < 1024; i++) collector.record({ kind: "tool", name: "t", bytes: 0, durationMs: 1 });
+  assert.deepEqual(collector.snapshot().handlers[0].latency, { samples: 1024, p50: 1, p90: 1, p99: 1, max: 1 });
+});
+
+test("resources beyond the tracking limit are pooled", () => {
+  const collector = new MetricsCollector();
+  collector.reset();
+  for (let i = 0; i < 5002; i++) collector.record(read(`file:///many/${i}.md`, "/many"));
+  const { resources, sources } = collector.snapshot();
+  assert.equal(resources.length, 5001);
+  assert.deepEqual(resources[0], { uri: "(other)", reads: 2, bytes: 200, errors: 0 });
+  assert.equal(sources[0].reads, 5002);
+});
+
+test("reset starts every counter from zero", () => {
+  const collector = new MetricsCollector();
+  collector.record(read("file:///a.md", "/"));
+  collector.reset();
+  const snapshot = collector.snapshot();
+  assert.deepEqual(snapshot.totals, { resourceReads: 0, toolCalls: 0, errors: 0, bytes: 0 });
+  assert.deepEqual([snapshot.handlers, snapshot.sources, snapshot.resources], [[], [], []]);
+});
+
+test("snapshots render in the Prometheus text format", () => {
+  const collector = new MetricsCollector();
+  collector.reset();
+  collector.record(read('file:///odd "name".md', "/notes", { durationMs: 250 }));
+  const text = toPrometheus({ ...collector.snapshot(), since: "2025-01-01T00:00:00.000Z" });
+
+  assert.ok(text.endsWith("\n"));
+  assert.match(text, /^# TYPE omni_mcp_start_time_seconds gauge\nomni_mcp_start_time_seconds 1735689600$/m);
+  assert.match(text, /^omni_mcp_handler_calls_total\{kind="resource",name="file"\} 1$/m);
+  assert.match(text, /^omni_mcp_handler_duration_seconds\{kind="resource",name="file",quantile="0\.99"\} 0\.25$/m);
+  assert.match(text, /^omni_mcp_handler_duration_seconds_count\{kind="resource",name="file"\} 1$/m);
+  assert.match(text, /^omni_mcp_resource_reads_total\{uri="file:\/\/\/odd \\"name\\"\.md"\} 1$/m);
+});
+
+test("sizes are shown in the largest fitting unit", () => {
+  assert.equal(formatSize(512), "512 B");
+  assert.equal(formatSize(1536), "1.5 KB");
+  assert.equal(formatSize(5 * 1024 * 1024), "5.0 MB");
+});
@@ -0,0 +1,94 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Resource } from "@modelcontextprotocol/sdk/types.js";
+import { RESOURCE_PAGE_SIZE, pageResources, paginateResourceList } from "../src/paging.js";
+
+const resource = (n: number): Resource => ({ uri: `file:///docs/${String(n).padStart(5, "0")}.md`, name: `${n}.md` });
+
+/** Follow nextCursor until the list ends, collecting every page */
+function allPages(resources: Resource[]): Resource[][] {
+  const pages: Resource[][] = [];
+  let cursor: string | undefined;
+  do {
+    const result = pageResources(resources, cursor);
+    pages.push(result.resources);
+    cursor = result.nextCursor;
+  } while (cursor !== undefined);
+  return pages;
+}
+
+test("a short list fits on one page without a cursor", () => {
+  const result = pageResources([resource(2), resource(1)], undefined);
+  assert.deepEqual(result, { resources: [resource(1), resource(2)] });
+});
+
+test("long lists are paged in URI order", () => {
+  const resources = Array.from({ length: RESOURCE_PAGE_SIZE * 2 + 10 }, (_, i) => resource(i)).reverse();
+  const pages = allPages(resources);
+  assert.deepEqual(
+    pages.map((p) => p.length),
+    [RESOURCE_PAGE_SIZE, RESOURCE_PAGE_SIZE, 10],
+  );
+  assert.deepEqual(
+    pages.flat().map((r) => r.uri),
+    resources.map((r) => r.uri).sort(),
+  );
+});
+
+test("paging carries on from the last URI sent when the list changes", () => {
+  const resources = Array.from({ length: RESOURCE_PAGE_SIZE + 5 }, (_, i) => resource(i * 2));
+  const first = pageResources(resources, undefined);
+  const lastSent = first.resources.at(-1)!.uri;
+
+  // Something before the cursor went away and something after it appeared
+  const changed = [...resources.slice(1), resource(RESOURCE_PAGE_SIZE * 2 - 1)];
+  const second = pageResources(changed, first.nextCursor);
+  assert.ok(second.resources.every((r) => r.uri > lastSent));
+  assert.equal(second.resources.length, 6);
+  assert.equal(second.nextCursor, undefined);
+
+  // A cursor past the end of the list yields an empty page
+  assert.deepEqual(pageResources([resource(0)], first.nextCursor), { resources: [] });
+});
+
+test("malformed cursors are rejected as invalid params", () => {
+  for (const cursor of ["garbage", Buffer.from('{"after":1}').toString("base64url")]) {
+    assert.throws(() => pageResources([], cursor), /Invalid resources\/list cursor/);
+  }
+});
+
+test("an MCP server's resources/list is served in pages", async () => {
+  const server = new McpServer({ name: "test", version: "1.0.0" });
+  paginateResourceList(server);
+  server.registerResource(
+    "docs",
+    new ResourceTemplate("file:///docs/{name}", {
+      list: async () => ({ resources: Array.from({ length: RESOURCE_PAGE_SIZE + 1 }, (_, i) => resource(i)) }),
+    }),
+    {},
+    async (uri) => ({ contents: [{ uri: uri.href, text: "" }] }),
+  );
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  try {
+    const first = await client.listResources();
+    assert.equal(first.resources.length, RESOURCE_PAGE_SIZE);
+    assert.ok(first.nextCursor);
+
+    const second = await client.listResources({ cursor: first.nextCursor });
+    assert.deepEqual(
+      second.resources.map((r) => r.uri),
+      [resource(RESOURCE_PAGE_SIZE).uri],
+    );
+    assert.equal(second.nextCursor, undefined);
+
+    await assert.rejects(client.listResources({ cursor: "garbage" }), /Invalid resources\/list cursor/);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_HUNK_OFFSET, PatchError, applyHunks, parsePatch, unifiedDiff } from "../src/patch.js";
+
+const lines = (n: number, prefix = "line") => Array.from({ length: n }, (_, i) => `${prefix} ${i + 1}\n`).join("");
+
+test("unifiedDiff produces a git-style diff with three lines of context", () => {
+  const before = lines(10);
+  const after = before.replace("line 5\n", "line five\n");
+  const { diff, added, removed } = unifiedDiff("notes.md", before, after);
+  assert.equal(
+    diff,
+    [
+      "--- a/notes.md",
+      "+++ b/notes.md",
+      "@@ -2,7 +2,7 @@",
+      " line 2",
+      " line 3",
+      " line 4",
+      "-line 5",
+      "+line five",
+      " line 6",
+      " line 7",
+      " line 8",
+      "",
+    ].join("\n"),
+  );
+  assert.deepEqual([added, removed], [1, 1]);
+});
+
+test("unifiedDiff marks new files and missing final newlines", () => {
+  assert.equal(unifiedDiff("new.txt", undefined, "hello").diff, "--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+hello\n\\ No newline at end of file\n");
+  assert.equal(unifiedDiff("same.txt", "a\n", "a\n").diff, "");
+});
+
+test("diffs round-trip through parsePatch and applyHunks", () => {
+  const before = lines(40);
+  const after = before
+    .replace("line 3\n", "")
+    .replace("line 20\n", "line 20\ninserted\n")
+    .replace("line 38\n", "changed 38\n");
+  const [patch] = parsePatch(unifiedDiff("file.txt", before, after).diff);
+  assert.equal(patch!.hunks.length, 3);
+  assert.equal(applyHunks(before, patch!.hunks), after);
+});
+
+test("parsePatch reads paths, creations, deletions and several files", () => {
+  const patches = parsePatch(
+    [
+      "diff --git a/src/a.md b/src/a.md",
+      "--- a/src/a.md\t2024-01-01 00:00:00",
+      "+++ b/src/a.md",
+      "@@ -1 +1 @@",
+      "-old",
+      "+new",
+      "--- /dev/null",
+      "+++ b/created.md",
+      "@@ -0,0 +1,2 @@",
+      "+one",
+      "+two",
+      "--- a/gone.md",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-bye",
+      "",
+    ].join("\n"),
+  );
+  assert.deepEqual(
+    patches.map((p) => [p.oldPath, p.newPath, p.creates, p.deletes, p.hunks.length]),
+    [
+      ["src/a.md", "src/a.md", false, false, 1],
+      [undefined, "created.md", true, false, 1],
+      ["gone.md", undefined, false, true, 1],
+    ],
+  );
+});
+
+test("parsePatch accepts bare hunks and context lines stripped of their space", () => {
+  const [patch] = parsePatch("@@ -1,3 +1,3 @@\n a\n\n-b\n+B\n");
+  assert.equal(patch!.oldPath, undefined);
+  assert.equal(applyHunks("a\n\nb\n", patch!.hunks), "a\n\nB\n");
+});
+
+test("parsePatch rejects input without hunks and hunks that do not add up", () => {
+  assert.throws(() => parsePatch("just some text\n"), PatchError);
+  assert.throws(() => parsePatch("@@ -1,2 +1,2 @@\n a\n"), /ends before all its lines/);
+  assert.throws(() => parsePatch("@@ -1 +1 @@\n*oops\n"), /Unexpected line/);
+});
+
+test("hunks apply when the file has shifted a few lines", () => {
+  const [patch] = parsePatch("@@ -5,3 +5,3 @@\n line 5\n-line 6\n+line six\n line 7\n");
+  const shifted = "extra\nextra\n" + lines(10);
+  assert.equal(applyHunks(shifted, patch!.hunks), shifted.replace("line 6\n", "line six\n"));
+});
+
+test(`hunks never move more than ${MAX_HUNK_OFFSET} lines from their header`, () => {
+  const [patch] = parsePatch("@@ -1,3 +1,3 @@\n }\n-\n+// end\n }\n");
+  const tail = "}\n\n}\n";
+
+  const near = lines(MAX_HUNK_OFFSET) + tail;
+  assert.equal(applyHunks(near, patch!.hunks), lines(MAX_HUNK_OFFSET) + "}\n// end\n}\n");
+
+  const far = lines(MAX_HUNK_OFFSET + 1) + tail;
+  assert.throws(() => applyHunks(far, patch!.hunks), /Hunk 1 .* does not apply/);
+});
+
+test("a hunk whose context is missing fails without a partial result", () => {
+  const [patch] = parsePatch("@@ -1,2 +1,2 @@\n line 1\n-line 2\n+two\n@@ -8,2 +8,2 @@\n nope\n-line 9\n+nine\n");
+  assert.throws(() => applyHunks(lines(10), patch!.hunks), /Hunk 2 .* does not apply/);
+});
+
+test("applyHunks keeps CRLF line endings and handles a missing final newline", () => {
+  const [patch] = parsePatch("@@ -1,2 +1,2 @@\n a\n-b\n+c\n");
+  assert.equal(applyHunks("a\r\nb\r\n", patch!.hunks), "a\r\nc\r\n");
+
+  const [append] = parsePatch(unifiedDiff("f", "a\nb", "a\nb\nc\n").diff);
+  assert.equal(applyHunks("a\nb", append!.hunks), "a\nb\nc\n");
+});
@@ -0,0 +1,167 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import {
+  COUNT_SCAN_LIMIT,
+  QueryRejectedError,
+  QueryTimeoutError,
+  decodeCursor,
+  encodeCursor,
+  formatRows,
+  runReadOnlyQuery,
+  validateReadOnlySql,
+} from "../src/query.js";
+
+const tempDirs: string[] = [];
+const connections: Database.Database[] = [];
+after(async () => {
+  for (const db of connections) db.close();
+  await Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+/** A database file with `rows` numbered items, opened read-only the way the server mounts it */
+async function makeDb(rows = 0): Promise<{ file: string; db: Database.Database }> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "omni-query-"));
+  tempDirs.push(dir);
+  const file = path.join(dir, "test.db");
+  const writer = new Database(file);
+  writer.exec(`
+    CREATE TABLE items (id INTEGER PRIMARY KEY, label TEXT);
+    WITH RECURSIVE n(i) AS (SELECT 1 WHERE ${rows} > 0 UNION ALL SELECT i + 1 FROM n WHERE i < ${rows})
+    INSERT INTO items SELECT i, 'item ' || i FROM n;
+  `);
+  writer.close();
+  const db = new Database(file, { readonly: true });
+  connections.push(db);
+  return { file, db };
+}
+
+test("read-only statements are accepted", async () => {
+  const { db } = await makeDb();
+  for (const sql of [
+    "SELECT * FROM items",
+    "  -- leading comment\n/* and another */ SELECT 1;",
+    "WITH t AS (SELECT 1 AS x) SELECT x FROM t",
+    "EXPLAIN QUERY PLAN SELECT * FROM items",
+    "VALUES (1), (2)",
+    "PRAGMA table_info(items)",
+    "PRAGMA main.table_list",
+    "pragma user_version",
+  ]) {
+    assert.doesNotThrow(() => validateReadOnlySql(db, sql), sql);
+  }
+});
+
+test("writes, multiple statements and state-changing PRAGMAs are rejected", async () => {
+  const { db } = await makeDb();
+  for (const sql of [
+    "DELETE FROM items",
+    "INSERT INTO items (label) VALUES ('x')",
+    "CREATE TABLE other (x)",
+    "ATTACH DATABASE ':memory:' AS other",
+    "BEGIN",
+    "SELECT 1; DROP TABLE items",
+    "PRAGMA user_version = 5",
+    "PRAGMA journal_mode = DELETE",
+    "PRAGMA writable_schema",
+    "PRAGMA table_info = 1",
+  ]) {
+    assert.throws(() => validateReadOnlySql(db, sql), QueryRejectedError, sql);
+  }
+});
+
+test("invalid SQL reports SQLite's own error", async () => {
+  const { db } = await makeDb();
+  assert.throws(
+    () => validateReadOnlySql(db, "SELEC 1"),
+    (err) => !(err instanceof QueryRejectedError) && /syntax error/.test(String(err)),
+  );
+  assert.throws(() => validateReadOnlySql(db, "SELECT * FROM missing"), /no such table/);
+});
+
+test("a query that overruns its budget is interrupted", async () => {
+  const { file } = await makeDb();
+  const endless = "WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT count(*) FROM n";
+  const started = Date.now();
+  await assert.rejects(runReadOnlyQuery(file, endless, { offset: 0, maxRows: 10, timeoutMs: 500 }), QueryTimeoutError);
+  assert.ok(Date.now() - started < 5000);
+});
+
+test("the budget starts once the runner is up, so start-up cost does not count against it", async () => {
+  const { file } = await makeDb(5);
+  // Several runners starting at once make start-up slow; the queries themselves are instant
+  const results = await Promise.all(
+    Array.from({ length: 4 }, () => runReadOnlyQuery(file, "SELECT count(*) AS n FROM items", { offset: 0, maxRows: 1, timeoutMs: 100 })),
+  );
+  for (const result of results) {
+    assert.deepEqual(result.rows, [{ n: 5 }]);
+    assert.ok(result.elapsedMs < 100);
+  }
+});
+
+test("runtime errors in the runner are passed back", async () => {
+  const { file } = await makeDb();
+  await assert.rejects(
+    runReadOnlyQuery(file, "SELECT * FROM gone", { offset: 0, maxRows: 10, timeoutMs: 10_000 }),
+    /no such table/,
+  );
+});
+
+test("results are paged with an exact total when it is cheap to find", async () => {
+  const { file } = await makeDb(25);
+  const sql = "SELECT id FROM items ORDER BY id";
+
+  const first = await runReadOnlyQuery(file, sql, { offset: 0, maxRows: 10, timeoutMs: 10_000 });
+  assert.deepEqual(first.columns, ["id"]);
+  assert.deepEqual(first.rows.map((r) => r.id), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  assert.equal(first.hasMore, true);
+  assert.equal(first.total, 25);
+
+  const last = await runReadOnlyQuery(file, sql, { offset: 20, maxRows: 10, timeoutMs: 10_000 });
+  assert.deepEqual(last.rows.map((r) => r.id), [21, 22, 23, 24, 25]);
+  assert.equal(last.hasMore, false);
+});
+
+test("the total is left out once counting would scan too far", async () => {
+  const { file } = await makeDb(COUNT_SCAN_LIMIT + 50);
+  const result = await runReadOnlyQuery(file, "SELECT id FROM items", { offset: 0, maxRows: 10, timeoutMs: 10_000 });
+  assert.equal(result.rows.length, 10);
+  assert.equal(result.hasMore, true);
+  assert.equal(result.total, undefined);
+});
+
+test("cursors round-trip and malformed ones are rejected", () => {
+  const state = { dbPath: "/data/app.db", sql: "SELECT 1", offset: 50 };
+  assert.deepEqual(decodeCursor(encodeCursor(state)), state);
+
+  for (const bad of ["", "not base64 json", Buffer.from(JSON.stringify({ ...state, offset: -1 })).toString("base64url")]) {
+    assert.throws(() => decodeCursor(bad), QueryRejectedError);
+  }
+});
+
+test("rows render in every output format", () => {
+  const columns = ["id", "note", "data"];
+  const rows = [
+    { id: 1, note: 'says "hi", twice', data: Buffer.from("ab") },
+    { id: 2n ** 60n, note: "a | b\nc", data: null },
+  ];
+
+  assert.equal(
+    formatRows(columns, rows, "json"),
+    '[\n{"id":1,"note":"says \\"hi\\", twice","data":"base64:YWI="},\n{"id":"1152921504606846976","note":"a | b\\nc","data":null}\n]',
+  );
+  assert.equal(formatRows(columns, [], "json"), "[]");
+  assert.equal(formatRows(columns, rows, "jsonl").split("\n").length, 2);
+  assert.equal(
+    formatRows(columns, rows, "csv"),
+    'id,note,data\n1,"says ""hi"", twice",base64:YWI=\n1152921504606846976,"a | b\nc",',
+  );
+  assert.equal(
+    formatRows(columns, rows, "markdown"),
+    "| id | note | data |\n| --- | --- | --- |\n" +
+      '| 1 | says "hi", twice | <BLOB 2 bytes> |\n| 1152921504606846976 | a \\| b<br>c | NULL |',
+  );
+});
@@ -0,0 +1,136 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { TABLE_PAGE_SIZE, buildSchemaMarkdown, buildTablePageMarkdown } from "../src/schema.js";
+
+const TIMEOUT_MS = 10_000;
+
+const tempDirs: string[] = [];
+const connections: Database.Database[] = [];
+after(async () => {
+  for (const db of connections) db.close();
+  await Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+/** A database file with a writable connection for setup and the read-only one the server would mount */
+async function makeDb(setup: string): Promise<{ writer: Database.Database; reader: Database.Database }> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "omni-schema-"));
+  tempDirs.push(dir);
+  const file = path.join(dir, "test.db");
+  const writer = new Database(file);
+  writer.exec(setup);
+  const reader = new Database(file, { readonly: true });
+  connections.push(writer, reader);
+  return { writer, reader };
+}
+
+const pageUri = (page: number) => `sqlite-table:///test.db/items?page=${page}`;
+
+test("a table page shows its rows, navigation and column stats", async () => {
+  const { reader } = await makeDb(`
+    CREATE TABLE items (id INTEGER PRIMARY KEY, label TEXT);
+    WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 120)
+    INSERT INTO items SELECT i, CASE WHEN i % 2 THEN 'odd' END FROM n;
+  `);
+
+  const first = await buildTablePageMarkdown(reader, "items", 1, pageUri, TIMEOUT_MS);
+  assert.match(first!, /^Table with 120 row\(s\) — page 1 of 3\./);
+  assert.match(first!, new RegExp(`\\*\\*Rows 1–${TABLE_PAGE_SIZE}:\\*\\*`));
+  assert.match(first!, /➡️ Next: `sqlite-table:\/\/\/test.db\/items\?page=2`/);
+  assert.doesNotMatch(first!, /Previous/);
+  assert.match(first!, /\| `id` \| 120 \| 0\.0% \| 1 \| 120 \|/);
+  assert.match(first!, /\| `label` \| 1 \| 50\.0% \| odd \| odd \|/);
+
+  const last = await buildTablePageMarkdown(reader, "items", 3, pageUri, TIMEOUT_MS);
+  assert.match(last!, /\*\*Rows 101–120:\*\*/);
+  assert.match(last!, /⬅️ Previous: `sqlite-table:\/\/\/test.db\/items\?page=2`/);
+  assert.doesNotMatch(last!, /Next/);
+
+  const past = await buildTablePageMarkdown(reader, "items", 9, pageUri, TIMEOUT_MS);
+  assert.match(past!, /_Page 9 is past the last page \(3\)\._/);
+});
+
+test("unknown tables give null and empty tables say so", async () => {
+  const { reader } = await makeDb("CREATE TABLE empty (x); CREATE VIEW v AS SELECT 1 AS one;");
+  assert.equal(await buildTablePageMarkdown(reader, "missing", 1, pageUri, TIMEOUT_MS), null);
+
+  const empty = await buildTablePageMarkdown(reader, "empty", 1, pageUri, TIMEOUT_MS);
+  assert.match(empty!, /^Table with 0 row\(s\) — page 1 of 1\./);
+  assert.match(empty!, /_No rows\._/);
+  assert.doesNotMatch(empty!, /Column stats/);
+
+  const view = await buildTablePageMarkdown(reader, "v", 1, pageUri, TIMEOUT_MS);
+  assert.match(view!, /^View with 1 row\(s\)/);
+});
+
+test("row counting stops a fixed distance past the page on large tables", async () => {
+  const { reader } = await makeDb(`
+    CREATE TABLE items (id INTEGER PRIMARY KEY);
+    WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 20000)
+    INSERT INTO items SELECT i FROM n;
+  `);
+
+  const page = await buildTablePageMarkdown(reader, "items", 1, pageUri, TIMEOUT_MS);
+  assert.match(page!, /^Table with at least \d+ rows \(not all counted\) — page 1\./);
+  assert.match(page!, /➡️ Next:/);
+
+  // Reaching the end of the table counts it exactly, and later pages reuse the count
+  const tail = await buildTablePageMarkdown(reader, "items", 400, pageUri, TIMEOUT_MS);
+  assert.match(tail!, /^Table with 20000 row\(s\) — page 400 of 400\./);
+  const again = await buildTablePageMarkdown(reader, "items", 1, pageUri, TIMEOUT_MS);
+  assert.match(again!, /^Table with 20000 row\(s\) — page 1 of 400\./);
+});
+
+test("cached counts and stats are dropped once the database changes", async () => {
+  const { writer, reader } = await makeDb("CREATE TABLE items (n INTEGER); INSERT INTO items VALUES (1), (2);");
+
+  const before = await buildTablePageMarkdown(reader, "items", 1, pageUri, TIMEOUT_MS);
+  assert.match(before!, /\| `n` \| 2 \| 0\.0% \| 1 \| 2 \|/);
+
+  writer.exec("INSERT INTO items VALUES (3), (NULL)");
+  const after = await buildTablePageMarkdown(reader, "items", 1, pageUri, TIMEOUT_MS);
+  assert.match(after!, /^Table with 4 row\(s\)/);
+  assert.match(after!, /\| `n` \| 3 \| 25\.0% \| 1 \| 3 \|/);
+});
+
+test("the schema describes tables, keys, indexes, triggers and views", async () => {
+  const { reader } = await makeDb(`
+    CREATE TABLE authors (id INTEGER PRIMARY KEY, name TEXT NOT NULL UNIQUE);
+    CREATE TABLE books (
+      id INTEGER PRIMARY KEY,
+      author_id INTEGER NOT NULL REFERENCES authors ON DELETE CASCADE,
+      title TEXT
+    );
+    CREATE INDEX books_by_title ON books (title);
+    CREATE TRIGGER books_touch AFTER UPDATE ON books BEGIN SELECT 1; END;
+    CREATE VIEW titles AS SELECT title FROM books;
+    INSERT INTO authors VALUES (1, 'Ada');
+    INSERT INTO books VALUES (1, 1, 'Notes');
+  `);
+
+  const schema = buildSchemaMarkdown(reader);
+  assert.match(schema, /^2 table\(s\), 1 view\(s\), 1 index\(es\), 1 trigger\(s\)\./);
+  assert.match(schema, /## Table: `books`\n\nRows: 1/);
+  assert.match(schema, /\| `author_id` \| INTEGER \| ✓ \|  \|  \| `authors\.id` \|/);
+  assert.match(schema, /- \(author_id\) → `authors`\(id\) — ON DELETE CASCADE/);
+  assert.match(schema, /- `books_by_title` on \(title\)/);
+  assert.match(schema, /UNIQUE, from UNIQUE constraint/);
+  assert.match(schema, /- `books_touch` — AFTER UPDATE/);
+  assert.match(schema, /books }o--\|\| authors : "author_id"/);
+  assert.match(schema, /## View: `titles`/);
+  assert.match(schema, /\*\*Sample rows\*\* \(first 1\):/);
+  assert.doesNotMatch(schema, /CREATE statements/);
+  assert.match(buildSchemaMarkdown(reader, { includeDdl: true }), /## CREATE statements[\s\S]*CREATE VIEW titles/);
+});
+
+test("the schema stops counting rows of large tables", async () => {
+  const { reader } = await makeDb(`
+    CREATE TABLE big (id INTEGER PRIMARY KEY);
+    WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 10500)
+    INSERT INTO big SELECT i FROM n;
+  `);
+  assert.match(buildSchemaMarkdown(reader), /Rows: more than 10000\n/);
+});
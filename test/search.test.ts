@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SearchIndex, type IndexDocument } from "../src/search.js";
+
+const ALL_KINDS = ["file", "url", "sqlite"] as const;
+
+function doc(uri: string, text: string, version = "1", kind: IndexDocument["kind"] = "file"): IndexDocument {
+  return { uri, kind, name: uri, version, load: () => text };
+}
+
+test("hits name the line the match is on", async () => {
+  const index = new SearchIndex(":memory:");
+  await index.sync(["file"], [doc("file:///a.md", "# Title\n\nintro\nthe quick brown fox\nmore")]);
+
+  const [hit] = index.search("brown fox", { limit: 5, kinds: [...ALL_KINDS] });
+  assert.equal(hit!.uri, "file:///a.md");
+  assert.equal(hit!.line, 4);
+  assert.match(hit!.snippet, /\*\*brown\*\* \*\*fox\*\*/);
+  index.close();
+});
+
+test("all terms must match, falling back to any term when nothing does", async () => {
+  const index = new SearchIndex(":memory:");
+  await index.sync(["file"], [doc("file:///a.md", "alpha beta"), doc("file:///b.md", "alpha gamma")]);
+
+  assert.deepEqual(
+    index.search("alpha beta", { limit: 5, kinds: ["file"] }).map((h) => h.uri),
+    ["file:///a.md"],
+  );
+  assert.deepEqual(
+    index
+      .search("beta gamma", { limit: 5, kinds: ["file"] })
+      .map((h) => h.uri)
+      .sort(),
+    ["file:///a.md", "file:///b.md"],
+  );
+  index.close();
+});
+
+test("queries with FTS syntax are treated as plain words", async () => {
+  const index = new SearchIndex(":memory:");
+  await index.sync(["file"], [doc("file:///a.md", 'say "hello" AND (goodbye)')]);
+  assert.equal(index.search('"hello" AND (goodbye', { limit: 5, kinds: ["file"] }).length, 1);
+  assert.deepEqual(index.search("*** ---", { limit: 5, kinds: ["file"] }), []);
+  index.close();
+});
+
+test("sync only reloads changed documents and drops vanished ones", async () => {
+  const index = new SearchIndex(":memory:");
+  let loads = 0;
+  const counted = (d: IndexDocument): IndexDocument => ({ ...d, load: () => (loads++, d.load()) });
+
+  assert.equal(await index.sync(["file"], [counted(doc("file:///a.md", "apple")), counted(doc("file:///b.md", "banana"))]), 2);
+  assert.equal(await index.sync(["file"], [counted(doc("file:///a.md", "apple")), counted(doc("file:///b.md", "cherry", "2"))]), 1);
+  assert.equal(loads, 3);
+  assert.equal(index.search("banana", { limit: 5, kinds: ["file"] }).length, 0);
+  assert.equal(index.search("cherry", { limit: 5, kinds: ["file"] }).length, 1);
+
+  await index.sync(["file"], [doc("file:///b.md", "cherry", "2")]);
+  assert.equal(index.search("apple", { limit: 5, kinds: ["file"] }).length, 0);
+  index.close();
+});
+
+test("syncing one kind leaves the others alone, and kinds filter results", async () => {
+  const index = new SearchIndex(":memory:");
+  await index.sync(["url"], [doc("web:///example.com", "shared word", "1", "url")]);
+  await index.sync(["file"], [doc("file:///a.md", "shared word")]);
+  await index.sync(["file"], []);
+
+  assert.deepEqual(
+    index.search("shared", { limit: 5, kinds: [...ALL_KINDS] }).map((h) => h.kind),
+    ["url"],
+  );
+  assert.deepEqual(index.search("shared", { limit: 5, kinds: ["file"] }), []);
+  index.close();
+});
+
+test("a document that fails to load is left out until the next sync", async () => {
+  const index = new SearchIndex(":memory:");
+  const broken: IndexDocument = { ...doc("file:///a.md", ""), load: () => Promise.reject(new Error("gone")) };
+  assert.equal(await index.sync(["file"], [broken]), 0);
+  assert.equal(await index.sync(["file"], [doc("file:///a.md", "back again")]), 1);
+  assert.equal(index.search("back", { limit: 5, kinds: ["file"] }).length, 1);
+  index.close();
+});
@@ -0,0 +1,185 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { MountFilter } from "../src/filters.js";
+import { FileWatcher, type FileChangeKind } from "../src/watcher.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true }))));
+
+async function makeMount(): Promise<string> {
+  const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "omni-watcher-")));
+  tempDirs.push(root);
+  await fs.writeFile(path.join(root, "keep.md"), "keep\n");
+  await fs.writeFile(path.join(root, "draft.md"), "draft\n");
+  return root;
+}
+
+/** A FileWatcher wired to a single MountFilter, the way the server wires it to its mounts */
+function watchMount(root: string) {
+  const filters = new Map([[root, new MountFilter(root, {}, [".md"])]]);
+  const events: [FileChangeKind, string][] = [];
+  const watcher = new FileWatcher({
+    scan: (dir) => filters.get(dir)!.scan(),
+    accepts: async (dir, filePath) => filters.get(dir)!.allowsFile(filePath) && filters.get(dir)!.resolvesInside(filePath),
+    skipsDir: (dir, dirPath) => !filters.get(dir)!.allowsDir(dirPath),
+    onChange: (kind, filePath) => events.push([kind, path.relative(root, filePath)]),
+    isIgnoreFile: (dir, filePath) => filters.get(dir)!.isIgnoreFile(filePath),
+    resetIgnoreFiles: (dir, folder) => filters.get(dir)!.resetIgnoreFiles(folder),
+    loadIgnoreFiles: (dir, folder) => filters.get(dir)!.loadIgnoreFiles(folder),
+  });
+  const listing = () => watcher.filesIn(root).map((f) => path.relative(root, f)).sort();
+  return { watcher, events, listing };
+}
+
+/** chokidar starts watching a moment after add() returns; also used to let late events arrive */
+const settle = (ms = 500) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Poll until `check` passes (chokidar events arrive asynchronously) */
+async function eventually(check: () => void, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    try {
+      return check();
+    } catch (err) {
+      if (Date.now() > deadline) throw err;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+}
+
+test("editing a .gitignore hides and re-exposes files without a remount", async () => {
+  const root = await makeMount();
+  const { watcher, events, listing } = watchMount(root);
+  try {
+    await watcher.add(root);
+    await settle();
+    assert.deepEqual(listing(), ["draft.md", "keep.md"]);
+
+    await fs.writeFile(path.join(root, ".gitignore"), "draft.md\n");
+    await eventually(() => assert.deepEqual(listing(), ["keep.md"]));
+    assert.deepEqual(events, [["unlink", "draft.md"]]);
+
+    await fs.rm(path.join(root, ".gitignore"));
+    await eventually(() => assert.deepEqual(listing(), ["draft.md", "keep.md"]));
+    assert.deepEqual(events.at(-1), ["add", "draft.md"]);
+  } finally {
+    await watcher.close();
+  }
+});
+
+test("a folder that stops being ignored is watched again", async () => {
+  const root = await makeMount();
+  await fs.mkdir(path.join(root, "build"));
+  await fs.writeFile(path.join(root, "build", "out.md"), "out\n");
+  await fs.writeFile(path.join(root, ".gitignore"), "build/\n");
+  const { watcher, listing } = watchMount(root);
+  try {
+    await watcher.add(root);
+    await settle();
+    assert.deepEqual(listing(), ["draft.md", "keep.md"]);
+
+    await fs.writeFile(path.join(root, ".gitignore"), "# nothing ignored\n");
+    await eventually(() => assert.deepEqual(listing(), ["build/out.md", "draft.md", "keep.md"]));
+    await settle();
+
+    await fs.writeFile(path.join(root, "build", "new.md"), "new\n");
+    await eventually(() => assert.ok(listing().includes("build/new.md")));
+  } finally {
+    await watcher.close();
+  }
+});
+
+test("ignore files in folders created after the mount are honoured", async () => {
+  const root = await makeMount();
+  const { watcher, listing } = watchMount(root);
+  try {
+    await watcher.add(root);
+    await settle();
+
+    // Build the folder elsewhere and move it in, so it arrives with its .gitignore
+    const staging = await fs.mkdtemp(path.join(os.tmpdir(), "omni-staging-"));
+    tempDirs.push(staging);
+    await fs.writeFile(path.join(staging, ".gitignore"), "secret.md\n");
+    await fs.writeFile(path.join(staging, "public.md"), "public\n");
+    await fs.writeFile(path.join(staging, "secret.md"), "secret\n");
+    await fs.rename(staging, path.join(root, "docs"));
+
+    await eventually(() => assert.ok(listing().includes("docs/public.md")));
+    await settle(1000);
+    assert.deepEqual(listing(), ["docs/public.md", "draft.md", "keep.md"]);
+  } finally {
+    await watcher.close();
+  }
+});
+
+test("new, edited and deleted files are reported and kept in the index", async () => {
+  const root = await makeMount();
+  await fs.mkdir(path.join(root, "notes"));
+  await fs.writeFile(path.join(root, "notes", "a.md"), "a\n");
+  const { watcher, events, listing } = watchMount(root);
+  try {
+    await watcher.add(root);
+    await settle();
+    assert.deepEqual(listing(), ["draft.md", "keep.md", path.join("notes", "a.md")]);
+    assert.equal(watcher.countIn(root), 3);
+
+    await fs.writeFile(path.join(root, "fresh.md"), "fresh\n");
+    await fs.writeFile(path.join(root, "image.png"), "not exposed\n");
+    await eventually(() => assert.ok(listing().includes("fresh.md")));
+
+    await fs.writeFile(path.join(root, "keep.md"), "kept, edited\n");
+    await eventually(() => assert.deepEqual(events.at(-1), ["change", "keep.md"]));
+
+    await fs.rm(path.join(root, "draft.md"));
+    await fs.rm(path.join(root, "notes"), { recursive: true });
+    await eventually(() => assert.deepEqual(listing(), ["fresh.md", "keep.md"]));
+    await settle();
+    assert.deepEqual(
+      events.filter(([kind]) => kind !== "change").sort(),
+      [
+        ["add", "fresh.md"],
+        ["unlink", "draft.md"],
+        ["unlink", path.join("notes", "a.md")],
+      ],
+    );
+  } finally {
+    await watcher.close();
+  }
+});
+
+test("files under overlapping mounts are listed once", async () => {
+  const root = await makeMount();
+  await fs.mkdir(path.join(root, "sub"));
+  await fs.writeFile(path.join(root, "sub", "inner.md"), "inner\n");
+  const sub = path.join(root, "sub");
+  const filters = new Map([
+    [root, new MountFilter(root, {}, [".md"])],
+    [sub, new MountFilter(sub, {}, [".md"])],
+  ]);
+  const watcher = new FileWatcher({
+    scan: (dir) => filters.get(dir)!.scan(),
+    accepts: async (dir, filePath) => filters.get(dir)!.allowsFile(filePath),
+    skipsDir: (dir, dirPath) => !filters.get(dir)!.allowsDir(dirPath),
+    onChange: () => {},
+    isIgnoreFile: () => false,
+    resetIgnoreFiles: () => {},
+    loadIgnoreFiles: async () => {},
+  });
+  try {
+    await watcher.add(root);
+    await watcher.add(sub);
+    assert.deepEqual(
+      watcher.allFiles().map((f) => path.relative(root, f)),
+      ["draft.md", "keep.md", path.join("sub", "inner.md")],
+    );
+    assert.equal(watcher.allFiles(), watcher.allFiles());
+
+    await watcher.remove(root);
+    assert.deepEqual(watcher.allFiles(), [path.join(sub, "inner.md")]);
+  } finally {
+    await watcher.close();
+  }
+});
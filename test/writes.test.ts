@@ -0,0 +1,206 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { bus, type FileWrite } from "../src/events.js";
+import { MountFilter } from "../src/filters.js";
+import { PatchError } from "../src/patch.js";
+import {
+  MAX_BACKUPS_PER_FILE,
+  commitWrites,
+  preparePatch,
+  readIfExists,
+  withFileLocks,
+  type CommitOptions,
+} from "../src/writes.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true }))));
+
+/** A writable mount with one file, a backup folder beside it, and commit options that use both */
+async function makeMount(): Promise<{ root: string; backupDir: string; mounts: MountFilter[]; options: CommitOptions }> {
+  const base = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "omni-writes-")));
+  tempDirs.push(base);
+  const root = path.join(base, "mount");
+  const backupDir = path.join(base, "backups");
+  await fs.mkdir(root);
+  await fs.writeFile(path.join(root, "notes.md"), "one\ntwo\nthree\n");
+  return {
+    root,
+    backupDir,
+    mounts: [new MountFilter(root, { writable: true }, [".txt", ".md"])],
+    options: { dryRun: false, backupDir, resourceName: (f) => `mount/${path.relative(root, f)}` },
+  };
+}
+
+/** Every backup file under `dir`, relative to it */
+async function listBackups(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true }).catch(() => []);
+  return entries.filter((e) => e.isFile()).map((e) => path.relative(dir, path.join(e.parentPath, e.name)));
+}
+
+test("readIfExists returns undefined only for missing files", async () => {
+  const { root } = await makeMount();
+  assert.equal(await readIfExists(path.join(root, "notes.md")), "one\ntwo\nthree\n");
+  assert.equal(await readIfExists(path.join(root, "missing.md")), undefined);
+  await assert.rejects(readIfExists(root), /EISDIR/);
+});
+
+test("a dry run returns the diff and writes nothing", async () => {
+  const { root, backupDir, options } = await makeMount();
+  const filePath = path.join(root, "notes.md");
+  const result = await commitWrites(
+    "write_file",
+    [{ filePath, before: "one\ntwo\nthree\n", after: "one\n2\nthree\n" }],
+    { ...options, dryRun: true },
+  );
+
+  assert.match(result, /^🔍 Dry run — nothing was written\. Changes to 1 file\(s\):/);
+  assert.match(result, /--- a\/mount\/notes\.md\n\+\+\+ b\/mount\/notes\.md\n@@ -1,3 \+1,3 @@\n one\n-two\n\+2\n three\n/);
+  assert.equal(await fs.readFile(filePath, "utf-8"), "one\ntwo\nthree\n");
+  assert.deepEqual(await listBackups(backupDir), []);
+});
+
+test("unchanged contents are not written", async () => {
+  const { root, options } = await makeMount();
+  const filePath = path.join(root, "notes.md");
+  const result = await commitWrites("write_file", [{ filePath, before: "one\n", after: "one\n" }], options);
+  assert.equal(result, "ℹ️ mount/notes.md would not change — nothing to write.");
+});
+
+test("a write backs up the old version, replaces the file and announces it", async (t) => {
+  const { root, backupDir, options } = await makeMount();
+  const filePath = path.join(root, "notes.md");
+  await fs.chmod(filePath, 0o640);
+  const events: FileWrite[] = [];
+  const listener = (write: FileWrite) => events.push(write);
+  bus.on("file:write", listener);
+  t.after(() => bus.off("file:write", listener));
+
+  const result = await commitWrites(
+    "append_file",
+    [{ filePath, before: "one\ntwo\nthree\n", after: "one\ntwo\nthree\nfour\n" }],
+    options,
+  );
+
+  assert.match(result, new RegExp(`^✅ Updated ${filePath} \\(\\+1 −0 line\\(s\\), 19 B\\)\\n   💾 Previous version saved to `));
+  assert.equal(await fs.readFile(filePath, "utf-8"), "one\ntwo\nthree\nfour\n");
+  assert.equal((await fs.stat(filePath)).mode & 0o777, 0o640, "the file keeps its permissions");
+  assert.deepEqual(await fs.readdir(root), ["notes.md"], "no temp file is left behind");
+
+  const backups = await listBackups(backupDir);
+  assert.equal(backups.length, 1);
+  assert.equal(path.dirname(backups[0]!), path.relative("/", root));
+  assert.equal(await fs.readFile(path.join(backupDir, backups[0]!), "utf-8"), "one\ntwo\nthree\n");
+  assert.deepEqual(events, [{ tool: "append_file", fileName: "mount/notes.md", created: false, added: 1, removed: 0 }]);
+});
+
+test("new files are created with their folders and not backed up", async () => {
+  const { root, backupDir, options } = await makeMount();
+  const filePath = path.join(root, "new", "todo.md");
+  const result = await commitWrites("write_file", [{ filePath, before: undefined, after: "- [ ] test\n" }], options);
+
+  assert.match(result, /^✅ Created .*todo\.md \(\+1 −0 line\(s\), 11 B\)$/);
+  assert.equal(await fs.readFile(filePath, "utf-8"), "- [ ] test\n");
+  assert.deepEqual(await listBackups(backupDir), []);
+});
+
+test(`only the newest ${MAX_BACKUPS_PER_FILE} backups of a file are kept`, async (t) => {
+  const { root, backupDir, options } = await makeMount();
+  const filePath = path.join(root, "notes.md");
+  t.mock.timers.enable({ apis: ["Date"], now: new Date("2025-01-01T00:00:00Z") });
+
+  for (let i = 0; i < MAX_BACKUPS_PER_FILE + 3; i++) {
+    t.mock.timers.tick(1000);
+    const before = await fs.readFile(filePath, "utf-8");
+    await commitWrites("append_file", [{ filePath, before, after: `${before}${i}\n` }], options);
+  }
+
+  const backups = (await listBackups(backupDir)).map((b) => path.basename(b)).sort();
+  assert.equal(backups.length, MAX_BACKUPS_PER_FILE);
+  assert.equal(backups[0], "notes.md.2025-01-01T00-00-04-000Z.bak");
+});
+
+test("preparePatch applies a multi-file patch relative to a folder", async () => {
+  const { root, mounts } = await makeMount();
+  const patch = [
+    "--- a/notes.md",
+    "+++ b/notes.md",
+    "@@ -1,3 +1,3 @@",
+    " one",
+    "-two",
+    "+2",
+    " three",
+    "--- /dev/null",
+    "+++ b/sub/new.md",
+    "@@ -0,0 +1 @@",
+    "+created",
+    "",
+  ].join("\n");
+
+  const writes = await preparePatch(mounts, root, patch);
+  assert.deepEqual(writes, [
+    { filePath: path.join(root, "notes.md"), before: "one\ntwo\nthree\n", after: "one\n2\nthree\n" },
+    { filePath: path.join(root, "sub", "new.md"), before: undefined, after: "created\n" },
+  ]);
+  assert.equal(await readIfExists(path.join(root, "sub", "new.md")), undefined, "nothing is written yet");
+});
+
+test("preparePatch refuses deletes, renames, read-only targets and hunks that do not apply", async () => {
+  const { root, mounts } = await makeMount();
+  const readOnly = [new MountFilter(root, {}, [".md"])];
+  const edit = "--- a/notes.md\n+++ b/notes.md\n@@ -1,3 +1,3 @@\n one\n-two\n+2\n three\n";
+
+  await assert.rejects(preparePatch(readOnly, root, edit), /read-only mount/);
+  await assert.rejects(preparePatch(mounts, root, "--- a/notes.md\n+++ /dev/null\n@@ -1,3 +0,0 @@\n-one\n-two\n-three\n"), /does not delete/);
+  await assert.rejects(preparePatch(mounts, root, edit.replace("+++ b/notes.md", "+++ b/other.md")), /does not rename/);
+  await assert.rejects(preparePatch(mounts, root, edit.replace(" one\n", " uno\n")), PatchError);
+  await assert.rejects(preparePatch(mounts, root, "--- /dev/null\n+++ b/notes.md\n@@ -0,0 +1 @@\n+x\n"), /already exists/);
+  await assert.rejects(preparePatch(mounts, root, edit.replaceAll("notes.md", "gone.md")), /does not exist/);
+});
+
+test("concurrent writes to one file never clash over their temp files", async () => {
+  const { root, options } = await makeMount();
+  const filePath = path.join(root, "notes.md");
+  const results = await Promise.allSettled(
+    Array.from({ length: 10 }, (_, i) => commitWrites("write_file", [{ filePath, before: undefined, after: `version ${i}\n` }], options)),
+  );
+
+  assert.deepEqual(results.filter((r) => r.status === "rejected"), []);
+  assert.match(await fs.readFile(filePath, "utf-8"), /^version \d\n$/);
+  assert.deepEqual(await fs.readdir(root), ["notes.md"]);
+});
+
+test("file locks serialize read-modify-write cycles, so concurrent appends all land", async () => {
+  const { root, options } = await makeMount();
+  const filePath = path.join(root, "notes.md");
+  const append = (line: string) =>
+    withFileLocks([filePath], async () => {
+      const before = await readIfExists(filePath);
+      return commitWrites("append_file", [{ filePath, before, after: `${before}${line}\n` }], options);
+    });
+
+  await Promise.all(Array.from({ length: 12 }, (_, i) => append(`entry ${i}`)));
+  const lines = (await fs.readFile(filePath, "utf-8")).trimEnd().split("\n");
+  assert.deepEqual(lines, ["one", "two", "three", ...Array.from({ length: 12 }, (_, i) => `entry ${i}`)]);
+});
+
+test("locks on several files are taken in a fixed order and released after errors", async () => {
+  const { root } = await makeMount();
+  const [a, b] = [path.join(root, "a.md"), path.join(root, "b.md")];
+  const order: string[] = [];
+  const hold = (name: string, paths: string[]) =>
+    withFileLocks(paths, async () => {
+      order.push(`${name} start`);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      order.push(`${name} end`);
+    });
+
+  await Promise.all([hold("first", [a, b]), hold("second", [b, a]), hold("other", [path.join(root, "c.md")])]);
+  assert.deepEqual(order.filter((e) => !e.startsWith("other")), ["first start", "first end", "second start", "second end"]);
+  assert.ok(order.indexOf("other start") < order.indexOf("first end"), "unrelated files are not held up");
+
+  await assert.rejects(withFileLocks([a], async () => { throw new Error("boom"); }), /boom/);
+  assert.equal(await withFileLocks([a, b], async () => "free again"), "free again");
+});